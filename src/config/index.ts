@@ -0,0 +1,197 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import YAML from 'yaml';
+import { z } from 'zod';
+import { Config, CONFIG_KEYS, ConfigKey, configSchema, ROOM_KEYS, RoomConfigKey, roomOverridesSchema, SECRET_KEYS } from './schema';
+
+export { Config, ConfigKey, RoomConfigKey } from './schema';
+
+export type ConfigSource = 'default' | 'file' | 'env';
+export type RoomOverrides = Partial<Pick<Config, RoomConfigKey>>;
+
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid configuration:\n${issues.map(i => `  - ${i}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+interface LoadedConfig {
+  values: Config;
+  sources: Record<ConfigKey, ConfigSource>;
+  rooms: Record<string, RoomOverrides>;
+  // .env and CONFIG_FILE paths that were read
+  files: string[];
+  warnings: string[];
+}
+
+let loaded: LoadedConfig | null = null;
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+// CONFIG_FILE: .json, .yaml or .yml with settings keyed like the env vars, plus `rooms: { <roomId>: { ... } }`
+function readConfigFile(file: string): Record<string, unknown> {
+  const raw = fs.readFileSync(file, 'utf8');
+  const ext = path.extname(file).toLowerCase();
+  let data: unknown;
+  if (ext === '.json') data = JSON.parse(raw);
+  else if (ext === '.yaml' || ext === '.yml') data = YAML.parse(raw);
+  else throw new Error('must end in .json, .yaml or .yml');
+  if (data == null) return {};
+  if (!isObject(data)) throw new Error('must contain an object of settings');
+  return data;
+}
+
+const describeIssue = (issue: z.ZodIssue, prefix: string[], source: string) =>
+  `${[...prefix, ...issue.path].join('.')} (${source}): ${issue.message}`;
+
+/**
+ * Problems the schema cannot see because they span settings. Errors stop the boot; warnings are logged
+ * (CONFIG_STRICT=true turns them into errors) since the service still runs, with something switched off.
+ */
+function crossCheck(c: Config, rooms: Record<string, RoomOverrides>) {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (c.REDACTION_MODE === 'hash' && !c.REDACTION_HASH_KEY) errors.push('REDACTION_HASH_KEY: required when REDACTION_MODE=hash');
+  if (c.RECORDINGS_STORE === 's3' && !c.RECORDINGS_S3_BUCKET) errors.push('RECORDINGS_S3_BUCKET: required when RECORDINGS_STORE=s3');
+
+  const transcriptionReady: Record<Config['TRANSCRIPTION_PROVIDER'], boolean> = {
+    'groq': !!c.GROQ_API_KEY,
+    'openai': !!c.OPENAI_API_KEY,
+    'openai-compatible': !!c.TRANSCRIBE_COMPAT_BASE_URL,
+    'local': true,
+  };
+  const summarizerReady: Record<Config['SUMMARIZER_PROVIDER'], boolean> = {
+    'openai-compatible': !!(c.SUMMARIZER_BASE_URL || c.DEEPSEEK_BASE_URL) && !!(c.SUMMARIZER_API_KEY || c.DEEPSEEK_API_KEY),
+    'ollama': !!c.OLLAMA_BASE_URL,
+    'extractive': true,
+  };
+  // the global providers, then the ones rooms switch to
+  const providers: Array<[string, RoomOverrides]> = [
+    ['', { TRANSCRIPTION_PROVIDER: c.TRANSCRIPTION_PROVIDER, SUMMARIZER_PROVIDER: c.SUMMARIZER_PROVIDER }],
+    ...Object.entries(rooms).map(([roomId, o]): [string, RoomOverrides] => [` (room ${roomId})`, o]),
+  ];
+  for (const [where, { TRANSCRIPTION_PROVIDER: transcriber, SUMMARIZER_PROVIDER: summarizer }] of providers) {
+    if (transcriber && !transcriptionReady[transcriber] && !c.TRANSCRIPTION_FALLBACK_PROVIDERS.some(p => transcriptionReady[p])) {
+      warnings.push(`TRANSCRIPTION_PROVIDER${where}: ${transcriber} is not configured (missing API key or base URL) and no fallback is; audio will not be transcribed`);
+    }
+    if (summarizer && !summarizerReady[summarizer]) {
+      const fallback = c.SUMMARIZER_FALLBACKS.find(s => summarizerReady[s]);
+      warnings.push(`SUMMARIZER_PROVIDER${where}: ${summarizer} is not configured (missing its base URL or API key); `
+        + (fallback ? `finalize falls back to ${fallback} summaries` : 'finalize will produce no summary'));
+    }
+  }
+
+  if (c.AUTH_MODE === 'enforce' && !c.AUTH_API_KEYS.length && !c.AUTH_ADMIN_KEYS.length && !c.AUTH_JWT_SECRET) {
+    warnings.push('AUTH_MODE: enforce without AUTH_API_KEYS, AUTH_ADMIN_KEYS or AUTH_JWT_SECRET; every API request will be rejected');
+  }
+  if (c.MAIL_BACKEND === 'resend' && !c.RESEND_API_KEY) warnings.push('MAIL_BACKEND: resend without RESEND_API_KEY; email is off');
+  else if (c.MAIL_BACKEND === 'smtp' && !c.SMTP_HOST) warnings.push('MAIL_BACKEND: smtp without SMTP_HOST; email is off');
+  else if (!c.MAIL_BACKEND && !c.RESEND_API_KEY && !c.SMTP_HOST) warnings.push('MAIL_BACKEND: no RESEND_API_KEY or SMTP_HOST; summary emails are off');
+  if (c.WEBHOOKS.some(w => !w.secret) && !c.WEBHOOK_SECRET) warnings.push('WEBHOOK_SECRET: WEBHOOKS entries without a secret are signed with an empty key');
+  return { errors, warnings };
+}
+
+/**
+ * Read .env (ENV_FILE, default ./.env), then CONFIG_FILE, and validate everything against the schema.
+ * Environment variables win over the file, which wins over the defaults. Throws ConfigError listing every
+ * problem at once; call it first thing at boot.
+ */
+export function loadConfig(): LoadedConfig {
+  const files: string[] = [];
+  const envFile = path.resolve(process.env.ENV_FILE || path.join(process.cwd(), '.env'));
+  if (fs.existsSync(envFile)) {
+    dotenv.config({ path: envFile, quiet: true });
+    files.push(envFile);
+  }
+
+  const issues: string[] = [];
+  let fileValues: Record<string, unknown> = {};
+  const configFile = process.env.CONFIG_FILE ? path.resolve(process.env.CONFIG_FILE) : '';
+  if (configFile) {
+    try {
+      fileValues = readConfigFile(configFile);
+      files.push(configFile);
+    } catch (e) {
+      issues.push(`CONFIG_FILE (${configFile}): ${e instanceof Error ? e.message : e}`);
+    }
+  }
+  const { rooms: fileRooms, ...fileSettings } = fileValues;
+  for (const key of Object.keys(fileSettings)) {
+    if (!(CONFIG_KEYS as string[]).includes(key)) issues.push(`${key} (file): unknown setting`);
+  }
+
+  const sources = {} as Record<ConfigKey, ConfigSource>;
+  const input: Record<string, unknown> = {};
+  for (const key of CONFIG_KEYS) {
+    const env = process.env[key];
+    if (env !== undefined && env.trim() !== '') {
+      input[key] = env;
+      sources[key] = 'env';
+    } else if (fileSettings[key] !== undefined && fileSettings[key] !== null) {
+      input[key] = fileSettings[key];
+      sources[key] = 'file';
+    } else {
+      sources[key] = 'default';
+    }
+  }
+  const parsed = configSchema.safeParse(input);
+  if (!parsed.success) issues.push(...parsed.error.issues.map(i => describeIssue(i, [], sources[i.path[0] as ConfigKey] || 'file')));
+
+  const rooms: Record<string, RoomOverrides> = {};
+  if (fileRooms !== undefined && !isObject(fileRooms)) issues.push('rooms (file): must map room ids to settings');
+  for (const [roomId, overrides] of Object.entries(isObject(fileRooms) ? fileRooms : {})) {
+    if (!isObject(overrides)) {
+      issues.push(`rooms.${roomId} (file): must be an object of settings`);
+      continue;
+    }
+    for (const key of Object.keys(overrides)) {
+      if (!(ROOM_KEYS as readonly string[]).includes(key)) issues.push(`rooms.${roomId}.${key} (file): not a per-room setting (allowed: ${ROOM_KEYS.join(', ')})`);
+    }
+    const room = roomOverridesSchema.safeParse(overrides);
+    if (room.success) rooms[roomId] = Object.fromEntries(Object.entries(room.data).filter(([, v]) => v !== undefined));
+    else issues.push(...room.error.issues.map(i => describeIssue(i, ['rooms', roomId], 'file')));
+  }
+
+  if (!parsed.success || issues.length) throw new ConfigError(issues);
+
+  const { errors, warnings } = crossCheck(parsed.data, rooms);
+  const strict = /^(true|1|yes)$/i.test(process.env.CONFIG_STRICT || '');
+  if (errors.length || (strict && warnings.length)) throw new ConfigError([...errors, ...(strict ? warnings : [])]);
+
+  loaded = { values: parsed.data, sources, rooms, files, warnings };
+  return loaded;
+}
+
+/** The validated settings; loads them on first use when the entry point has not. */
+export function config(): Config {
+  return (loaded || loadConfig()).values;
+}
+
+/** Settings for one room: the global ones with that room's overrides from the config file on top. */
+export function roomConfig(roomId?: string): Config {
+  const current = loaded || loadConfig();
+  const overrides = roomId ? current.rooms[roomId] : undefined;
+  return overrides ? { ...current.values, ...overrides } : current.values;
+}
+
+const REDACTED = '[set]';
+
+const redact = (key: ConfigKey, value: unknown) => {
+  if (!SECRET_KEYS.has(key)) return value ?? null;
+  const empty = value === undefined || (Array.isArray(value) && !value.length);
+  return empty ? null : REDACTED;
+};
+
+/** Effective settings for admins: where each value came from, with secrets reduced to set/unset. */
+export function describeConfig() {
+  const current = loaded || loadConfig();
+  return {
+    files: current.files,
+    settings: Object.fromEntries(CONFIG_KEYS.map(key => [key, { value: redact(key, current.values[key]), source: current.sources[key] }])),
+    rooms: current.rooms,
+    warnings: current.warnings,
+  };
+}
@@ -0,0 +1,328 @@
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import type { LogLevel } from '../services/observability/logger';
+import type { TranscriptionProviderName } from '../services/transcription/types';
+import type { SummarizerName } from '../services/summarization/types';
+import type { MailerName } from '../services/mail/types';
+import type { AttachmentKind } from '../services/mail/attachments';
+import type { TranscodeFormat } from '../services/media/ffmpeg';
+import type { RedactionMode, PiiKind } from '../services/redaction';
+import type { ParticipantResolverName } from '../services/participants/types';
+import type { Locale } from '../services/i18n';
+import { LIMIT_METRICS, LimitMetric, QUOTA_PERIODS, QUOTA_SCOPES, QuotaPeriod, QuotaScope } from '../services/usage/types';
+import { WEBHOOK_EVENT_TYPES } from '../services/webhooks/types';
+
+// Name lists are spelled out (type-checked against the modules that own them) so this file loads before any service
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const satisfies readonly LogLevel[];
+const TRANSCRIPTION_PROVIDERS = ['groq', 'openai', 'openai-compatible', 'local'] as const satisfies readonly TranscriptionProviderName[];
+const SUMMARIZERS = ['openai-compatible', 'ollama', 'extractive'] as const satisfies readonly SummarizerName[];
+const MAILERS = ['resend', 'smtp', 'file', 'console'] as const satisfies readonly MailerName[];
+const ATTACHMENT_KINDS = ['transcript-txt', 'transcript-vtt', 'actions-ics', 'actions-csv'] as const satisfies readonly AttachmentKind[];
+const TRANSCODE_FORMATS = ['wav', 'flac', 'opus'] as const satisfies readonly TranscodeFormat[];
+const REDACTION_MODES = ['off', 'redact', 'hash', 'keep-for-owner'] as const satisfies readonly RedactionMode[];
+const PII_KINDS = ['email', 'phone', 'national-id', 'card', 'custom'] as const satisfies readonly PiiKind[];
+const PARTICIPANT_RESOLVERS = ['agorax', 'roster', 'ics'] as const satisfies readonly ParticipantResolverName[];
+const LOCALES = ['es', 'en', 'pt'] as const satisfies readonly Locale[];
+
+// `FOO=` in .env counts as unset, so the default applies
+const unset = (v: unknown) => (typeof v === 'string' && !v.trim() ? undefined : v);
+const lower = (v: unknown) => (typeof v === 'string' ? unset(v.trim().toLowerCase()) : v);
+
+const BOOLEAN_WORDS: Record<string, boolean> = { true: true, false: false, 1: true, 0: false, yes: true, no: false, on: true, off: false };
+const toBoolean = (v: unknown) => {
+  const s = lower(v);
+  return typeof s === 'string' && s in BOOLEAN_WORDS ? BOOLEAN_WORDS[s] : s;
+};
+
+const text = () => z.preprocess(unset, z.coerce.string().optional());
+const textOr = (def: string) => z.preprocess(unset, z.coerce.string().default(def));
+const url = () => z.preprocess(unset, z.string().url('must be an absolute URL').transform(u => u.replace(/\/+$/, '')).optional());
+const num = (def: number) => z.preprocess(unset, z.coerce.number({ invalid_type_error: 'must be a number' }).default(def));
+const int = (def: number, min = 0) =>
+  z.preprocess(unset, z.coerce.number({ invalid_type_error: 'must be a number' }).int('must be a whole number').min(min).default(def));
+const flag = (def: boolean) => z.preprocess(toBoolean, z.boolean({ invalid_type_error: 'must be true or false' }).default(def));
+const oneOf = <T extends readonly [string, ...string[]]>(values: T) => z.preprocess(lower, z.enum(values as unknown as [T[number], ...T[number][]]));
+
+// Comma-separated (or a YAML/JSON array); `none` means an empty list
+const listOf = <T extends z.ZodTypeAny>(item: T, def: z.output<T>[] = []) => z.preprocess(v => {
+  const s = unset(v);
+  if (typeof s !== 'string') return s;
+  return s.trim().toLowerCase() === 'none' ? [] : s.split(',').map(p => p.trim()).filter(Boolean);
+}, z.array(item).default(def));
+
+// JSON in env vars; a config file may give the structure directly
+const json = <T extends z.ZodTypeAny>(schema: T) => z.preprocess((v, ctx) => {
+  const s = unset(v);
+  if (typeof s !== 'string') return s;
+  try {
+    return JSON.parse(s);
+  } catch (e) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `invalid JSON (${e instanceof Error ? e.message : e})` });
+    // the default stands in so the schema below adds no second complaint
+    return undefined;
+  }
+}, schema);
+
+const apiKeySchema = z.object({
+  key: z.string().min(1),
+  name: z.string().optional(),
+  scopes: z.array(z.string()).optional(),
+  rooms: z.array(z.string()).optional(),
+  userId: z.string().optional(),
+  tenant: z.coerce.string().optional(),
+});
+
+// JSON array of key objects, or plain keys separated by commas (named key-1, key-2, ...)
+const apiKeys = z.preprocess((v, ctx) => {
+  const s = unset(v);
+  if (typeof s !== 'string') return s;
+  if (s.trim().startsWith('[')) {
+    try {
+      return JSON.parse(s);
+    } catch (e) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `invalid JSON (${e instanceof Error ? e.message : e})` });
+      return undefined;
+    }
+  }
+  return s.split(',').map(k => k.trim()).filter(Boolean).map((key, i) => ({ key, name: `key-${i + 1}` }));
+}, z.array(apiKeySchema).default([]));
+
+const webhookSchema = z.object({
+  url: z.string().url(),
+  events: z.union([z.array(z.string()), z.string()]).optional().refine(
+    events => (Array.isArray(events) ? events : String(events ?? '*').split(','))
+      .every(e => !e.trim() || e.trim() === '*' || (WEBHOOK_EVENT_TYPES as string[]).includes(e.trim())),
+    { message: `events must be among ${WEBHOOK_EVENT_TYPES.join(', ')} or *` },
+  ),
+  roomId: z.coerce.string().optional(),
+  secret: z.string().optional(),
+  description: z.string().optional(),
+});
+
+const quotaRuleSchema = z.object({
+  metric: z.enum(LIMIT_METRICS as [LimitMetric, ...LimitMetric[]]),
+  scope: z.enum(QUOTA_SCOPES as [QuotaScope, ...QuotaScope[]]),
+  period: z.enum(QUOTA_PERIODS as [QuotaPeriod, ...QuotaPeriod[]]),
+  limit: z.coerce.number().min(0),
+  id: z.coerce.string().optional(),
+  tenant: z.coerce.string().optional(),
+});
+
+const redactionPatternSchema = z.union([z.string(), z.object({ pattern: z.string(), flags: z.string().optional(), label: z.string().optional() })])
+  .superRefine((p, ctx) => {
+    const spec = typeof p === 'string' ? { pattern: p, flags: '' } : p;
+    try {
+      new RegExp(spec.pattern, `${spec.flags || ''}`);
+    } catch (e) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: e instanceof Error ? e.message : String(e) });
+    }
+  });
+
+/**
+ * Every setting, keyed by its environment variable. Values come from the environment (and .env), the
+ * CONFIG_FILE and the schema defaults, in that order; see config/index.ts.
+ */
+export const configSchema = z.object({
+  // Server
+  PORT: int(3000, 1),
+  CORS_ORIGINS: listOf(z.string().transform(o => o.replace(/\/+$/, ''))),
+  STORAGE_TEMP_PATH: z.preprocess(unset, z.coerce.string().default(() => path.join(process.cwd(), 'tmp'))),
+  METRICS_TOKEN: text(),
+  METRICS_DEFAULTS: flag(true),
+  HEALTH_FFMPEG_CACHE_MS: int(60000),
+  LOG_LEVEL: oneOf(LOG_LEVELS).default('info'),
+  LOG_FORMAT: oneOf(['json', 'text'] as const).default('json'),
+  LOG_STACKS: flag(false),
+  LOG_REDACTION: flag(true),
+
+  // Auth
+  AUTH_MODE: oneOf(['enforce', 'off'] as const).default('enforce'),
+  AUTH_API_KEYS: apiKeys,
+  AUTH_ADMIN_KEYS: listOf(z.string()),
+  AUTH_JWT_SECRET: text(),
+  AUTH_JWT_ISSUER: text(),
+  AUTH_JWT_AUDIENCE: text(),
+
+  // Background jobs
+  JOB_CONCURRENCY: int(2, 1),
+  JOB_MAX_ATTEMPTS: int(3, 1),
+  JOB_BACKOFF_MS: int(2000),
+  JOB_BACKOFF_MAX_MS: int(60000),
+  JOB_POLL_MS: int(1000, 1),
+  JOB_RETENTION_HOURS: num(24),
+  JOB_WAIT_TIMEOUT_MS: int(120000),
+  JOB_LEASE_MS: int(60000, 1000),
+
+  // Audio processing
+  TRANSCODE_ON_SERVER: flag(false),
+  TRANSCODE_FORMAT: oneOf(TRANSCODE_FORMATS).default('flac'),
+  TRANSCODE_OPUS_BITRATE: textOr('24k'),
+  FFMPEG_CONCURRENCY: z.preprocess(unset, z.coerce.number({ invalid_type_error: 'must be a number' }).int().min(1).optional())
+    .transform(v => v ?? Math.max(1, os.cpus().length - 1)),
+  FFMPEG_TIMEOUT_MS: int(120000, 1),
+  FFPROBE_PATH: text(),
+  AUDIO_PREPROCESS: flag(true),
+  SILENCE_THRESHOLD_DB: num(-40),
+  SILENCE_MIN_MS: int(500),
+  MIN_SPEECH_MS: int(300),
+  AUDIO_NORMALIZE: flag(true),
+  LOUDNORM_TARGET_LUFS: num(-16),
+  TIMELINE_MERGE_GAP_MS: int(1500),
+
+  // Live streaming
+  STREAM_PARTIAL_INTERVAL_MS: int(1500),
+  STREAM_VAD_THRESHOLD_DB: num(-45),
+  STREAM_VAD_MARGIN_DB: num(10),
+  STREAM_SILENCE_MS: int(700),
+  STREAM_MIN_SPEECH_MS: int(300),
+  STREAM_MAX_SEGMENT_MS: int(15000, 1),
+  STREAM_PREROLL_MS: int(200),
+  STREAM_MAX_DECODERS: int(16, 1),
+  // finished utterances one stream may have waiting for transcription before it is closed as overloaded
+  STREAM_MAX_PENDING_FINALS: int(8, 1),
+
+  // Transcription
+  TRANSCRIPTION_PROVIDER: oneOf(TRANSCRIPTION_PROVIDERS).default('groq'),
+  TRANSCRIPTION_FALLBACK_PROVIDERS: listOf(oneOf(TRANSCRIPTION_PROVIDERS)),
+  TRANSCRIBE_TIMESTAMPS: flag(true),
+  GROQ_BASE_URL: url().default('https://api.groq.com/openai/v1'),
+  GROQ_API_KEY: text(),
+  GROQ_MODEL: textOr('whisper-large-v3-turbo'),
+  OPENAI_BASE_URL: url().default('https://api.openai.com/v1'),
+  OPENAI_API_KEY: text(),
+  OPENAI_TRANSCRIBE_MODEL: textOr('whisper-1'),
+  TRANSCRIBE_COMPAT_BASE_URL: url(),
+  TRANSCRIBE_COMPAT_API_KEY: text(),
+  TRANSCRIBE_COMPAT_MODEL: textOr('whisper-1'),
+  WHISPER_LOCAL_URL: url().default('http://127.0.0.1:8080'),
+  WHISPER_LOCAL_PATH: textOr('/inference'),
+  WHISPER_LOCAL_MODEL: text(),
+
+  // Summaries: the openai-compatible summarizer falls back to the DEEPSEEK_* settings
+  SUMMARIZER_PROVIDER: oneOf(SUMMARIZERS).default('openai-compatible'),
+  SUMMARIZER_FALLBACKS: listOf(oneOf(SUMMARIZERS), ['extractive']),
+  SUMMARIZER_BASE_URL: url(),
+  SUMMARIZER_API_KEY: text(),
+  SUMMARIZER_MODEL: text(),
+  DEEPSEEK_BASE_URL: url(),
+  DEEPSEEK_API_KEY: text(),
+  DEEPSEEK_MODEL: textOr('deepseek-chat'),
+  OLLAMA_BASE_URL: url(),
+  OLLAMA_MODEL: textOr('llama3.1'),
+  OLLAMA_NUM_CTX: z.preprocess(unset, z.coerce.number({ invalid_type_error: 'must be a number' }).int().positive().optional()),
+  SUMMARY_TEMPLATE: text(),
+  SUMMARY_TEMPLATES_DIR: text(),
+  SUMMARY_WINDOW_TOKENS: int(8000, 1),
+  SUMMARY_PARTIAL_MAX_TOKENS: int(700, 1),
+  SUMMARY_MAX_TOKENS: int(1200, 1),
+  SUMMARY_REPAIR_ATTEMPTS: int(2),
+  SUMMARY_EXTRACTIVE_SENTENCES: int(6, 1),
+  DEFAULT_LOCALE: z.preprocess(v => (typeof lower(v) === 'string' ? (lower(v) as string).slice(0, 2) : lower(v)), z.enum(LOCALES).default('es')),
+
+  // Email
+  MAIL_BACKEND: oneOf(MAILERS).optional(),
+  MAIL_FROM: textOr('AgoraX <noreply@messagesmail.store>'),
+  MAIL_ATTACHMENTS: listOf(oneOf(ATTACHMENT_KINDS)),
+  RESEND_API_KEY: text(),
+  SMTP_HOST: text(),
+  SMTP_PORT: int(587, 1),
+  SMTP_SECURE: z.preprocess(toBoolean, z.boolean({ invalid_type_error: 'must be true or false' }).optional()),
+  SMTP_USER: text(),
+  SMTP_PASS: text(),
+  SMTP_TIMEOUT_MS: int(30000, 1),
+  MAIL_FILE_DIR: text(),
+  MAIL_THEME_PATH: text(),
+  MAIL_BRAND_NAME: text(),
+  MAIL_LOGO_URL: text(),
+  MAIL_PRIMARY_COLOR: text(),
+  MAIL_MAX_ATTEMPTS: int(6, 1),
+  MAIL_BACKOFF_MS: int(30000),
+  MAIL_BACKOFF_MAX_MS: int(60 * 60 * 1000),
+  MAIL_POLL_MS: int(5000, 1),
+  MAIL_OUTBOX_RETENTION_DAYS: num(30),
+
+  // Participants
+  PARTICIPANT_RESOLVERS: listOf(oneOf(PARTICIPANT_RESOLVERS), ['agorax', 'roster', 'ics']),
+  PARTICIPANTS_TIMEOUT_MS: int(10000, 1),
+  BACKEND_BASE: url(),
+  PARTICIPANTS_API_TOKEN: text(),
+  PARTICIPANTS_ROSTER_PATH: text(),
+  PARTICIPANTS_ICS_PATH: text(),
+
+  // Privacy
+  REDACTION_MODE: oneOf(REDACTION_MODES).default('off'),
+  REDACTION_HASH_KEY: text(),
+  REDACTION_ENTITIES: listOf(oneOf(PII_KINDS)),
+  REDACTION_PATTERNS: json(z.array(redactionPatternSchema).default([])),
+  REDACTION_TERMS: listOf(z.string()),
+  REDACTION_DICTIONARY_PATH: text(),
+
+  // Storage, recordings and retention
+  TRANSCRIPT_STORE: oneOf(['fs', 'sqlite'] as const).default('fs'),
+  TRANSCRIPT_SQLITE_PATH: text(),
+  AUDIO_RETENTION: flag(false),
+  RECORDING_ASSEMBLE_ON_FINALIZE: flag(true),
+  RECORDING_OPUS_BITRATE: textOr('32k'),
+  RECORDING_ASSEMBLE_TIMEOUT_MS: int(30 * 60 * 1000, 1),
+  RECORDING_RETENTION_DAYS: num(30),
+  RECORDING_SWEEP_INTERVAL_MS: int(60 * 60 * 1000, 1000),
+  RECORDINGS_STORE: oneOf(['local', 's3'] as const).default('local'),
+  RECORDINGS_DIR: text(),
+  RECORDINGS_S3_BUCKET: text(),
+  RECORDINGS_S3_PREFIX: textOr(''),
+  RECORDINGS_S3_REGION: textOr('us-east-1'),
+  RECORDINGS_S3_ENDPOINT: url(),
+  RECORDINGS_S3_FORCE_PATH_STYLE: flag(false),
+  RECORDINGS_S3_ACCESS_KEY_ID: text(),
+  RECORDINGS_S3_SECRET_ACCESS_KEY: text(),
+  ROOM_RETENTION_DAYS: num(30),
+  ROOM_AUDIT_PATH: text(),
+  RETENTION_SWEEP: flag(true),
+  RETENTION_SWEEP_INTERVAL_MS: int(60 * 60 * 1000, 1000),
+  RETENTION_EXPORT_DIR: text(),
+  ORPHAN_FILE_MAX_AGE_HOURS: num(6),
+
+  // Webhooks
+  WEBHOOKS: json(z.array(webhookSchema).default([])),
+  WEBHOOK_SECRET: text(),
+  WEBHOOK_ALLOW_PRIVATE_URLS: flag(false),
+  WEBHOOK_MAX_ATTEMPTS: int(8, 1),
+  WEBHOOK_BACKOFF_MS: int(10000),
+  WEBHOOK_BACKOFF_MAX_MS: int(60 * 60 * 1000),
+  WEBHOOK_TIMEOUT_MS: int(10000, 1),
+  WEBHOOK_CONCURRENCY: int(4, 1),
+  WEBHOOK_POLL_MS: int(2000, 1),
+  WEBHOOK_LOG_RETENTION_DAYS: num(14),
+
+  // Usage metering
+  USAGE_QUOTAS: json(z.array(quotaRuleSchema).default([])),
+  USAGE_DIR: text(),
+  // audio seconds held against the quota for each uploaded chunk until its real length is known
+  USAGE_CHUNK_RESERVE_SECONDS: num(30),
+});
+
+export type Config = z.infer<typeof configSchema>;
+export type ConfigKey = keyof Config;
+
+export const CONFIG_KEYS = Object.keys(configSchema.shape) as ConfigKey[];
+
+// Shown as set/unset only by GET /api/config
+export const SECRET_KEYS: ReadonlySet<ConfigKey> = new Set<ConfigKey>([
+  'METRICS_TOKEN', 'AUTH_API_KEYS', 'AUTH_ADMIN_KEYS', 'AUTH_JWT_SECRET',
+  'GROQ_API_KEY', 'OPENAI_API_KEY', 'TRANSCRIBE_COMPAT_API_KEY', 'SUMMARIZER_API_KEY', 'DEEPSEEK_API_KEY',
+  'RESEND_API_KEY', 'SMTP_PASS', 'PARTICIPANTS_API_TOKEN',
+  'REDACTION_HASH_KEY', 'REDACTION_PATTERNS', 'REDACTION_TERMS',
+  'RECORDINGS_S3_ACCESS_KEY_ID', 'RECORDINGS_S3_SECRET_ACCESS_KEY', 'WEBHOOKS', 'WEBHOOK_SECRET',
+]);
+
+// Settings a config file may override for one room (`rooms: { <roomId>: { ... } }`)
+export const ROOM_KEYS = [
+  'TRANSCRIPTION_PROVIDER', 'TRANSCRIBE_TIMESTAMPS', 'SUMMARIZER_PROVIDER', 'SUMMARY_TEMPLATE', 'DEFAULT_LOCALE',
+  'MAIL_ATTACHMENTS', 'ROOM_RETENTION_DAYS',
+] as const satisfies readonly ConfigKey[];
+
+export type RoomConfigKey = typeof ROOM_KEYS[number];
+
+export const roomOverridesSchema = configSchema.pick(Object.fromEntries(ROOM_KEYS.map(k => [k, true])) as { [K in RoomConfigKey]: true })
+  .partial();
@@ -1,27 +1,92 @@
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
-import path from 'path';
 
-dotenv.config({ path: path.resolve(process.cwd(), '.env') });
+// .env, CONFIG_FILE (JSON/YAML) and the environment, validated before anything reads a setting
+import { config, ConfigError, loadConfig } from './config';
+let loadedConfig: ReturnType<typeof loadConfig>;
+try {
+  loadedConfig = loadConfig();
+} catch (e) {
+  console.error(e instanceof ConfigError ? e.message : e);
+  process.exit(1);
+}
+
+// JSON log lines with request/room/job ids, masked personal data and LOG_LEVEL filtering (LOG_FORMAT=text for plain output)
+import { installLogging, readiness, registry } from './services/observability';
+installLogging();
+console.log('[config] loaded', { files: loadedConfig.files });
+for (const warning of loadedConfig.warnings) console.warn('[config]', warning);
 
 const app = express();
-const port = Number(process.env.PORT || 3000);
+const port = config().PORT;
+
+// enable CORS for the frontend origins in CORS_ORIGINS
+import { corsOptions } from './middleware/cors';
+app.use(cors(corsOptions()));
 
-// enable CORS for frontend requests
-app.use(cors({ origin: true, credentials: true }));
+// X-Request-Id, log correlation and HTTP latency metrics
+import { requestTracing } from './middleware/tracing';
+app.use(requestTracing);
 
 // parse JSON bodies for finalize endpoint
 app.use(express.json({ limit: '5mb' }));
 
-// Mount audio routes
+// Mount audio routes (API key / JWT required, see middleware/auth)
 import audioRouter from './routes/audio';
+import { logAuthConfig } from './middleware/auth';
+logAuthConfig();
 app.use('/api/audio', audioRouter);
 
-app.get('/health', (_req, res) => res.json({ ok: true, now: new Date().toISOString() }));
+// Effective configuration for admins, secrets redacted
+import configRouter from './routes/config';
+app.use('/api/config', configRouter);
+
+// Usage metering and quotas (USAGE_QUOTAS, validated with the rest of the configuration)
+import { quotaRules } from './services/usage';
+console.log('[usage] quota rules', { count: quotaRules().length });
+
+// Background jobs for transcription and finalize
+import { registerDefaultJobHandlers, startJobWorker } from './services/jobs';
+registerDefaultJobHandlers();
+startJobWorker().catch(err => console.error('[jobs] worker failed to start', err));
+
+// Email outbox: sends queued summaries and retries failed deliveries
+import { startOutboxWorker } from './services/mail';
+startOutboxWorker().catch(err => console.error('[outbox] worker failed to start', err));
+
+// Outbound webhooks: signed event deliveries with retries
+import { startWebhookWorker } from './services/webhooks';
+startWebhookWorker().catch(err => console.error('[webhooks] worker failed to start', err));
+
+// Retention sweep for archived audio (only when AUDIO_RETENTION=true)
+import { startRecordingSweeper } from './services/recordings';
+startRecordingSweeper();
 
-app.listen(port, () => {
+// Room retention: purge rooms past their TTL and orphaned temp audio (RETENTION_SWEEP=false to disable)
+import { startRetentionSweeper } from './services/rooms';
+startRetentionSweeper();
+
+// Liveness: the process is up. Readiness (/health): config is usable and ffmpeg runs; 503 otherwise
+app.get('/health/live', (_req, res) => res.json({ ok: true, now: new Date().toISOString() }));
+app.get('/health', async (_req, res) => {
+  const result = await readiness();
+  res.status(result.ready ? 200 : 503).json({ ok: result.ready, now: new Date().toISOString(), checks: result.checks });
+});
+
+// Prometheus scrape endpoint; set METRICS_TOKEN to require `Authorization: Bearer <token>`
+app.get('/metrics', async (req, res) => {
+  const token = config().METRICS_TOKEN;
+  if (token && req.headers.authorization !== `Bearer ${token}`) return res.status(401).json({ error: 'Unauthorized' });
+  res.set('Content-Type', registry.contentType);
+  res.send(await registry.metrics());
+});
+
+const server = app.listen(port, () => {
   console.log(`[agorax_resume] listening on http://localhost:${port}`);
 });
 
+// Live captions: WebSocket audio streams share the HTTP port
+import { attachStreamingServer } from './services/streaming';
+attachStreamingServer(server);
+
 export default app;
@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { JwtClaims, looksLikeJwt, verifyJwt } from '../utils/jwt';
+import { setLogContext } from '../services/observability/logger';
+import { isValidRoomId } from '../services/store/ids';
+import { config } from '../config';
+
+export type AuthScope = 'admin';
+
+// Who is calling and what they may touch
+export interface Principal {
+  kind: 'api-key' | 'jwt';
+  // API key name or JWT subject, for logs
+  subject: string;
+  scopes: string[];
+  // rooms the caller may access; '*' means any room
+  rooms: string[];
+  // when set, the caller may only act as this participant
+  userId?: string;
+  // account billed for usage and quotas (see services/usage); defaults to the API key name
+  tenant?: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: Principal;
+    }
+  }
+}
+
+type ApiKeyEntry = ReturnType<typeof config>['AUTH_API_KEYS'][number];
+
+/**
+ * AUTH_API_KEYS is either a JSON array of { key, name?, scopes?, rooms?, userId?, tenant? } or a comma-separated
+ * list of plain keys (any room, no admin scope). AUTH_ADMIN_KEYS lists keys with the admin scope.
+ */
+function loadApiKeys(): ApiKeyEntry[] {
+  const { AUTH_API_KEYS, AUTH_ADMIN_KEYS } = config();
+  return [...AUTH_API_KEYS, ...AUTH_ADMIN_KEYS.map((key, i) => ({ key, name: `admin-${i + 1}`, scopes: ['admin'] }))];
+}
+
+const authSettings = () => ({
+  // `off` skips every check (local development only)
+  mode: config().AUTH_MODE,
+  apiKeys: loadApiKeys(),
+  jwtSecret: config().AUTH_JWT_SECRET || '',
+  jwtIssuer: config().AUTH_JWT_ISSUER,
+  jwtAudience: config().AUTH_JWT_AUDIENCE,
+});
+
+let settings: ReturnType<typeof authSettings> | null = null;
+const getSettings = () => settings || (settings = authSettings());
+
+const digest = (s: string) => crypto.createHash('sha256').update(s).digest();
+
+function matchApiKey(token: string, keys: ApiKeyEntry[]): ApiKeyEntry | null {
+  const given = digest(token);
+  // compare every key so timing does not reveal which one matched
+  let found: ApiKeyEntry | null = null;
+  for (const entry of keys) if (crypto.timingSafeEqual(given, digest(entry.key))) found = entry;
+  return found;
+}
+
+const asList = (v: unknown): string[] =>
+  Array.isArray(v) ? v.map(String) : typeof v === 'string' && v ? v.split(/[\s,]+/).filter(Boolean) : [];
+
+// Room claim: `room` (one id) or `rooms` (array); scopes: `scope` (space-separated) or `scopes` (array); tenant: `tenant` or `tid`
+function principalFromClaims(claims: JwtClaims): Principal {
+  const tenant = claims.tenant ?? claims.tid;
+  return {
+    kind: 'jwt',
+    subject: String(claims.sub || 'unknown'),
+    scopes: [...asList(claims.scope), ...asList(claims.scopes)],
+    rooms: [...asList(claims.room), ...asList(claims.rooms)],
+    userId: claims.sub ? String(claims.sub) : undefined,
+    tenant: tenant ? String(tenant) : undefined,
+  };
+}
+
+/**
+ * Principal for an API key or JWT, or null when it matches neither. Shared by the HTTP middleware and the
+ * streaming WebSocket upgrade.
+ */
+export function principalForToken(token: string, context = ''): Principal | null {
+  const { apiKeys, jwtSecret, jwtIssuer, jwtAudience } = getSettings();
+  const key = matchApiKey(token, apiKeys);
+  if (key) {
+    const subject = key.name || 'api-key';
+    return { kind: 'api-key', subject, scopes: key.scopes || [], rooms: key.rooms || ['*'], userId: key.userId, tenant: key.tenant || subject };
+  }
+
+  if (jwtSecret && looksLikeJwt(token)) {
+    try {
+      return principalFromClaims(verifyJwt(token, { secret: jwtSecret, issuer: jwtIssuer, audience: jwtAudience }));
+    } catch (e) {
+      console.warn('[auth] rejected token', { path: context, reason: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return null;
+}
+
+export const authEnabled = () => getSettings().mode !== 'off';
+
+function bearerToken(req: Request): string | null {
+  const header = String(req.headers.authorization || '');
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (match) return match[1].trim();
+  const apiKey = req.headers['x-api-key'];
+  return apiKey ? String(apiKey).trim() : null;
+}
+
+export const hasScope = (principal: Principal | undefined, scope: AuthScope) =>
+  !principal || principal.scopes.includes(scope);
+
+// No principal means auth is off, so everything is allowed
+export function canAccessRoom(principal: Principal | undefined, roomId: string) {
+  if (!principal || hasScope(principal, 'admin')) return true;
+  return principal.rooms.includes('*') || principal.rooms.includes(roomId);
+}
+
+export function canActAs(principal: Principal | undefined, userId: string | undefined) {
+  if (!principal || hasScope(principal, 'admin') || !principal.userId) return true;
+  return !userId || principal.userId === userId;
+}
+
+// What is configured, without the secrets themselves (readiness check)
+export function authSummary() {
+  const { mode, apiKeys, jwtSecret } = getSettings();
+  return { mode, apiKeys: apiKeys.length, jwt: !!jwtSecret };
+}
+
+export function logAuthConfig() {
+  const { mode, apiKeys, jwtSecret } = getSettings();
+  if (mode === 'off') {
+    console.warn('[auth] AUTH_MODE=off: audio API is open to anyone');
+  } else if (!apiKeys.length && !jwtSecret) {
+    console.warn('[auth] no AUTH_API_KEYS/AUTH_ADMIN_KEYS or AUTH_JWT_SECRET configured; every API request will be rejected');
+  } else {
+    console.log('[auth] enabled', { apiKeys: apiKeys.length, jwt: !!jwtSecret });
+  }
+}
+
+/**
+ * Resolve the caller from `Authorization: Bearer <api key or JWT>` or `X-API-Key` and store it on `req.auth`.
+ * Responds 401 when the credential is missing or invalid.
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+  if (!authEnabled()) return next();
+
+  const token = bearerToken(req);
+  if (!token) return res.status(401).json({ success: false, message: 'Missing credentials' });
+
+  const principal = principalForToken(token, req.path);
+  if (!principal) return res.status(401).json({ success: false, message: 'Invalid credentials' });
+  req.auth = principal;
+  next();
+}
+
+export function requireScope(scope: AuthScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (hasScope(req.auth, scope)) return next();
+    res.status(403).json({ success: false, message: `Requires ${scope} scope` });
+  };
+}
+
+/**
+ * Check the room (route param, then query) and participant (query, then JSON body) being accessed
+ * against the caller's room and user claims. Responds 400 for room ids the store cannot hold (see store/ids).
+ */
+export function requireRoomAccess(req: Request, res: Response, next: NextFunction) {
+  const room = String(req.params.roomId || req.query.roomId || 'global');
+  const userId = req.query.userId ?? req.body?.userId;
+  if (!isValidRoomId(room)) return res.status(400).json({ success: false, message: 'Invalid room id' });
+  if (!canAccessRoom(req.auth, room)) {
+    console.warn('[auth] room access denied', { subject: req.auth?.subject, room });
+    return res.status(403).json({ success: false, message: 'Not allowed for this room' });
+  }
+  if (!canActAs(req.auth, userId ? String(userId) : undefined)) {
+    console.warn('[auth] user mismatch', { subject: req.auth?.subject, room, userId });
+    return res.status(403).json({ success: false, message: 'Not allowed for this user' });
+  }
+  setLogContext({ roomId: room, userId: userId ? String(userId) : req.auth?.userId });
+  next();
+}
@@ -0,0 +1,32 @@
+import { CorsOptions } from 'cors';
+import { config } from '../config';
+
+// `https://*.example.com` matches any subdomain; everything else must match exactly
+function originMatcher(pattern: string) {
+  if (pattern === '*') return () => true;
+  if (!pattern.includes('*')) return (origin: string) => origin === pattern;
+  const re = new RegExp('^' + pattern.split('*').map(p => p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[^/]+') + '$');
+  return (origin: string) => re.test(origin);
+}
+
+/**
+ * CORS_ORIGINS: comma-separated allowlist of browser origins (wildcard subdomains allowed, `*` for any).
+ * When unset every origin is reflected, as before, and a warning is logged.
+ */
+export function corsOptions(): CorsOptions {
+  const patterns = config().CORS_ORIGINS;
+  if (!patterns.length) {
+    console.warn('[cors] CORS_ORIGINS not set; allowing every origin');
+    return { origin: true, credentials: true };
+  }
+  const matchers = patterns.map(originMatcher);
+  return {
+    credentials: true,
+    origin: (origin, callback) => {
+      // same-origin and non-browser requests carry no Origin header
+      if (!origin || matchers.some(m => m(origin))) return callback(null, true);
+      console.warn('[cors] origin not allowed', { origin });
+      callback(null, false);
+    },
+  };
+}
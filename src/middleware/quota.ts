@@ -0,0 +1,49 @@
+import { NextFunction, Request, Response } from 'express';
+import { checkQuota, consumeRequest, QuotaStatus, retryAfterSeconds, tenantFor, UsageMetric, UsageSubject } from '../services/usage';
+
+// Tenant from the caller's credentials; room from the route or query; user from the token, else the query or body.
+// A token bound to a participant always counts as that participant, so changing ?userId= does not reset its limits.
+export function usageSubjectFor(req: Request): UsageSubject {
+  const userId = req.auth?.userId ?? req.query.userId ?? req.body?.userId;
+  return {
+    tenant: tenantFor(req.auth),
+    roomId: String(req.params.roomId || req.query.roomId || 'global'),
+    userId: userId ? String(userId) : undefined,
+  };
+}
+
+export function rejectOverQuota(res: Response, status: QuotaStatus) {
+  res.set('Retry-After', String(retryAfterSeconds(status)));
+  return res.status(429).json({
+    success: false,
+    message: status.metric === 'requests'
+      ? `Rate limit exceeded: ${status.limit} requests per ${status.period} for ${status.scope} ${status.id}`
+      : `Quota exceeded: ${status.metric} limit of ${status.limit} per ${status.period} reached for ${status.scope} ${status.id}`,
+    quota: status,
+  });
+}
+
+/**
+ * Count the request against the `requests` rate limits and refuse it while any of `metrics` is used up
+ * for the caller's tenant, the room or the user (USAGE_QUOTAS). Responds 429 with Retry-After.
+ * Mount it before body parsers so rejected uploads are not read.
+ */
+export function enforceQuota(...metrics: UsageMetric[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const subject = usageSubjectFor(req);
+      let exceeded = consumeRequest(subject);
+      for (const metric of metrics) {
+        if (exceeded) break;
+        exceeded = await checkQuota(subject, metric);
+      }
+      if (!exceeded) return next();
+      console.warn('[usage] over quota', { ...subject, metric: exceeded.metric, scope: exceeded.scope, period: exceeded.period, limit: exceeded.limit, path: req.path });
+      rejectOverQuota(res, exceeded);
+    } catch (e) {
+      // the ledger being unreadable must not take the API down
+      console.error('[usage] quota check failed; letting the request through', e);
+      next();
+    }
+  };
+}
@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { metrics, withLogContext } from '../services/observability';
+
+// Callers may pass their own X-Request-Id (e.g. from a gateway); anything odd-looking is replaced
+const validRequestId = (v: unknown) => typeof v === 'string' && /^[\w.:\-]{1,128}$/.test(v);
+
+// probes would drown the access log
+const QUIET_PATHS = new Set(['/health', '/health/live', '/metrics']);
+
+/**
+ * Give every request an id (echoed in X-Request-Id) and run the rest of the chain inside a log context,
+ * so each line logged while handling it carries `requestId` (and `roomId` when the query names one).
+ * Records the request duration by matched route and logs one access line when the response finishes.
+ */
+export function requestTracing(req: Request, res: Response, next: NextFunction) {
+  const requestId = validRequestId(req.headers['x-request-id']) ? String(req.headers['x-request-id']) : crypto.randomUUID();
+  res.setHeader('X-Request-Id', requestId);
+  const roomId = typeof req.query.roomId === 'string' ? req.query.roomId : undefined;
+  const started = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+    // route template, not the raw path, so room ids do not explode the label set
+    const route = req.route?.path ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    metrics.httpRequestDuration.observe({ method: req.method, route, status: String(res.statusCode) }, seconds);
+    if (QUIET_PATHS.has(req.path)) return;
+    console.log('[http] request', {
+      requestId, roomId: req.params?.roomId || roomId, method: req.method, route, status: res.statusCode,
+      durationMs: Math.round(seconds * 1000), subject: req.auth?.subject,
+    });
+  });
+
+  withLogContext({ requestId, roomId }, () => next());
+}
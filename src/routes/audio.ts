@@ -2,18 +2,60 @@ import express, { Request, Response } from 'express';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import { transcribeBuffer, sendSummaryByEmail } from '../services/transcribe';
-// Optional: use OpenAI-compatible SDK for DeepSeek
-import OpenAI from 'openai';
+import crypto from 'crypto';
+import { sendSummaryByEmail } from '../services/transcribe';
+import { isProviderName } from '../services/transcription/providers';
+import { formatSegmentLine } from '../services/segments';
+import { getTranscriptStore } from '../services/store';
+import { renderTranscript, TRANSCRIPT_FORMATS, TranscriptFormat } from '../services/subtitles';
+import { ChunkPayload, meetingOffsetMs, sequenceReport } from '../services/chunks';
+import { FinalizePayload } from '../services/finalize';
+import { findTemplate, isSummarizerName, listTemplates } from '../services/summarization';
+import { isLocale, LOCALES, resolveLocale } from '../services/i18n';
+import { enqueueJob, getJob, waitForJob } from '../services/jobs';
+import { authenticate, canAccessRoom, hasScope, requireRoomAccess, requireScope } from '../middleware/auth';
+import { getAudioArchive, getRecordingManifest, recordingsEnabled } from '../services/recordings';
+import { resolveRoomParticipants } from '../services/participants';
+import { redactSegments, segmentTextFor } from '../services/redaction';
+import {
+  actorFor, closeRoom, deleteRoom, describeRoom, exportRoomFor, isRoomClosed, listRoomAudit, listRooms, openRoom,
+  recordRoomAudit, reopenRoom, RoomAuditAction, RoomLifecycleError, runRetentionSweep,
+} from '../services/rooms';
+import { ATTACHMENT_KINDS, getDelivery, listDeliveries, mailEnabled, parseAttachmentKinds, retryDelivery } from '../services/mail';
+import {
+  createSubscription, deleteSubscription, getWebhookDelivery, listSubscriptions, listWebhookDeliveries, redactSubscription,
+  retryWebhookDelivery, summarizeDelivery, WebhookDeliveryStatus, WebhookValidationError,
+} from '../services/webhooks';
+import { metrics } from '../services/observability';
+import { enforceQuota, rejectOverQuota } from '../middleware/quota';
+import { quotaStatus, releaseReservation, reserveQuota, tenantFor, USAGE_GROUP_BY, UsageGroupBy, usageReport } from '../services/usage';
+import { config } from '../config';
 
 const router = express.Router();
 
-// Accept raw audio bytes (Content-Type: audio/*). Query params: roomId, userId, email (optional)
+// API key or JWT on every route; room/user claims are checked per route below
+router.use(authenticate);
+
+// `wait=true` keeps the old synchronous contract: hold the response until the job finishes (or JOB_WAIT_TIMEOUT_MS)
+const wantsWait = (v: unknown) => ['1', 'true', 'yes'].includes(String(v || '').toLowerCase());
+const jobWaitTimeoutMs = () => config().JOB_WAIT_TIMEOUT_MS;
+
+// Accept raw audio bytes (Content-Type: audio/*) and enqueue a transcription job; responds 202 with the job id.
+// Query params: roomId, userId, email (optional), provider (optional; 400 when unknown),
+// offsetMs (optional: chunk start relative to meeting start, used to place segment timestamps), wait (optional),
+// seq (optional: 0-based chunk sequence number per user), idempotencyKey (optional; or the Idempotency-Key header).
+// A repeated seq or idempotency key for the same room/user returns the original job instead of transcribing twice.
+// The job result (and the wait=true response) reports durationMs, speechMs, skipped and skipReason (silent | no-speech).
+// 429 with Retry-After once the tenant, room or user has used up its audio quota or request rate (USAGE_QUOTAS).
+// Each accepted chunk holds USAGE_CHUNK_RESERVE_SECONDS of audio quota until its job has measured the real length.
 router.post('/transcribe-chunk',
+  requireRoomAccess,
+  enforceQuota('audioSeconds'),
   express.raw({ type: 'audio/*', limit: '15mb' }),
   async (req: Request, res: Response) => {
+    let reservation: string | null = null;
     try {
-      const { roomId, userId, email } = req.query || {};
+      const { roomId, userId, email, provider, offsetMs, wait, seq, idempotencyKey } = req.query || {};
       const buf = req.body as Buffer;
 
       console.log("[audio] received", {
@@ -23,440 +65,674 @@ router.post('/transcribe-chunk',
       });
 
       if (!buf || buf.length < 4000) {
+        metrics.chunksReceived.inc({ outcome: 'too_small' });
         return res.status(400).json({
           success: false,
           message: "Chunk too small"
         });
       }
 
+      const room = String(roomId || 'global');
+      // a token bound to one participant uploads as that participant by default
+      const owner = String(userId || req.auth?.userId || 'unknown');
+      const seqNum = seq !== undefined && /^\d+$/.test(String(seq)) ? Number(seq) : undefined;
+      if (seq !== undefined && seqNum === undefined) {
+        return res.status(400).json({ success: false, message: 'seq must be a non-negative integer' });
+      }
+      if (provider && !isProviderName(provider)) return res.status(400).json({ success: false, message: `Unknown transcription provider: ${provider}` });
+      const key = String(req.headers['idempotency-key'] || idempotencyKey || '') || undefined;
+      if (await isRoomClosed(room)) {
+        metrics.chunksReceived.inc({ outcome: 'closed' });
+        return res.status(409).json({ success: false, message: 'Room is closed' });
+      }
+      // concurrent uploads would all pass a plain check before any of them is billed
+      const hold = await reserveQuota({ tenant: tenantFor(req.auth), roomId: room, userId: owner }, 'audioSeconds', config().USAGE_CHUNK_RESERVE_SECONDS);
+      if (hold.exceeded) return rejectOverQuota(res, hold.exceeded);
+      reservation = hold.reservation;
+
+      const store = getTranscriptStore();
+      const now = new Date().toISOString();
+      const { chunk, duplicate } = await store.registerChunk({
+        id: crypto.randomUUID(),
+        roomId: room,
+        userId: owner,
+        seq: seqNum,
+        idempotencyKey: key,
+        status: 'received',
+        receivedAt: now,
+        updatedAt: now,
+      });
+      if (duplicate) {
+        releaseReservation(reservation);
+        metrics.chunksReceived.inc({ outcome: 'duplicate' });
+        console.log('[audio] duplicate chunk ignored', { room, owner, seq: seqNum, idempotencyKey: key, jobId: chunk.jobId });
+        return res.json({ success: true, duplicate: true, jobId: chunk.jobId || null, status: chunk.status, seq: chunk.seq ?? null });
+      }
+
       // Compute head hex for diagnostics
       const headHex = Array.from((buf as Buffer).slice(0, 12)).map(b => b.toString(16).padStart(2, '0')).join(' ');
       // Save chunk
-      const tmpDir = process.env.STORAGE_TEMP_PATH || path.join(process.cwd(), 'tmp');
+      const tmpDir = config().STORAGE_TEMP_PATH;
       if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true });
 
       const filename = `audio-${Date.now()}-${Math.random().toString(36).slice(2,8)}.webm`;
       const filePath = path.join(tmpDir, filename);
 
-      await fs.promises.writeFile(filePath, buf);
-
-      // Transcribe
-      const transcribeResult = await transcribeBuffer(filePath);
-      const transcription = transcribeResult?.transcript || '';
-
-      console.log('[audio] transcribe result', { retried: transcribeResult.retried, transcoded: transcribeResult.transcoded });
-
-      // Append transcription to per-room/user transcript file for session aggregation
       try {
-        const transcriptsDir = path.join(tmpDir, 'transcripts');
-        if (!fs.existsSync(transcriptsDir)) fs.mkdirSync(transcriptsDir, { recursive: true });
-        const owner = String(userId || 'unknown');
-        const room = String(roomId || 'global');
-        const transcriptFile = path.join(transcriptsDir, `transcript-${room}-${owner}.txt`);
-        // Include user identification in stored transcription lines so summaries can attribute speech
-        const who = String(userId || owner || 'unknown');
-        const entry = `[${new Date().toISOString()}] ${who}: ${transcription}\n`;
-        await fs.promises.appendFile(transcriptFile, entry, 'utf8');
+        await fs.promises.writeFile(filePath, buf);
       } catch (e) {
-        console.warn('[audio] failed to append transcript', e);
-      }
-
-      let summary = null;
-
-      // Optional DeepSeek summary
-      if (process.env.DEEPSEEK_API_KEY && process.env.DEEPSEEK_BASE_URL) {
-        try {
-          const ds = await fetch(process.env.DEEPSEEK_BASE_URL + "/v1/responses", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "Authorization": `Bearer ${process.env.DEEPSEEK_API_KEY}`
-            },
-            body: JSON.stringify({
-              model: process.env.DEEPSEEK_MODEL || "deepseek-chat",
-              input: transcription
-            })
-          });
-
-          if (ds.ok) {
-            const json = await ds.json();
-            summary = json.output || json.result || JSON.stringify(json);
-          }
-        } catch (err) {
-          console.warn("DeepSeek summary failed", err);
-        }
+        // let the client retry the same key/sequence
+        await store.updateChunk(room, chunk.id, { status: 'failed' }).catch(() => {});
+        throw e;
       }
 
-      if (email && summary && process.env.RESEND_API_KEY) {
-        try {
-          await sendSummaryByEmail(
-            email as string,
-            `Resumen de la reunión ${roomId || ""}`,
-            summary.toString()
-          );
-        } catch (err) {
-          console.warn("Email failed:", err);
-        }
-      }
-
-      await fs.promises.unlink(filePath).catch(() => {});
-
-      res.json({ success: true, transcription, summary, retried: transcribeResult.retried, transcoded: transcribeResult.transcoded, headHex, size: buf.length });
+      const chunkOffsetMs = offsetMs !== undefined && Number.isFinite(Number(offsetMs)) ? Math.max(0, Number(offsetMs)) : undefined;
+      const payload: ChunkPayload = {
+        filePath,
+        chunkId: chunk.id,
+        seq: seqNum,
+        roomId: room,
+        userId: owner,
+        email: email ? String(email) : undefined,
+        provider: provider ? String(provider) : undefined,
+        offsetMs: chunkOffsetMs,
+        receivedAt: now,
+        size: buf.length,
+        headHex,
+        tenant: tenantFor(req.auth),
+        reservation: reservation || undefined,
+      };
+      const job = await enqueueJob('transcribe-chunk', payload, { roomId: payload.roomId });
+      // the job releases it once the chunk is billed, skipped or given up on
+      reservation = null;
+      await store.updateChunk(room, chunk.id, { jobId: job.id });
+      metrics.chunksReceived.inc({ outcome: 'accepted' });
+      metrics.chunkBytes.inc(buf.length);
+
+      if (!wantsWait(wait)) return res.status(202).json({ success: true, jobId: job.id, status: job.status, headHex, size: buf.length });
+
+      const done = await waitForJob(job.id, jobWaitTimeoutMs());
+      if (done?.status === 'succeeded') return res.json({ success: true, jobId: job.id, ...done.result });
+      if (done?.status === 'failed') return res.status(500).json({ success: false, jobId: job.id, message: done.error });
+      res.status(202).json({ success: true, jobId: job.id, status: done?.status || job.status, headHex, size: buf.length });
 
     } catch (err: any) {
+      releaseReservation(reservation);
       console.error("transcribe-chunk error", err);
       res.status(500).json({ success: false, message: err.message });
     }
   }
 );
 
-// Finalize: concatenate accumulated transcript for a room/user, optionally summarize with DeepSeek and email via Resend
-router.post('/finalize', express.json(), async (req: Request, res: Response) => {
+// Finalize: enqueue aggregation/summary/email of a room's transcript (see services/finalize).
+// Query params: roomId, userId (optional), email (optional), summarizer (optional),
+// template, locale (optional: override the room settings), attachments (optional: comma list or none, default MAIL_ATTACHMENTS),
+// wait (optional: respond with the result instead of a job id). 429 once the token quota is used up.
+router.post('/finalize', requireRoomAccess, enforceQuota('tokens'), express.json(), async (req: Request, res: Response) => {
   try {
-    const { roomId, userId, email } = req.query as any || {};
-    const tmpDir = process.env.STORAGE_TEMP_PATH || path.join(process.cwd(), 'tmp');
-    let transcriptsDir = path.join(tmpDir, 'transcripts');
-    const room = String(roomId || 'global');
-    console.log('[finalize] requested', { room, userId: userId || null, email: email || null });
-
-    let fullText = '';
-    // We'll search for transcripts in multiple candidate directories so we don't miss chat written by the older services
-    const candidateDirs = [
-      transcriptsDir,
-      path.join(process.cwd(), '..', 'agoraX_back', 'tmp', 'transcripts'),
-      path.join(process.cwd(), '..', 'AgoraX_resume', 'tmp', 'transcripts')
-    ];
-    let matchingFiles: string[] = [];
-    try {
-      for (const dir of candidateDirs) {
-        try {
-          if (!dir || !fs.existsSync(dir)) continue;
-          const files = await fs.promises.readdir(dir);
-          let found: string[] = [];
-          if (userId) {
-            const owner = String(userId);
-            const transcriptFileName = `transcript-${room}-${owner}.txt`;
-            if (files.includes(transcriptFileName)) found = [transcriptFileName];
-          } else {
-            found = files.filter(f => f.startsWith(`transcript-${room}-`));
-          }
-
-          if (found.length > 0) {
-            // Read and concatenate files from this dir
-            for (const f of found) {
-              try {
-                const t = await fs.promises.readFile(path.join(dir, f), 'utf8');
-                fullText += `\n--- ${f} (from ${path.basename(dir)}) ---\n` + t;
-                // store matchingFiles with their dir so we can cleanup later if needed
-                matchingFiles.push(path.join(dir, f));
-              } catch (e) {
-                console.warn('[finalize] failed reading', f, e);
-              }
-            }
-            // stop searching other dirs if we found files here (prefer first-match dir)
-            break;
-          }
-        } catch (e) {
-          // continue to next candidate dir
-          continue;
-        }
-      }
-    } catch (e) {
-      console.warn('[finalize] failed to read transcript(s)', e);
+    const { roomId, userId, email, summarizer, template, locale, attachments, wait } = req.query as any || {};
+    if (summarizer && !isSummarizerName(summarizer)) return res.status(400).json({ success: false, message: `Unknown summarizer: ${summarizer}` });
+    if (template && !findTemplate(template)) return res.status(400).json({ success: false, message: `Unknown template: ${template}` });
+    if (locale && !isLocale(locale)) return res.status(400).json({ success: false, message: `locale must be one of ${LOCALES.join(', ')}` });
+    const attachmentKinds = attachments !== undefined ? parseAttachmentKinds(attachments) : null;
+    if (attachmentKinds?.unknown.length) {
+      return res.status(400).json({ success: false, message: `attachments must be none or a list of ${ATTACHMENT_KINDS.join(', ')}` });
     }
-
-    const filesCount = matchingFiles.length;
-    const totalChars = fullText.length;
-    if (filesCount === 0) {
-      console.log('[finalize] no transcripts found for room', room);
-    } else {
-      console.log('[finalize] aggregating transcripts', { room, filesCount, totalChars });
+    const payload: FinalizePayload = {
+      summarizer: summarizer ? String(summarizer) : undefined,
+      template: template ? String(template) : undefined,
+      locale: locale ? String(locale) : undefined,
+      roomId: roomId ? String(roomId) : undefined,
+      userId: userId ? String(userId) : undefined,
+      email: email ? String(email) : undefined,
+      attachments: attachmentKinds?.kinds,
+      tenant: tenantFor(req.auth),
+    };
+    const job = await enqueueJob('finalize', payload, { roomId: String(roomId || 'global') });
+    // with audio retention on, build the room recording as well (RECORDING_ASSEMBLE_ON_FINALIZE=false to skip)
+    if (recordingsEnabled() && config().RECORDING_ASSEMBLE_ON_FINALIZE) {
+      await enqueueJob('assemble-recording', { roomId: String(roomId || 'global') }, { roomId: String(roomId || 'global') })
+        .catch(e => console.warn('[recordings] failed to enqueue assembly', e));
     }
 
-    let summary: string | null = null;
-    let deepseekStatus: number | null = null;
-    // Preprocess transcript: normalize chat lines, extract participants, and mark unknown speakers
-    let normalizedTranscript = fullText;
-    let detectedParticipants: string[] = [];
-    try {
-      const rawLines = fullText.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
-      const participantsSet = new Set<string>();
-      const nameRegex = /^(?:\(chat\)\s*)?([\w\-\.\s]{1,60})\s*[:：-]\s*(.+)$/i;
-      const normLines = rawLines.map(line => {
-        // skip transcript file headers like '--- filename ---'
-        if (/^---\s*transcript-/.test(line)) return line;
-        const m = line.match(nameRegex);
-        if (m) {
-          const name = m[1].trim();
-          const msg = m[2].trim();
-          participantsSet.add(name);
-          return `${name}: ${msg}`;
-        }
-        // if line already contains '(chat)' pattern with name later, try looser match
-        const chatLoose = line.match(/\(chat\)\s*([\w\-\.\s]{1,60})\s*[:：-]\s*(.+)$/i);
-        if (chatLoose) {
-          const name = chatLoose[1].trim();
-          const msg = chatLoose[2].trim();
-          participantsSet.add(name);
-          return `${name}: ${msg}`;
-        }
-        // If line looks like just a message, mark unknown
-        return `[Desconocido]: ${line}`;
-      });
-      normalizedTranscript = normLines.join('\n');
-      detectedParticipants = Array.from(participantsSet);
-    } catch (e) {
-      console.warn('[finalize] transcript preprocessing failed', e);
-      normalizedTranscript = fullText;
-      detectedParticipants = [];
+    if (!wantsWait(wait)) return res.status(202).json({ success: true, jobId: job.id, status: job.status });
+
+    const done = await waitForJob(job.id, jobWaitTimeoutMs());
+    if (done?.status === 'succeeded') return res.json({ success: true, jobId: job.id, ...done.result });
+    if (done?.status === 'failed') return res.status(500).json({ success: false, jobId: job.id, message: done.error });
+    res.status(202).json({ success: true, jobId: job.id, status: done?.status || job.status });
+  } catch (err: any) {
+    console.error('finalize error', err);
+    res.status(500).json({ success: false, message: err.message });
+  }
+});
+
+// Job status: queued/running/succeeded/failed plus result or last error
+router.get('/jobs/:id', async (req: Request, res: Response) => {
+  try {
+    const job = await getJob(String(req.params.id));
+    // jobs of other rooms look missing rather than forbidden
+    if (!job || !canAccessRoom(req.auth, job.roomId || 'global')) return res.status(404).json({ success: false, message: 'Job not found' });
+    const { payload, ...rest } = job;
+    res.json({ success: true, job: rest });
+  } catch (err: any) {
+    res.status(500).json({ success: false, message: err.message });
+  }
+});
+
+// Diagnostics: list participants stored for a room and return a short preview of each one's transcript
+router.get('/diagnostics', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const { roomId } = req.query as any || {};
+    const room = String(roomId || 'global');
+    const store = getTranscriptStore();
+
+    const [roomRecord, participants, segments, chunks] = await Promise.all([
+      store.getRoom(room),
+      store.listParticipants(room),
+      store.listSegments(room),
+      store.listChunks(room),
+    ]);
+
+    const results = participants.map(p => {
+      const own = segments.filter(s => s.userId === p.userId);
+      const preview = own.slice(0, 8).map(formatSegmentLine).join('\n').slice(0, 2000);
+      return { userId: p.userId, email: p.email || null, joinedAt: p.joinedAt, lastSeenAt: p.lastSeenAt, segments: own.length, preview };
+    });
+
+    // received/pending/failed/missing chunk sequence numbers per participant
+    const sequences = sequenceReport(chunks);
+
+    res.json({ success: true, room, backend: store.backend, roomRecord, results, sequences });
+  } catch (err: any) {
+    res.status(500).json({ success: false, message: err.message });
+  }
+});
+
+// Export a room's aggregated transcript as SRT, WebVTT, plain text or JSON cues (speaker, start, end, text)
+// Query params: format (srt|vtt|txt|json, default json), download (set to get a Content-Disposition attachment),
+// locale (optional: language of the txt annotations; defaults to the room setting)
+router.get('/rooms/:roomId/transcript', requireRoomAccess, async (req: Request, res: Response) => {
+  try {
+    const room = String(req.params.roomId || 'global');
+    const format = String(req.query.format || 'json').toLowerCase() as TranscriptFormat;
+    if (!TRANSCRIPT_FORMATS.includes(format)) {
+      return res.status(400).json({ success: false, message: `format must be one of ${TRANSCRIPT_FORMATS.join(', ')}` });
     }
 
-    if (process.env.DEEPSEEK_API_KEY && process.env.DEEPSEEK_BASE_URL && normalizedTranscript && normalizedTranscript.trim().length > 0) {
-      // Prefer using the official OpenAI JS SDK (compatible with DeepSeek) if available.
-      try {
-        console.log('[finalize] calling DeepSeek via OpenAI SDK', { model: process.env.DEEPSEEK_MODEL || 'deepseek-chat', charCount: fullText.length, filesCount });
-        const client = new OpenAI({ apiKey: process.env.DEEPSEEK_API_KEY, baseURL: process.env.DEEPSEEK_BASE_URL });
-
-        try {
-          // Use chat completions API as shown in DeepSeek docs
-          // Build a structured Spanish prompt requesting the exact summary format
-          const systemPrompt = `Eres un asistente que genera resúmenes ejecutivos en español para reuniones académicas y de equipo. ` +
-            `Trata la entrada como una TRANSCRIPCIÓN literal de audio/chat. No inventes participantes ni atribuyas declaraciones a personas que no aparecen nombradas en la transcripción. ` +
-            `Si una intervención no tiene un nombre claro, indícalo con "[Desconocido]". Devuelve SOLO el resumen estructurado en texto (puedes usar Markdown simple) con las secciones solicitadas; NO incluyas ninguna frase que haga referencia a "Enviar por correo" o instrucciones de envío. ` +
-            `Siempre responde en español; evita opiniones o cualquier contenido no presente en la transcripción.`;
-
-          const participantsText = detectedParticipants.length ? detectedParticipants.join(', ') : 'Ninguno identificado';
-
-          const userPrompt = `Participantes detectados: ${participantsText}\n\n` +
-            `Transcripción de la sesión:\n\n${normalizedTranscript}\n\n` +
-            `Notas sobre formato:\n` +
-            `- La transcripción puede contener timestamps y entradas de chat en formato "(chat) Nombre: mensaje".\n` +
-            `- No inventes nombres ni atribuciones; si no se puede identificar, usa "[Desconocido]".\n` +
-            `- Mantén la salida en las siguientes secciones exactas (en este orden):\n` +
-            `  1) Participantes — lista los nombres/identificadores que aparezcan.\n` +
-            `  2) Resumen del chat — sintetiza las ideas principales, anteponiendo el nombre cuando esté disponible (ej.: "Michael: ..."). Usa "[Desconocido]:" cuando no haya nombre.\n` +
-            `  3) Tareas/Compromisos — una lista de viñetas con acciones concretas y responsables si se identifican.\n` +
-            `- No agregues introducciones generales ni conclusiones del tipo "Se envía este resumen...".\n` +
-            `- Usa un tono profesional y claro; mantén la longitud razonable.`;
-
-          const completion: any = await (client as any).chat.completions.create({
-            model: process.env.DEEPSEEK_MODEL || 'deepseek-chat',
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userPrompt }
-            ],
-            max_tokens: 1200
-          });
-
-          // SDK may return choices with message content
-          const choice = completion?.choices && completion.choices[0];
-          const content = choice?.message?.content || choice?.text || completion?.output || null;
-          if (content) {
-            summary = typeof content === 'string' ? content : JSON.stringify(content);
-            deepseekStatus = 200;
-          } else {
-            console.warn('[finalize] DeepSeek SDK returned unexpected shape', { completion });
-            // fallback to extractive
-            const lines = fullText.split('\n').map(s => s.trim()).filter(Boolean);
-            summary = `[Fallback summary due to DeepSeek unexpected shape]\n` + lines.slice(0, 8).join(' ').slice(0, 2000);
-          }
-        } catch (sdkErr: any) {
-          console.warn('[finalize] DeepSeek SDK call failed', sdkErr && sdkErr.stack ? sdkErr.stack : sdkErr);
-          // If SDK call failed (404 or other), try the raw HTTP endpoint as a secondary attempt
-          try {
-            const ds = await fetch(process.env.DEEPSEEK_BASE_URL.replace(/\/+$/,'') + '/v1/responses', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`
-              },
-              body: JSON.stringify({ model: process.env.DEEPSEEK_MODEL || 'deepseek-chat', input: fullText })
-            });
-            deepseekStatus = ds.status;
-            const bodyText = await ds.text();
-            if (ds.ok) {
-              let parsed: any = null;
-              try { parsed = JSON.parse(bodyText); } catch (e) { parsed = bodyText; }
-              summary = parsed?.output || parsed?.result || (typeof parsed === 'string' ? parsed : JSON.stringify(parsed));
-            } else {
-              console.warn('[finalize] DeepSeek returned non-ok (raw HTTP)', { status: ds.status, body: bodyText?.slice?.(0,2000) });
-              const lines = fullText.split('\n').map(s => s.trim()).filter(Boolean);
-              const fallback = lines.slice(0, 8).join(' ');
-              summary = `[Fallback summary due to DeepSeek error (status ${ds.status})]\n` + fallback.slice(0, 2000);
-            }
-          } catch (e2) {
-            const e2Msg = e2 instanceof Error ? e2.stack : String(e2);
-            console.warn('[finalize] DeepSeek raw HTTP fallback failed', e2Msg);
-            const lines = fullText.split('\n').map(s => s.trim()).filter(Boolean);
-            summary = `[Fallback summary due to DeepSeek exception]\n` + lines.slice(0, 8).join(' ').slice(0, 2000);
-          }
-        }
-
-      } catch (e: any) {
-        console.warn('[finalize] DeepSeek overall call failed', e && e.stack ? e.stack : e);
-        const lines = fullText.split('\n').map(s => s.trim()).filter(Boolean);
-        summary = `[Fallback summary due to DeepSeek exception]\n` + lines.slice(0, 8).join(' ').slice(0, 2000);
-      }
+    const store = getTranscriptStore();
+    // under keep-for-owner, each caller gets their own lines unredacted
+    const segments = (await store.listSegments(room)).map(({ originalText, ...s }) => ({ ...s, text: segmentTextFor({ ...s, originalText }, req.auth?.userId) }));
+    if (!segments.length) return res.status(404).json({ success: false, message: 'No transcript found for room' });
+
+    const [roomRecord, directory] = await Promise.all([store.getRoom(room), resolveRoomParticipants(room)]);
+    const { contentType, body } = renderTranscript(segments, format, resolveLocale(req.query.locale, roomRecord?.settings?.locale), directory.speakerName);
+    res.setHeader('Content-Type', contentType);
+    if (req.query.download) res.setHeader('Content-Disposition', `attachment; filename="transcript-${encodeURIComponent(room)}.${format}"`);
+    res.send(body);
+  } catch (err: any) {
+    console.error('[transcript] export error', err);
+    res.status(500).json({ success: false, message: err.message });
+  }
+});
+
+// Attendees of a room as merged from the participant directories (PARTICIPANT_RESOLVERS) and the store;
+// `verified` entries come from a directory and are the only ones that receive summaries
+router.get('/rooms/:roomId/participants', requireRoomAccess, async (req: Request, res: Response) => {
+  try {
+    const room = String(req.params.roomId || 'global');
+    const { participants, recipients } = await resolveRoomParticipants(room);
+    res.json({ success: true, room, participants, recipients });
+  } catch (err: any) {
+    console.error('[participants] lookup error', err);
+    res.status(500).json({ success: false, message: err.message });
+  }
+});
+
+// Per-recipient delivery status of the emails sent for a room (pending/sending/sent/failed, attempts, last error)
+router.get('/rooms/:roomId/deliveries', requireRoomAccess, async (req: Request, res: Response) => {
+  try {
+    const room = String(req.params.roomId || 'global');
+    const deliveries = await listDeliveries({ roomId: room });
+    res.json({ success: true, room, deliveries });
+  } catch (err: any) {
+    res.status(500).json({ success: false, message: err.message });
+  }
+});
+
+// Outbox across rooms, optionally filtered by status (e.g. ?status=failed)
+router.get('/deliveries', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status ? String(req.query.status) : undefined;
+    if (status && !['pending', 'sending', 'sent', 'failed'].includes(status)) {
+      return res.status(400).json({ success: false, message: 'status must be one of pending, sending, sent, failed' });
     }
+    const deliveries = await listDeliveries({ status: status as any });
+    res.json({ success: true, deliveries });
+  } catch (err: any) {
+    res.status(500).json({ success: false, message: err.message });
+  }
+});
 
-    // Optionally email: if `email` query provided, send to that address.
-    if (email && summary && process.env.RESEND_API_KEY) {
-      try {
-        console.log('[finalize] attempting to send summary to explicit email', { to: email, room });
-        await sendSummaryByEmail(email as string, `Resumen reunión ${room || ''}`, summary);
-        console.log('[finalize] sendSummaryByEmail succeeded for explicit email', { to: email, room });
-        // Delete transcript files after successful send
-        for (const fPath of matchingFiles) {
-          try { await fs.promises.unlink(fPath); } catch (e) { /* ignore */ }
-        }
-      } catch (e) {
-        const errMsg = e instanceof Error ? e.stack : String(e);
-        console.warn('[finalize] sendSummaryByEmail failed for explicit email', { to: email, err: errMsg });
-      }
-    } else if (!email && summary && process.env.RESEND_API_KEY) {
-      // No explicit email provided: try to fetch meeting participants from backend and email them
-      try {
-        const backend = process.env.BACKEND_BASE || '';
-        if (backend) {
-          const url = `${backend.replace(/\/+$/,'')}/api/meetings/${encodeURIComponent(room)}`;
-          const resp = await fetch(url, { method: 'GET' as any });
-          if (resp.ok) {
-            const body = await resp.json();
-            const participants: string[] = (body?.meeting?.participantsEmails) || [];
-            if (participants && participants.length) {
-              let allSent = true;
-              for (const addr of participants) {
-                try {
-                  console.log('[finalize] attempting to send summary to participant', { to: addr, room });
-                  await sendSummaryByEmail(addr, `Resumen reunión ${room || ''}`, summary);
-                  console.log('[finalize] emailed summary to', addr);
-                } catch (e) {
-                  allSent = false;
-                  const errMsg = e instanceof Error ? e.stack : String(e);
-                  const errMsgShort = e instanceof Error ? e.message : String(e);
-                  console.warn('[finalize] failed emailing to participant', addr, errMsg);
-                }
-              }
-              // Delete transcript files only if all emails sent successfully
-              if (allSent) {
-                for (const fPath of matchingFiles) {
-                  try { await fs.promises.unlink(fPath); } catch (e) { /* ignore */ }
-                }
-              }
-            } else {
-              console.log('[finalize] no participantsEmails found on meeting');
-            }
-          } else {
-            console.warn('[finalize] failed fetching meeting participants', { status: resp.status });
-          }
-        } else {
-          console.log('[finalize] BACKEND_BASE not configured; attempting email-extraction fallback from transcript text');
-          try {
-            // Try to extract email addresses from the aggregated fullText as a last-resort fallback
-            const emailRegex = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
-            const found = (fullText || '').match(emailRegex) || [];
-            const unique = Array.from(new Set(found));
-            if (unique.length) {
-              console.log('[finalize] extracted recipient emails from transcript', { count: unique.length, recipients: unique });
-              let allSent = true;
-              for (const addr of unique) {
-                try {
-                  console.log('[finalize] attempting to send summary to extracted email', { to: addr, room });
-                  await sendSummaryByEmail(addr, `Resumen reunión ${room || ''}`, summary);
-                  console.log('[finalize] emailed summary to (extracted)', addr);
-                } catch (e) {
-                  allSent = false;
-                  const errMsg = e instanceof Error ? e.stack : String(e);
-                  console.warn('[finalize] failed emailing to extracted participant', addr, errMsg);
-                }
-              }
-              // Delete transcript files only if all emails sent successfully
-              if (allSent) {
-                for (const fPath of matchingFiles) {
-                  try { await fs.promises.unlink(fPath); } catch (e) { /* ignore */ }
-                }
-              }
-            } else {
-              console.log('[finalize] no email addresses found in transcript text; skipping delivery');
-            }
-          } catch (e) {
-            const errMsg = e instanceof Error ? e.stack : String(e);
-            console.warn('[finalize] email-extraction fallback failed', errMsg);
-          }
-        }
-      } catch (e) {
-        console.warn('[finalize] error while attempting to email participants', e);
-      }
+// Give a failed delivery a fresh set of attempts
+router.post('/deliveries/:id/retry', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const id = String(req.params.id);
+    const delivery = await retryDelivery(id);
+    if (delivery) return res.json({ success: true, delivery });
+    const existing = await getDelivery(id);
+    if (!existing) return res.status(404).json({ success: false, message: 'Delivery not found' });
+    res.status(409).json({ success: false, message: `Delivery is ${existing.status}; only failed deliveries can be retried` });
+  } catch (err: any) {
+    res.status(500).json({ success: false, message: err.message });
+  }
+});
+
+// Webhook subscriptions. Deployment-wide ones (all rooms) are admin-only; room members manage their room's.
+// Body for POST: { url, events?: ["summary.ready", ...] or "*", secret?, description? }; the secret is only returned here.
+const webhookError = (res: Response, err: any) => err instanceof WebhookValidationError
+  ? res.status(400).json({ success: false, message: err.message })
+  : res.status(500).json({ success: false, message: err.message });
+
+router.get('/webhooks', requireScope('admin'), async (_req: Request, res: Response) => {
+  try {
+    res.json({ success: true, subscriptions: (await listSubscriptions()).map(redactSubscription) });
+  } catch (err: any) {
+    webhookError(res, err);
+  }
+});
+
+router.post('/webhooks', requireScope('admin'), express.json(), async (req: Request, res: Response) => {
+  try {
+    const { url, events, secret, description, roomId } = req.body || {};
+    const subscription = await createSubscription({ url, events, secret, description, roomId: roomId ? String(roomId) : undefined });
+    res.status(201).json({ success: true, subscription });
+  } catch (err: any) {
+    webhookError(res, err);
+  }
+});
+
+router.delete('/webhooks/:id', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    if (!(await deleteSubscription(String(req.params.id)))) return res.status(404).json({ success: false, message: 'Subscription not found' });
+    res.json({ success: true });
+  } catch (err: any) {
+    webhookError(res, err);
+  }
+});
+
+// Delivery log across subscriptions; filters: subscriptionId, status, roomId
+router.get('/webhooks/deliveries', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const { subscriptionId, status, roomId } = req.query as any;
+    const deliveries = await listWebhookDeliveries({ subscriptionId, roomId, status: status as WebhookDeliveryStatus | undefined });
+    res.json({ success: true, deliveries: deliveries.map(summarizeDelivery) });
+  } catch (err: any) {
+    webhookError(res, err);
+  }
+});
+
+router.post('/webhooks/deliveries/:id/retry', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const id = String(req.params.id);
+    const delivery = await retryWebhookDelivery(id);
+    if (delivery) return res.json({ success: true, delivery: summarizeDelivery(delivery) });
+    const existing = await getWebhookDelivery(id);
+    if (!existing) return res.status(404).json({ success: false, message: 'Delivery not found' });
+    res.status(409).json({ success: false, message: `Delivery is ${existing.status}; only failed deliveries can be retried` });
+  } catch (err: any) {
+    webhookError(res, err);
+  }
+});
+
+router.get('/rooms/:roomId/webhooks', requireRoomAccess, async (req: Request, res: Response) => {
+  try {
+    const room = String(req.params.roomId);
+    res.json({ success: true, room, subscriptions: (await listSubscriptions({ roomId: room })).map(redactSubscription) });
+  } catch (err: any) {
+    webhookError(res, err);
+  }
+});
+
+router.post('/rooms/:roomId/webhooks', requireRoomAccess, express.json(), async (req: Request, res: Response) => {
+  try {
+    const { url, events, secret, description } = req.body || {};
+    const subscription = await createSubscription({ url, events, secret, description, roomId: String(req.params.roomId) });
+    res.status(201).json({ success: true, subscription });
+  } catch (err: any) {
+    webhookError(res, err);
+  }
+});
+
+router.delete('/rooms/:roomId/webhooks/:id', requireRoomAccess, async (req: Request, res: Response) => {
+  try {
+    if (!(await deleteSubscription(String(req.params.id), String(req.params.roomId)))) return res.status(404).json({ success: false, message: 'Subscription not found' });
+    res.json({ success: true });
+  } catch (err: any) {
+    webhookError(res, err);
+  }
+});
+
+// Webhook deliveries of a room's events (status, attempts, last HTTP status and error)
+router.get('/rooms/:roomId/webhook-deliveries', requireRoomAccess, async (req: Request, res: Response) => {
+  try {
+    const room = String(req.params.roomId);
+    // only the room's own subscriptions; deployment-wide receivers stay private to admins
+    const own = new Set((await listSubscriptions({ roomId: room })).map(s => s.id));
+    const deliveries = (await listWebhookDeliveries({ roomId: room })).filter(d => own.has(d.subscriptionId));
+    res.json({ success: true, room, deliveries: deliveries.map(summarizeDelivery) });
+  } catch (err: any) {
+    webhookError(res, err);
+  }
+});
+
+// Recordings kept for a room (AUDIO_RETENTION=true): archived chunk count plus per-participant and mixed recordings
+router.get('/rooms/:roomId/recordings', requireRoomAccess, async (req: Request, res: Response) => {
+  try {
+    const room = String(req.params.roomId || 'global');
+    const manifest = await getRecordingManifest(room);
+    if (!manifest) return res.status(404).json({ success: false, message: 'No recordings for room' });
+    const recordings = manifest.recordings.map(({ key, ...r }) => ({ ...r, url: `${req.baseUrl}/rooms/${encodeURIComponent(room)}/recordings/${encodeURIComponent(r.name)}` }));
+    res.json({ success: true, room, chunks: manifest.chunks.length, updatedAt: manifest.updatedAt, recordings });
+  } catch (err: any) {
+    res.status(500).json({ success: false, message: err.message });
+  }
+});
+
+// (Re)build the per-participant and mixed recordings from the archived chunks. Query: wait (optional)
+router.post('/rooms/:roomId/recordings', requireRoomAccess, async (req: Request, res: Response) => {
+  try {
+    const room = String(req.params.roomId || 'global');
+    if (!recordingsEnabled()) return res.status(400).json({ success: false, message: 'Audio retention is disabled (AUDIO_RETENTION)' });
+    const job = await enqueueJob('assemble-recording', { roomId: room }, { roomId: room });
+    if (!wantsWait(req.query.wait)) return res.status(202).json({ success: true, jobId: job.id, status: job.status });
+
+    const done = await waitForJob(job.id, jobWaitTimeoutMs());
+    if (done?.status === 'succeeded') return res.json({ success: true, jobId: job.id, ...done.result });
+    if (done?.status === 'failed') return res.status(500).json({ success: false, jobId: job.id, message: done.error });
+    res.status(202).json({ success: true, jobId: job.id, status: done?.status || job.status });
+  } catch (err: any) {
+    res.status(500).json({ success: false, message: err.message });
+  }
+});
+
+// Download a recording (`room` for the mixdown, or a participant's user id); supports Range requests for seeking
+router.get('/rooms/:roomId/recordings/:name', requireRoomAccess, async (req: Request, res: Response) => {
+  try {
+    const room = String(req.params.roomId || 'global');
+    const manifest = await getRecordingManifest(room);
+    const recording = manifest?.recordings.find(r => r.name === req.params.name);
+    if (!recording) return res.status(404).json({ success: false, message: 'Recording not found' });
+
+    const archive = getAudioArchive();
+    const object = await archive.stat(recording.key);
+    if (!object) return res.status(404).json({ success: false, message: 'Recording not found' });
+
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Content-Type', 'audio/ogg');
+    if (req.query.download) res.setHeader('Content-Disposition', `attachment; filename="recording-${encodeURIComponent(room)}-${encodeURIComponent(recording.name)}.ogg"`);
+
+    const range = parseRange(req.headers.range, object.size);
+    if (range === 'invalid') {
+      res.setHeader('Content-Range', `bytes */${object.size}`);
+      return res.status(416).end();
+    }
+    if (range) {
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${object.size}`);
+      res.setHeader('Content-Length', String(range.end - range.start + 1));
+    } else {
+      res.setHeader('Content-Length', String(object.size));
     }
+    const stream = await archive.read(recording.key, range || undefined);
+    stream.on('error', (e) => { console.warn('[recordings] download stream error', e.message); res.destroy(e); });
+    stream.pipe(res);
+  } catch (err: any) {
+    console.error('[recordings] download error', err);
+    if (!res.headersSent) res.status(500).json({ success: false, message: err.message });
+  }
+});
 
-    // Log the generated summary to the server console (preview + full)
-    try {
-      if (summary && summary.length > 0) {
-        console.log('[finalize] summary preview', summary.slice(0, 2000));
-        console.log('[finalize] full summary', summary);
-      } else {
-        console.log('[finalize] no summary generated');
-      }
-    } catch (e) {
-      console.warn('[finalize] failed logging summary', e);
+// Single `bytes=` range (start-end, start- or -suffix); null for no/unsupported header, 'invalid' when unsatisfiable
+function parseRange(header: string | undefined, size: number): { start: number; end: number } | null | 'invalid' {
+  const m = String(header || '').match(/^bytes=(\d*)-(\d*)$/);
+  if (!m || (!m[1] && !m[2])) return null;
+  let start: number;
+  let end: number;
+  if (!m[1]) {
+    start = Math.max(0, size - Number(m[2]));
+    end = size - 1;
+  } else {
+    start = Number(m[1]);
+    end = m[2] ? Math.min(Number(m[2]), size - 1) : size - 1;
+  }
+  return start > end || start >= size ? 'invalid' : { start, end };
+}
+
+// Room lifecycle. Rooms also come into existence with their first chunk; opening one explicitly lets the host
+// set its retention up front. Closed rooms reject audio, chat and live streams until reopened.
+const roomError = (res: Response, err: any) => err instanceof RoomLifecycleError
+  ? res.status(err.status).json({ success: false, message: err.message })
+  : res.status(500).json({ success: false, message: err.message });
+
+const isRetentionDays = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 3650;
+
+const ROOM_AUDIT_ACTIONS: RoomAuditAction[] = ['open', 'close', 'reopen', 'retention', 'export', 'delete', 'expire', 'purge'];
+
+// Rooms with their status, retention and expiry; callers only see the rooms their credentials cover. Query: status (open|closed)
+router.get('/rooms', async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status ? String(req.query.status) : undefined;
+    if (status && status !== 'open' && status !== 'closed') return res.status(400).json({ success: false, message: 'status must be open or closed' });
+    const rooms = (await listRooms({ status: status as 'open' | 'closed' | undefined })).filter(r => canAccessRoom(req.auth, r.id));
+    res.json({ success: true, rooms });
+  } catch (err: any) {
+    roomError(res, err);
+  }
+});
+
+router.get('/rooms/:roomId', requireRoomAccess, async (req: Request, res: Response) => {
+  try {
+    const room = String(req.params.roomId);
+    const store = getTranscriptStore();
+    const record = await store.getRoom(room);
+    if (!record) return res.status(404).json({ success: false, message: 'Room not found' });
+    const [participants, segments, chunks, summaries] = await Promise.all([
+      store.listParticipants(room), store.listSegments(room), store.listChunks(room), store.listSummaries(room),
+    ]);
+    res.json({
+      success: true,
+      room: describeRoom(record),
+      counts: { participants: participants.length, segments: segments.length, chunks: chunks.length, summaries: summaries.length },
+    });
+  } catch (err: any) {
+    roomError(res, err);
+  }
+});
+
+// JSON body: retentionDays (optional). 201 when the room was created, 200 when it was already open
+router.post('/rooms/:roomId/open', requireRoomAccess, express.json(), async (req: Request, res: Response) => {
+  try {
+    const { retentionDays } = req.body || {};
+    if (retentionDays !== undefined && !isRetentionDays(retentionDays)) {
+      return res.status(400).json({ success: false, message: 'retentionDays must be an integer between 0 and 3650' });
     }
+    const { room, created } = await openRoom(String(req.params.roomId), actorFor(req.auth), { retentionDays });
+    res.status(created ? 201 : 200).json({ success: true, room });
+  } catch (err: any) {
+    roomError(res, err);
+  }
+});
 
-    res.json({ success: true, fullText, summary, deepseekStatus });
+// JSON body: reason (optional, kept in the audit log)
+router.post('/rooms/:roomId/close', requireRoomAccess, express.json(), async (req: Request, res: Response) => {
+  try {
+    const room = await closeRoom(String(req.params.roomId), actorFor(req.auth), req.body?.reason ? String(req.body.reason).slice(0, 500) : undefined);
+    res.json({ success: true, room });
+  } catch (err: any) {
+    roomError(res, err);
+  }
+});
+
+router.post('/rooms/:roomId/reopen', requireRoomAccess, express.json(), async (req: Request, res: Response) => {
+  try {
+    const room = await reopenRoom(String(req.params.roomId), actorFor(req.auth), req.body?.reason ? String(req.body.reason).slice(0, 500) : undefined);
+    res.json({ success: true, room });
+  } catch (err: any) {
+    roomError(res, err);
+  }
+});
+
+// Everything stored for a room as JSON (transcript, chunks, summaries, deliveries, recording list), e.g. before deleting it.
+// Query: userId (optional: only that participant's data), download (optional: Content-Disposition attachment)
+router.get('/rooms/:roomId/export', requireRoomAccess, async (req: Request, res: Response) => {
+  try {
+    const room = String(req.params.roomId);
+    const userId = req.query.userId ? String(req.query.userId) : undefined;
+    if (!(await getTranscriptStore().getRoom(room))) return res.status(404).json({ success: false, message: 'Room not found' });
+    const bundle = await exportRoomFor(room, actorFor(req.auth), { userId, viewerUserId: req.auth?.userId });
+    if (req.query.download) res.setHeader('Content-Disposition', `attachment; filename="room-${encodeURIComponent(room)}.json"`);
+    res.json(bundle);
+  } catch (err: any) {
+    roomError(res, err);
+  }
+});
+
+// Delete a room's transcript, audio, emails, webhook log and jobs; recorded in the audit log.
+// Query: userId (optional: only that participant's data; whole rooms need the admin scope), reason (optional),
+// export (optional: include the room export in the response)
+router.delete('/rooms/:roomId', requireRoomAccess, async (req: Request, res: Response) => {
+  try {
+    const room = String(req.params.roomId);
+    const userId = req.query.userId ? String(req.query.userId) : undefined;
+    if (!userId && !hasScope(req.auth, 'admin')) return res.status(403).json({ success: false, message: 'Deleting a whole room requires admin scope' });
+    const result = await deleteRoom(room, actorFor(req.auth), {
+      userId,
+      reason: req.query.reason ? String(req.query.reason).slice(0, 500) : undefined,
+      withExport: wantsWait(req.query.export),
+      viewerUserId: req.auth?.userId,
+    });
+    res.json({ success: true, ...result });
+  } catch (err: any) {
+    roomError(res, err);
+  }
+});
+
+// Lifecycle audit log, newest first. Query: roomId, action, limit (default 500)
+router.get('/audit', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const { roomId, action, limit } = req.query as any;
+    if (action && !ROOM_AUDIT_ACTIONS.includes(action)) return res.status(400).json({ success: false, message: `action must be one of ${ROOM_AUDIT_ACTIONS.join(', ')}` });
+    const entries = await listRoomAudit({ roomId: roomId ? String(roomId) : undefined, action, limit: Number(limit) || undefined });
+    res.json({ success: true, entries });
   } catch (err: any) {
-    console.error('finalize error', err);
     res.status(500).json({ success: false, message: err.message });
   }
 });
 
-// Diagnostics: list transcript files for a room and return a short preview of each
-router.get('/diagnostics', async (req: Request, res: Response) => {
+// Run the retention sweep now (expired rooms and orphaned temp audio). Query: dryRun (optional: only report)
+router.post('/retention/sweep', requireScope('admin'), async (req: Request, res: Response) => {
   try {
-    const { roomId } = req.query as any || {};
-    const room = String(roomId || 'global');
-    const tmpDir = process.env.STORAGE_TEMP_PATH || path.join(process.cwd(), 'tmp');
-    const candidateDirs = [
-      path.join(tmpDir, 'transcripts'),
-      path.join(process.cwd(), '..', 'agoraX_back', 'tmp', 'transcripts'),
-      path.join(process.cwd(), '..', 'AgoraX_resume', 'tmp', 'transcripts')
-    ];
+    const result = await runRetentionSweep({ dryRun: wantsWait(req.query.dryRun) });
+    res.json({ success: true, ...result });
+  } catch (err: any) {
+    res.status(500).json({ success: false, message: err.message });
+  }
+});
+
+// Usage from the ledger (audioSeconds, tokens, emails) and the quotas that apply to the caller.
+// Query: from, to (optional ISO dates; default this month so far), groupBy (tenant | room | user | day, default tenant),
+// tenant (admins only; everyone else sees their own tenant), roomId, userId (optional filters)
+router.get('/usage', async (req: Request, res: Response) => {
+  try {
+    const q = req.query as any;
+    const groupBy = String(q.groupBy || 'tenant') as UsageGroupBy;
+    if (!USAGE_GROUP_BY.includes(groupBy)) return res.status(400).json({ success: false, message: `groupBy must be one of ${USAGE_GROUP_BY.join(', ')}` });
+    const from = q.from !== undefined ? Date.parse(String(q.from)) : undefined;
+    const to = q.to !== undefined ? Date.parse(String(q.to)) : undefined;
+    if (Number.isNaN(from) || Number.isNaN(to)) return res.status(400).json({ success: false, message: 'from and to must be ISO dates' });
+
+    const admin = hasScope(req.auth, 'admin');
+    const tenant = admin ? (q.tenant ? String(q.tenant) : undefined) : tenantFor(req.auth);
+    const roomId = q.roomId ? String(q.roomId) : undefined;
+    if (roomId && !canAccessRoom(req.auth, roomId)) return res.status(403).json({ success: false, message: 'Not allowed for this room' });
+    // a token bound to one participant only sees its own usage
+    const userId = !admin && req.auth?.userId ? req.auth.userId : (q.userId ? String(q.userId) : undefined);
+
+    const report = await usageReport({
+      tenant, roomId, userId, from, to, groupBy,
+      include: e => canAccessRoom(req.auth, e.roomId || 'global'),
+    });
+    const quotas = tenant ? await quotaStatus({ tenant, roomId, userId }) : [];
+    res.json({ success: true, tenant: tenant || null, ...report, quotas });
+  } catch (err: any) {
+    res.status(500).json({ success: false, message: err.message });
+  }
+});
 
-    const results: Array<{ dir: string; files: Array<{ name: string; preview: string }> }> = [];
+// Summary templates available for finalize and room settings (built-in plus SUMMARY_TEMPLATES_DIR)
+router.get('/templates', (_req: Request, res: Response) => {
+  const templates = listTemplates().map(t => ({
+    name: t.name,
+    locale: t.locale || null,
+    purpose: t.purpose,
+    sections: t.sections.map(s => ({ key: s.key, title: s.title })),
+  }));
+  res.json({ success: true, templates, locales: LOCALES });
+});
 
-    for (const dir of candidateDirs) {
-      try {
-        if (!dir || !fs.existsSync(dir)) continue;
-        const files = await fs.promises.readdir(dir);
-        const matched = files.filter(f => f.startsWith(`transcript-${room}-`));
-        if (!matched.length) continue;
-        const filesData: Array<{ name: string; preview: string }> = [];
-        for (const f of matched) {
-          try {
-            const full = await fs.promises.readFile(path.join(dir, f), 'utf8');
-            const preview = full.split(/\r?\n/).slice(0, 8).join('\n').slice(0, 2000);
-            filesData.push({ name: f, preview });
-          } catch (e) {
-            const errMsg = e instanceof Error ? e.message : String(e);
-            filesData.push({ name: f, preview: `Failed to read: ${errMsg}` });
-          }
-        }
-        results.push({ dir, files: filesData });
-      } catch (e) {
-        continue;
-      }
+// Room settings: summary template and output language used by finalize and exports, and the room's retention.
+// JSON body: template (optional), locale (optional: es, en or pt),
+// retentionDays (optional: days of inactivity before the room is purged, 0 keeps it, null restores ROOM_RETENTION_DAYS)
+router.put('/rooms/:roomId/settings', requireRoomAccess, express.json(), async (req: Request, res: Response) => {
+  try {
+    const room = String(req.params.roomId || 'global');
+    const { template, locale, retentionDays } = req.body || {};
+    const found = template ? findTemplate(template) : null;
+    if (template && !found) return res.status(400).json({ success: false, message: `Unknown template: ${template}` });
+    if (locale && !isLocale(locale)) return res.status(400).json({ success: false, message: `locale must be one of ${LOCALES.join(', ')}` });
+    if (retentionDays !== undefined && retentionDays !== null && !isRetentionDays(retentionDays)) {
+      return res.status(400).json({ success: false, message: 'retentionDays must be an integer between 0 and 3650, or null' });
     }
 
-    res.json({ success: true, room, results });
+    const roomRecord = await getTranscriptStore().updateRoomSettings(room, { template: found?.name, locale: locale || undefined, retentionDays });
+    if (retentionDays !== undefined) {
+      await recordRoomAudit({ action: 'retention', roomId: room, actor: actorFor(req.auth), details: { retentionDays } });
+    }
+    res.json({ success: true, room: roomRecord });
+  } catch (err: any) {
+    console.error('[settings] update error', err);
+    res.status(500).json({ success: false, message: err.message });
+  }
+});
+
+// Add a chat message to the room timeline so finalize can interleave it with speech.
+// JSON body: userId, text, offsetMs (optional: ms since meeting start; derived from arrival time when absent)
+router.post('/rooms/:roomId/chat', express.json(), requireRoomAccess, enforceQuota(), async (req: Request, res: Response) => {
+  try {
+    const room = String(req.params.roomId || 'global');
+    const { userId, text, offsetMs } = req.body || {};
+    if (!userId || !text || !String(text).trim()) return res.status(400).json({ success: false, message: 'userId and text are required' });
+    if (await isRoomClosed(room)) return res.status(409).json({ success: false, message: 'Room is closed' });
+
+    const receivedAt = new Date().toISOString();
+    const startMs = Number.isFinite(Number(offsetMs)) && offsetMs !== null ? Math.max(0, Number(offsetMs)) : await meetingOffsetMs(room, receivedAt);
+    const [segment] = redactSegments([{ roomId: room, userId: String(userId), startMs, endMs: startMs, text: String(text).trim(), receivedAt, kind: 'chat' }]);
+    await getTranscriptStore().appendSegments(room, segment.userId, [segment]);
+    const { originalText, ...shared } = segment;
+    res.json({ success: true, segment: shared });
   } catch (err: any) {
+    console.error('[chat] append error', err);
     res.status(500).json({ success: false, message: err.message });
   }
 });
 
-// Test email endpoint: send a test meeting summary/email to verify Resend configuration
-router.post('/test-email', express.json(), async (req: Request, res: Response) => {
+// Test email endpoint: send a test meeting summary right away through the configured mailer (MAIL_BACKEND)
+router.post('/test-email', requireScope('admin'), express.json(), async (req: Request, res: Response) => {
   try {
     const { to, subject, body, participants } = req.body || {};
     if (!to) return res.status(400).json({ success: false, message: 'to is required' });
-    if (!process.env.RESEND_API_KEY) return res.status(500).json({ success: false, message: 'RESEND_API_KEY not configured' });
+    if (!mailEnabled()) return res.status(500).json({ success: false, message: 'No mailer configured (MAIL_BACKEND, RESEND_API_KEY or SMTP_HOST)' });
 
     try {
       await sendSummaryByEmail(String(to), String(subject || 'Prueba de AgoraX: correo de resumen'), String(body || 'Este es un correo de prueba desde AgoraX_resume.'), Array.isArray(participants) ? participants : undefined);
@@ -0,0 +1,14 @@
+import express from 'express';
+import { authenticate, requireScope } from '../middleware/auth';
+import { describeConfig } from '../config';
+
+const router = express.Router();
+
+router.use(authenticate, requireScope('admin'));
+
+// Effective settings and where each came from (default, file or env); secrets only show whether they are set
+router.get('/', (_req, res) => {
+  res.json({ success: true, ...describeConfig() });
+});
+
+export default router;
@@ -0,0 +1,247 @@
+import fs from 'fs';
+import { transcribeBuffer } from './transcribe';
+import { mailEnabled, queueEmails } from './mail';
+import { emitWebhookEvent } from './webhooks';
+import { redactSegments, redactText } from './redaction';
+import { renderMeetingSummaryEmail } from '../utils/mailer';
+import { MeetingSegment, toMeetingSegments } from './segments';
+import { ChunkRecord, getTranscriptStore } from './store';
+import { preprocessChunk, SkipReason } from './preprocess';
+import { archiveChunk, recordingsEnabled } from './recordings';
+import { metrics } from './observability';
+import { checkQuota, DEFAULT_TENANT, recordUsage, releaseReservation, UsageSubject, withUsageSubject } from './usage';
+import { probeAudio } from './media/ffmpeg';
+import { buildTimeline } from './timeline';
+import { Locale, resolveLocale, t } from './i18n';
+import { getSummarizer, resolveTemplate } from './summarization';
+import { roomConfig } from '../config';
+
+export interface ChunkPayload {
+  // audio saved under STORAGE_TEMP_PATH by the upload route
+  filePath: string;
+  // ChunkRecord id in the transcript store
+  chunkId: string;
+  seq?: number;
+  roomId: string;
+  userId: string;
+  email?: string;
+  provider?: string;
+  // client-supplied chunk start; derived from arrival time when absent
+  offsetMs?: number;
+  receivedAt: string;
+  size: number;
+  headHex: string;
+  // billed for the audio seconds and tokens (see services/usage)
+  tenant?: string;
+  // audio quota held by the upload (reserveQuota) until the chunk is billed, skipped or discarded
+  reservation?: string;
+}
+
+export interface ChunkResult {
+  transcription: string;
+  segments: MeetingSegment[];
+  summary: string | null;
+  // null when the chunk was skipped before transcription
+  provider: string | null;
+  // audio length and detected speech (null when preprocessing is off or failed)
+  durationMs: number | null;
+  speechMs: number | null;
+  skipped: boolean;
+  skipReason: SkipReason | null;
+  retried: boolean;
+  transcoded: boolean;
+  headHex: string;
+  size: number;
+}
+
+/**
+ * Approximate meeting-relative time for clients that send no offset: milliseconds between
+ * the first chunk (or room creation) and `at`. Keeps such participants on the shared timeline.
+ */
+export async function meetingOffsetMs(roomId: string, at: string): Promise<number> {
+  const store = getTranscriptStore();
+  const [room, chunks] = await Promise.all([store.getRoom(roomId), store.listChunks(roomId)]);
+  const starts = chunks.map(c => Date.parse(c.receivedAt));
+  if (room) starts.push(Date.parse(room.createdAt));
+  const origin = Math.min(...starts.filter(n => !Number.isNaN(n)));
+  return Number.isFinite(origin) ? Math.max(0, Date.parse(at) - origin) : 0;
+}
+
+// Keep the chunk in the recording archive when AUDIO_RETENTION is on, otherwise delete it; never throws
+async function releaseChunkAudio(payload: ChunkPayload, offsetMs: number) {
+  if (!recordingsEnabled()) return fs.promises.unlink(payload.filePath).catch(() => {});
+  const { filePath, chunkId, roomId, userId, seq, receivedAt } = payload;
+  await archiveChunk({ filePath, chunkId, roomId, userId, seq, receivedAt, offsetMs });
+}
+
+/**
+ * Summary of a single chunk through the room's summarizer (SUMMARIZER_PROVIDER) with the locale it was written in,
+ * or null. Only LLM summarizers are used: the extractive fallback adds nothing over one chunk's text. Failures are logged.
+ */
+async function summarizeChunk(roomId: string, segments: MeetingSegment[], usage: UsageSubject): Promise<{ summary: string; locale: Locale } | null> {
+  const settings = roomConfig(roomId);
+  const summarizer = getSummarizer(settings.SUMMARIZER_PROVIDER);
+  if (summarizer.name === 'extractive' || !summarizer.isConfigured() || !segments.length) return null;
+  try {
+    const room = await getTranscriptStore().getRoom(roomId);
+    const template = resolveTemplate(room?.settings?.template, settings.SUMMARY_TEMPLATE);
+    const locale = resolveLocale(room?.settings?.locale, template.locale, settings.DEFAULT_LOCALE);
+    const result = await withUsageSubject(usage, () => summarizer.summarize(buildTimeline(segments), { template, locale }));
+    return result?.summary ? { summary: redactText(result.summary).text, locale } : null;
+  } catch (e) {
+    console.warn('[audio] chunk summary failed', { roomId, summarizer: summarizer.name }, e);
+    return null;
+  }
+}
+
+/**
+ * Transcribe one uploaded chunk, store its segments and optionally summarize/email it.
+ * The audio file is removed (or archived, see services/recordings) once the transcript has been stored.
+ */
+export async function processChunk(payload: ChunkPayload): Promise<ChunkResult> {
+  const { filePath, chunkId, seq, roomId, userId, email, provider } = payload;
+  const usage: UsageSubject = { tenant: payload.tenant || DEFAULT_TENANT, roomId, userId };
+  const store = getTranscriptStore();
+  const chunkOffsetMs = payload.offsetMs ?? await meetingOffsetMs(roomId, payload.receivedAt);
+
+  // an earlier attempt stored this chunk and then failed: do not transcribe, append or bill it again
+  const registered = (await store.listChunks(roomId, userId)).find(c => c.id === chunkId);
+  if (registered?.status === 'transcribed') {
+    const stored = seq !== undefined ? (await store.listSegments(roomId, userId)).filter(s => s.seq === seq) : [];
+    console.log('[audio] chunk already transcribed; not repeating it', { roomId, chunkId, seq });
+    releaseReservation(payload.reservation);
+    await releaseChunkAudio(payload, chunkOffsetMs);
+    return {
+      transcription: stored.map(s => s.text).join(' ').trim(), segments: stored.map(({ originalText, ...s }) => s), summary: null, provider: null,
+      durationMs: null, speechMs: null, skipped: false, skipReason: null, retried: false, transcoded: false, headHex: payload.headHex, size: payload.size,
+    };
+  }
+
+  // Silence detection, trimming and loudness normalization; silent chunks never reach the provider
+  const prep = await preprocessChunk(filePath);
+  const audioInfo = { durationMs: prep.durationMs, speechMs: prep.speechMs, skipped: prep.skipped, skipReason: prep.skipReason || null };
+  if (prep.skipped) {
+    metrics.chunksProcessed.inc({ outcome: 'skipped' });
+    releaseReservation(payload.reservation);
+    await store.updateChunk(roomId, chunkId, { status: 'skipped' }).catch(e => console.warn('[audio] failed to mark chunk skipped', e));
+    await releaseChunkAudio(payload, chunkOffsetMs);
+    return { transcription: '', segments: [], summary: null, provider: null, ...audioInfo, retried: false, transcoded: false, headHex: payload.headHex, size: payload.size };
+  }
+  const offsetMs = chunkOffsetMs + prep.trimmedStartMs;
+
+  // Transcribe
+  const roomSettings = roomConfig(roomId);
+  const transcribeResult = await transcribeBuffer(prep.filePath, { provider: provider || roomSettings.TRANSCRIPTION_PROVIDER, timestamps: roomSettings.TRANSCRIBE_TIMESTAMPS })
+    .finally(() => Promise.all(prep.tempFiles.map(f => fs.promises.unlink(f).catch(() => {}))));
+  // personal data is masked here, before anything is stored, summarized or sent on (REDACTION_MODE)
+  const rawTranscription = transcribeResult?.transcript || '';
+  const transcription = redactText(rawTranscription).text;
+
+  console.log('[audio] transcribe result', { provider: transcribeResult.provider, retried: transcribeResult.retried, transcoded: transcribeResult.transcoded });
+  metrics.chunksProcessed.inc({ outcome: 'transcribed' });
+  // bill what the provider received (probe when preprocessing could not measure it), once the transcript is stored
+  const sentMs = prep.sentMs ?? await probeAudio(prep.filePath).then(p => p.durationMs).catch(() => null);
+  if (transcribeResult.retried) metrics.chunkRetries.inc();
+  if (transcribeResult.transcoded || prep.tempFiles.length > 0) metrics.chunksTranscoded.inc();
+
+  const segments = redactSegments(toMeetingSegments(roomId, userId, offsetMs, rawTranscription, transcribeResult.segments, payload.receivedAt)
+    .map(s => ({ ...s, seq })));
+  const shared = segments.map(({ originalText, ...s }) => s);
+
+  // Store segments per room/user for session aggregation; the user id attributes speech in summaries.
+  // A store failure fails the job so the chunk is transcribed again instead of its transcript being lost.
+  try {
+    await store.appendSegments(roomId, userId, segments, { email });
+    await store.updateChunk(roomId, chunkId, { status: 'transcribed' });
+  } catch (e) {
+    console.error('[audio] failed to append transcript', { roomId, chunkId }, e);
+    throw e;
+  }
+  releaseReservation(payload.reservation);
+  if (sentMs !== null) await recordUsage('audioSeconds', sentMs / 1000, usage);
+  else console.warn('[usage] chunk duration unknown; audio not metered', { roomId, chunkId });
+  await emitWebhookEvent('chunk.transcribed', roomId, {
+    chunkId, userId, seq: seq ?? null, offsetMs, provider: transcribeResult.provider, text: transcription,
+    segments: shared.map(s => ({ startMs: s.startMs, endMs: s.endMs, text: s.text })),
+  });
+
+  const chunkSummary = await summarizeChunk(roomId, shared, usage);
+  const summary = chunkSummary?.summary ?? null;
+
+  const emailQuota = email && summary && mailEnabled() ? await checkQuota(usage, 'emails', 1).catch(() => null) : null;
+  if (emailQuota) console.warn('[usage] email quota used up; chunk summary not emailed', { roomId, scope: emailQuota.scope, period: emailQuota.period });
+  else if (email && chunkSummary && mailEnabled()) {
+    try {
+      await queueEmails([{
+        to: email,
+        subject: t(chunkSummary.locale).emailSubject(roomId),
+        ...renderMeetingSummaryEmail(chunkSummary.summary, undefined, chunkSummary.locale),
+      }], { purpose: 'chunk-summary', roomId });
+      await recordUsage('emails', 1, usage);
+    } catch (err) {
+      console.warn("Email failed:", err);
+    }
+  }
+
+  await releaseChunkAudio(payload, chunkOffsetMs);
+
+  return {
+    transcription,
+    segments: shared,
+    summary,
+    provider: transcribeResult.provider,
+    ...audioInfo,
+    retried: transcribeResult.retried,
+    transcoded: transcribeResult.transcoded || prep.tempFiles.length > 0,
+    headHex: payload.headHex,
+    size: payload.size,
+  };
+}
+
+// Called when the job gave up for good, so failed uploads don't pile up in tmp.
+// The chunk is marked failed, which lets the client upload it again under the same key.
+export async function discardChunk(payload: ChunkPayload) {
+  metrics.chunksProcessed.inc({ outcome: 'failed' });
+  releaseReservation(payload.reservation);
+  await fs.promises.unlink(payload.filePath).catch(() => {});
+  await getTranscriptStore().updateChunk(payload.roomId, payload.chunkId, { status: 'failed' }).catch(() => {});
+}
+
+export interface ChunkSequenceReport {
+  userId: string;
+  received: number;
+  transcribed: number;
+  // chunks dropped by preprocessing because they held no speech
+  skipped: number;
+  pending: number[];
+  failed: number[];
+  // sequence numbers (0-based) below the highest one received that never arrived
+  missing: number[];
+  unsequenced: number;
+}
+
+// Per-participant view of which chunks arrived, are still in flight, failed or are missing
+export function sequenceReport(chunks: ChunkRecord[]): ChunkSequenceReport[] {
+  const byUser = new Map<string, ChunkRecord[]>();
+  for (const c of chunks) {
+    if (!byUser.has(c.userId)) byUser.set(c.userId, []);
+    byUser.get(c.userId)!.push(c);
+  }
+  return Array.from(byUser, ([userId, list]) => {
+    const seqs = new Set(list.filter(c => c.seq !== undefined).map(c => c.seq as number));
+    const max = seqs.size ? Math.max(...seqs) : -1;
+    const missing: number[] = [];
+    for (let i = 0; i <= max; i++) if (!seqs.has(i)) missing.push(i);
+    const seqsWith = (status: ChunkRecord['status']) => list.filter(c => c.status === status && c.seq !== undefined).map(c => c.seq as number).sort((a, b) => a - b);
+    return {
+      userId,
+      received: list.length,
+      transcribed: list.filter(c => c.status === 'transcribed').length,
+      skipped: list.filter(c => c.status === 'skipped').length,
+      pending: seqsWith('received'),
+      failed: seqsWith('failed'),
+      missing,
+      unsequenced: list.filter(c => c.seq === undefined).length,
+    };
+  });
+}
@@ -0,0 +1,198 @@
+import { MeetingSegment } from './segments';
+import { buildTimeline, renderTimeline, TimelineEntry } from './timeline';
+import { getTranscriptStore } from './store';
+import { resolveLocale, t } from './i18n';
+import { resolveRoomParticipants } from './participants';
+import { AttachmentKind, buildSummaryAttachments, defaultAttachmentKinds, DeliveryRecord, mailEnabled, onBatchSettled, queueEmails, toDeliveryRecord } from './mail';
+import { emitWebhookEvent } from './webhooks';
+import { redactDeep, redactText } from './redaction';
+import { recordRoomAudit, systemActor } from './rooms/audit';
+import { deleteRoomRecordings } from './recordings';
+import { renderMeetingSummaryEmail } from '../utils/mailer';
+import { resolveSummarizerChain, resolveTemplate, StructuredSummary, SummaryProgress } from './summarization';
+import { checkQuota, DEFAULT_TENANT, recordUsage, UsageSubject, withUsageSubject } from './usage';
+import { roomConfig } from '../config';
+
+export interface FinalizePayload {
+  roomId?: string;
+  userId?: string;
+  // send only to this address; it must be a verified attendee of the room
+  email?: string;
+  // summarizer name (openai-compatible, ollama, extractive); defaults to SUMMARIZER_PROVIDER
+  summarizer?: string;
+  // summary template and output language; default to the room settings, then SUMMARY_TEMPLATE / DEFAULT_LOCALE
+  template?: string;
+  locale?: string;
+  // files attached to the summary email (transcript-txt, transcript-vtt, actions-ics, actions-csv); defaults to MAIL_ATTACHMENTS
+  attachments?: AttachmentKind[];
+  // billed for the LLM tokens and emails (see services/usage)
+  tenant?: string;
+}
+
+export interface FinalizeResult {
+  fullText: string;
+  summary: string | null;
+  // validated participants/topics/decisions/action items; null when only free text is available
+  structured: StructuredSummary | null;
+  // summarizer that produced `summary`
+  summarizer: string | null;
+  template: string;
+  locale: string;
+  // transcript windows summarized separately (0 when no LLM summary was produced)
+  windows: number;
+  // summary emails queued in the outbox (see GET /rooms/:roomId/deliveries)
+  deliveries: DeliveryRecord[];
+}
+
+export interface FinalizeOptions {
+  onProgress?: (progress: SummaryProgress) => void | Promise<void>;
+}
+
+/**
+ * Merge the accumulated transcript for a room/user into one timeline, summarize it with the configured summarizer
+ * and queue the result for the attendees known to the participant directories.
+ * Stored transcripts are deleted once every email was sent (see below).
+ */
+export async function finalizeRoom(payload: FinalizePayload, options: FinalizeOptions = {}): Promise<FinalizeResult> {
+  const { roomId, userId, email } = payload;
+  const room = String(roomId || 'global');
+  const owner = userId ? String(userId) : undefined;
+  const usage: UsageSubject = { tenant: payload.tenant || DEFAULT_TENANT, roomId: room, userId: owner };
+  const store = getTranscriptStore();
+  console.log('[finalize] requested', { room, userId: userId || null, email: email || null });
+
+  const roomRecord = await store.getRoom(room).catch(() => null);
+  // request, then the room's stored settings, then the config file's overrides for this room
+  const roomSettings = roomConfig(room);
+  const template = resolveTemplate(payload.template, roomRecord?.settings?.template, roomSettings.SUMMARY_TEMPLATE);
+  const locale = resolveLocale(payload.locale, roomRecord?.settings?.locale, template.locale, roomSettings.DEFAULT_LOCALE);
+  const subject = t(locale).emailSubject(room);
+
+  // Real names for the transcript and the verified recipient list
+  const directory = await resolveRoomParticipants(room);
+  const attendeeNames = directory.participants
+    .map(p => p.displayName || p.email || p.userId || '')
+    .filter(Boolean);
+
+  let fullText = '';
+  let segments: MeetingSegment[] = [];
+  let timeline: TimelineEntry[] = [];
+  try {
+    segments = await store.listSegments(room, owner);
+    // One chronological timeline across participants (speech turns and chat lines)
+    timeline = buildTimeline(segments, directory.speakerName);
+    fullText = renderTimeline(timeline, locale);
+  } catch (e) {
+    console.warn('[finalize] failed to read transcript(s)', e);
+  }
+
+  const participantsCount = new Set(segments.map(s => s.userId)).size;
+  const totalChars = fullText.length;
+  if (segments.length === 0) {
+    console.log('[finalize] no transcripts found for room', room);
+  } else {
+    console.log('[finalize] aggregating transcripts', { room, participantsCount, segmentsCount: segments.length, turns: timeline.length, totalChars });
+  }
+
+  let summary: string | null = null;
+  let summarizer: string | null = null;
+  let windows = 0;
+  let structured: StructuredSummary | null = null;
+  if (fullText.trim().length > 0) {
+    // Try the requested/configured summarizer, then the fallbacks (the offline extractive one by default)
+    for (const s of resolveSummarizerChain(payload.summarizer || roomSettings.SUMMARIZER_PROVIDER)) {
+      try {
+        console.log('[finalize] summarizing', { summarizer: s.name, model: s.model, template: template.name, locale, charCount: fullText.length, participantsCount });
+        // LLM calls meter their tokens against the caller's tenant
+        const result = await withUsageSubject(usage, () => s.summarize(timeline, { template, locale, onProgress: options.onProgress }));
+        if (!result) {
+          console.warn('[finalize] summarizer returned no content, trying next', { summarizer: s.name });
+          continue;
+        }
+        summary = result.summary;
+        structured = result.structured;
+        windows = result.windows;
+        summarizer = s.name;
+        break;
+      } catch (e: any) {
+        console.warn('[finalize] summarizer failed, trying next', { summarizer: s.name }, e);
+      }
+    }
+  }
+
+  // the transcript was redacted before storage; models can still echo or infer personal data
+  if (summary) {
+    summary = redactText(summary).text;
+    structured = redactDeep(structured);
+  }
+
+  if (summary) {
+    try {
+      await store.saveSummary({ roomId: room, createdAt: new Date().toISOString(), summary, meta: { summarizer, windows, structured, template: template.name, locale, userId: owner || null } });
+    } catch (e) {
+      console.warn('[finalize] failed storing summary', e);
+    }
+    await emitWebhookEvent('summary.ready', room, { userId: owner || null, summary, structured, summarizer, template: template.name, locale });
+  }
+
+  // Summaries only go to attendees confirmed by a participant directory; an explicit `email` must be one of them.
+  // Messages go through the outbox, which retries them; transcripts are deleted once the whole batch was sent.
+  let deliveries: DeliveryRecord[] = [];
+  if (summary && mailEnabled()) {
+    const recipients = email
+      ? directory.recipients.filter(r => r.toLowerCase() === String(email).toLowerCase())
+      : directory.recipients;
+    // a failed check skips delivery instead of failing the job: the summary is paid for and a retry would bill it again
+    const emailQuota = recipients.length
+      ? await checkQuota(usage, 'emails', recipients.length).catch((e: unknown) => (e instanceof Error ? e : new Error(String(e))))
+      : null;
+    if (email && !recipients.length) {
+      console.warn('[finalize] requested email is not a verified attendee; skipping delivery', { to: email, room });
+    } else if (!recipients.length) {
+      console.log('[finalize] no verified recipients for room; skipping delivery', { room });
+    } else if (emailQuota instanceof Error) {
+      console.warn('[finalize] email quota check failed; skipping delivery', { room, recipients: recipients.length, err: emailQuota.message });
+    } else if (emailQuota) {
+      // the summary is stored; it can be emailed once the quota resets
+      console.warn('[finalize] email quota used up; skipping delivery', { room, recipients: recipients.length, scope: emailQuota.scope, period: emailQuota.period, remaining: emailQuota.remaining });
+    } else {
+      const rendered = renderMeetingSummaryEmail(summary, attendeeNames, locale);
+      const attachments = buildSummaryAttachments(payload.attachments || defaultAttachmentKinds(room), {
+        roomId: room, locale, segments, speakerName: directory.speakerName, actionItems: structured?.actionItems || null,
+      });
+      const queued = await queueEmails(recipients.map(to => ({ to, subject, ...rendered, attachments })), {
+        purpose: 'summary',
+        roomId: room,
+        context: { userId: owner || null },
+      });
+      deliveries = queued.map(toDeliveryRecord);
+      await recordUsage('emails', queued.length, usage);
+    }
+  }
+
+  // Summary text stays out of the logs; it is available from the store and the job result
+  if (summary) console.log('[finalize] summary ready', { room, summarizer, chars: summary.length, structured: !!structured });
+  else console.log('[finalize] no summary generated', { room });
+
+  await emitWebhookEvent('room.finalized', room, {
+    userId: owner || null, hasSummary: !!summary, summarizer, template: template.name, locale, windows,
+    segments: segments.length, participants: participantsCount, emailsQueued: deliveries.length,
+  });
+
+  return { fullText, summary, structured, summarizer, template: template.name, locale, windows, deliveries };
+}
+
+// A summary batch that was fully delivered no longer needs the transcript and audio it was built from.
+// The room itself (settings, status) and its stored summaries stay.
+onBatchSettled(async (entries) => {
+  const first = entries[0];
+  if (first.purpose !== 'summary' || !first.roomId || !entries.every(e => e.status === 'sent')) return;
+  const owner = typeof first.context?.userId === 'string' ? first.context.userId : undefined;
+  await getTranscriptStore().deleteSegments(first.roomId, owner);
+  const recordings = await deleteRoomRecordings(first.roomId, owner).catch(e => {
+    console.warn('[finalize] failed to delete archived audio', { room: first.roomId, err: e instanceof Error ? e.message : String(e) });
+    return 0;
+  });
+  await recordRoomAudit({ action: 'purge', roomId: first.roomId, userId: owner, actor: systemActor('finalize'), reason: 'summary delivered to every recipient', details: { recipients: entries.length, recordings } });
+  console.log('[finalize] summary delivered to every recipient; transcripts deleted', { room: first.roomId, recipients: entries.length });
+});
@@ -0,0 +1,103 @@
+import { config } from '../config';
+
+export type Locale = 'es' | 'en' | 'pt';
+
+export const LOCALES: Locale[] = ['es', 'en', 'pt'];
+
+// Text in several languages; missing languages fall back to es, then en, then whatever is present
+export type Localized = Partial<Record<Locale, string>>;
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as string[]).includes(value);
+}
+
+// First valid locale among the candidates (request, room setting, template, ...), else DEFAULT_LOCALE (es)
+export function resolveLocale(...candidates: unknown[]): Locale {
+  for (const c of candidates) {
+    const short = typeof c === 'string' ? c.toLowerCase().slice(0, 2) : c;
+    if (isLocale(short)) return short;
+  }
+  return config().DEFAULT_LOCALE;
+}
+
+export function pick(text: Localized | string, locale: Locale): string {
+  if (typeof text === 'string') return text;
+  return text[locale] ?? text.es ?? text.en ?? Object.values(text)[0] ?? '';
+}
+
+export interface Messages {
+  emailTitle: string;
+  emailParticipants: string;
+  emailFooter: string;
+  emailSubject: (room: string) => string;
+  participants: string;
+  overview: string;
+  keyTopics: string;
+  decisions: string;
+  actionItems: string;
+  none: string;
+  owner: string;
+  due: string;
+  // timeline note appended to overlapping turns
+  overlapsWith: string;
+  unknownSpeaker: string;
+  noneIdentified: string;
+}
+
+const messages: Record<Locale, Messages> = {
+  es: {
+    emailTitle: 'Resumen de la reunión',
+    emailParticipants: 'Participantes',
+    emailFooter: 'Este es un mensaje automático de AgoraX.',
+    emailSubject: (room) => `Resumen reunión ${room}`,
+    participants: 'Participantes',
+    overview: 'Resumen del chat',
+    keyTopics: 'Temas principales',
+    decisions: 'Decisiones',
+    actionItems: 'Tareas/Compromisos',
+    none: '(ninguno)',
+    owner: 'responsable',
+    due: 'fecha',
+    overlapsWith: 'habla a la vez que',
+    unknownSpeaker: '[Desconocido]',
+    noneIdentified: 'Ninguno identificado',
+  },
+  en: {
+    emailTitle: 'Meeting summary',
+    emailParticipants: 'Participants',
+    emailFooter: 'This is an automated message from AgoraX.',
+    emailSubject: (room) => `Meeting summary ${room}`,
+    participants: 'Participants',
+    overview: 'Discussion summary',
+    keyTopics: 'Key topics',
+    decisions: 'Decisions',
+    actionItems: 'Action items',
+    none: '(none)',
+    owner: 'owner',
+    due: 'due',
+    overlapsWith: 'speaking at the same time as',
+    unknownSpeaker: '[Unknown]',
+    noneIdentified: 'None identified',
+  },
+  pt: {
+    emailTitle: 'Resumo da reunião',
+    emailParticipants: 'Participantes',
+    emailFooter: 'Esta é uma mensagem automática da AgoraX.',
+    emailSubject: (room) => `Resumo reunião ${room}`,
+    participants: 'Participantes',
+    overview: 'Resumo da conversa',
+    keyTopics: 'Temas principais',
+    decisions: 'Decisões',
+    actionItems: 'Tarefas/Compromissos',
+    none: '(nenhum)',
+    owner: 'responsável',
+    due: 'prazo',
+    overlapsWith: 'fala ao mesmo tempo que',
+    unknownSpeaker: '[Desconhecido]',
+    noneIdentified: 'Nenhum identificado',
+  },
+};
+
+export function t(locale: Locale): Messages {
+  return messages[locale];
+}
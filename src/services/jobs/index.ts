@@ -0,0 +1,23 @@
+import { discardChunk, processChunk, ChunkPayload, ChunkResult } from '../chunks';
+import { finalizeRoom, FinalizePayload, FinalizeResult } from '../finalize';
+import { assembleRecordings, AssembleRecordingPayload } from '../recordings';
+import { ProviderSetupError } from '../transcription/types';
+import { registerJobHandler } from './queue';
+
+export * from './types';
+export { enqueueJob, getJob, listJobs, purgeRoomJobs, waitForJob, startJobWorker, stopJobWorker } from './queue';
+
+export function registerDefaultJobHandlers() {
+  registerJobHandler<ChunkPayload, ChunkResult>('transcribe-chunk', {
+    run: (payload) => processChunk(payload),
+    onFailed: (payload) => discardChunk(payload),
+    // an unknown or unconfigured provider fails the same way every time; do not preprocess the chunk again
+    retryable: (err) => !(err instanceof ProviderSetupError),
+  });
+  registerJobHandler<FinalizePayload, FinalizeResult>('finalize', {
+    run: (payload, _job, ctx) => finalizeRoom(payload, { onProgress: (p) => ctx.progress({ ...p }) }),
+  });
+  registerJobHandler<AssembleRecordingPayload, Awaited<ReturnType<typeof assembleRecordings>>>('assemble-recording', {
+    run: (payload) => assembleRecordings(payload),
+  });
+}
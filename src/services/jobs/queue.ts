@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import { createJobStore, JobStore } from './store';
+import { JobHandler, JobRecord, JobType } from './types';
+import { currentLogContext, withLogContext } from '../observability/logger';
+import { metrics } from '../observability/metrics';
+import { config } from '../../config';
+
+const handlers = new Map<JobType, JobHandler>();
+// in-process listeners waiting for a job to reach a terminal status
+const waiters = new Map<string, Array<(job: JobRecord) => void>>();
+const active = new Set<string>();
+
+let store: JobStore | null = null;
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+let lastPurge = 0;
+
+// identifies this process in job leases; several instances may share one job directory
+const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+// finished jobs are purged at most this often; they are not read on every poll
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+
+const settings = () => ({
+  concurrency: config().JOB_CONCURRENCY,
+  maxAttempts: config().JOB_MAX_ATTEMPTS,
+  backoffMs: config().JOB_BACKOFF_MS,
+  backoffMaxMs: config().JOB_BACKOFF_MAX_MS,
+  pollMs: config().JOB_POLL_MS,
+  // finished jobs are kept this long so clients can still read their result
+  retentionMs: config().JOB_RETENTION_HOURS * 3600 * 1000,
+  // a running job whose lease is this far past is taken to be abandoned by a dead process and requeued
+  leaseMs: config().JOB_LEASE_MS,
+});
+
+function getStore() {
+  if (!store) {
+    store = createJobStore(path.join(config().STORAGE_TEMP_PATH, 'jobs'));
+  }
+  return store;
+}
+
+export function registerJobHandler<P, R>(type: JobType, handler: JobHandler<P, R>) {
+  handlers.set(type, handler as JobHandler);
+}
+
+export async function enqueueJob<P>(type: JobType, payload: P, opts: { roomId?: string; maxAttempts?: number } = {}): Promise<JobRecord<P>> {
+  const now = new Date().toISOString();
+  const job: JobRecord<P> = {
+    id: crypto.randomUUID(),
+    type,
+    status: 'queued',
+    payload,
+    attempts: 0,
+    maxAttempts: opts.maxAttempts || settings().maxAttempts,
+    runAfter: now,
+    createdAt: now,
+    updatedAt: now,
+    roomId: opts.roomId,
+    requestId: currentLogContext()?.requestId,
+  };
+  await getStore().save(job);
+  console.log('[jobs] enqueued', { id: job.id, type, roomId: job.roomId });
+  setImmediate(() => { void tick(); });
+  return job;
+}
+
+export function getJob(id: string) {
+  return getStore().get(id);
+}
+
+// `pending` lists only queued and running jobs, without reading the finished ones
+export async function listJobs(filter: { roomId?: string; pending?: boolean } = {}): Promise<JobRecord[]> {
+  const s = getStore();
+  const jobs = filter.pending ? await s.listPending() : await s.list();
+  return jobs.filter(j => filter.roomId === undefined || j.roomId === filter.roomId);
+}
+
+/**
+ * Remove a room's finished jobs (payloads and results carry transcript text); queued/running ones stay.
+ * With `userId`, only that participant's chunk jobs plus the room-wide ones (finalize, recordings).
+ */
+export async function purgeRoomJobs(roomId: string, userId?: string): Promise<number> {
+  const done = (await listJobs({ roomId })).filter(j => (j.status === 'succeeded' || j.status === 'failed')
+    && (!userId || j.type !== 'transcribe-chunk' || j.payload?.userId === userId));
+  for (const j of done) await getStore().remove(j.id);
+  return done.length;
+}
+
+/**
+ * Resolve with the job once it succeeds or fails for good, or with its current
+ * state after `timeoutMs`. Only sees jobs processed by this process.
+ */
+export async function waitForJob(id: string, timeoutMs: number): Promise<JobRecord | null> {
+  const current = await getJob(id);
+  if (!current || current.status === 'succeeded' || current.status === 'failed') return current;
+  return new Promise(resolve => {
+    const done = (job: JobRecord) => { clearTimeout(t); resolve(job); };
+    const t = setTimeout(async () => {
+      waiters.set(id, (waiters.get(id) || []).filter(w => w !== done));
+      resolve(await getJob(id));
+    }, timeoutMs);
+    waiters.set(id, [...(waiters.get(id) || []), done]);
+  });
+}
+
+function notify(job: JobRecord) {
+  const list = waiters.get(job.id) || [];
+  waiters.delete(job.id);
+  for (const w of list) w(job);
+}
+
+// Every id is set explicitly: the tick that starts a job may itself run inside another request's context
+function runJob(job: JobRecord) {
+  return withLogContext({ requestId: job.requestId, roomId: job.roomId, jobId: job.id, userId: undefined }, () => attemptJob(job));
+}
+
+async function attemptJob(job: JobRecord) {
+  const s = getStore();
+  const endTimer = metrics.jobDuration.startTimer({ type: job.type });
+  const handler = handlers.get(job.type);
+  const { leaseMs } = settings();
+  job.attempts += 1;
+  job.status = 'running';
+  job.worker = WORKER_ID;
+  job.leaseUntil = new Date(Date.now() + leaseMs).toISOString();
+  job.updatedAt = new Date().toISOString();
+  await s.save(job);
+  // renew the lease while the handler runs so other instances leave the job alone
+  let renewing: Promise<void> = Promise.resolve();
+  const heartbeat = setInterval(() => {
+    job.leaseUntil = new Date(Date.now() + leaseMs).toISOString();
+    renewing = s.save(job).catch(e => console.warn('[jobs] failed renewing lease', { id: job.id }, e));
+  }, Math.max(500, Math.floor(leaseMs / 3)));
+
+  try {
+    if (!handler) throw new Error(`No handler registered for job type ${job.type}`);
+    job.progress = undefined;
+    job.result = await handler.run(job.payload, job, {
+      progress: async (progress) => {
+        job.progress = progress;
+        job.updatedAt = new Date().toISOString();
+        await s.save(job).catch(e => console.warn('[jobs] failed saving progress', { id: job.id }, e));
+      },
+    });
+    job.status = 'succeeded';
+    job.error = undefined;
+    endTimer({ outcome: 'ok' });
+    console.log('[jobs] succeeded', { id: job.id, type: job.type, attempts: job.attempts });
+  } catch (err) {
+    job.error = err instanceof Error ? err.message : String(err);
+    endTimer({ outcome: 'error' });
+    if (handler && job.attempts < job.maxAttempts && handler.retryable?.(err) !== false) {
+      const { backoffMs, backoffMaxMs } = settings();
+      const delay = Math.min(backoffMaxMs, backoffMs * 2 ** (job.attempts - 1));
+      job.status = 'queued';
+      job.runAfter = new Date(Date.now() + delay).toISOString();
+      console.warn('[jobs] attempt failed, will retry', { id: job.id, type: job.type, attempts: job.attempts, delay, err: job.error });
+    } else {
+      job.status = 'failed';
+      console.error('[jobs] failed', { id: job.id, type: job.type, attempts: job.attempts, err: job.error });
+      try { await handler?.onFailed?.(job.payload, err); } catch (e) { console.warn('[jobs] onFailed hook threw', e); }
+    }
+  } finally {
+    clearInterval(heartbeat);
+    // a renewal still being written would otherwise land after the final save
+    await renewing;
+  }
+
+  job.leaseUntil = undefined;
+  job.updatedAt = new Date().toISOString();
+  await s.save(job);
+  if (job.status !== 'queued') notify(job);
+}
+
+// jobs written before leases existed carry none; their last update stands in for it
+const leaseExpired = (job: JobRecord, now: number, leaseMs: number) =>
+  (job.leaseUntil ? Date.parse(job.leaseUntil) : Date.parse(job.updatedAt) + leaseMs) < now;
+
+async function purgeFinishedJobs(s: JobStore, now: number, retentionMs: number) {
+  for (const j of await s.listFinished()) {
+    if (now - Date.parse(j.updatedAt) > retentionMs) await s.remove(j.id);
+  }
+}
+
+/**
+ * Requeue running jobs whose lease ran out: the process running them died without finishing.
+ * Jobs this process is running are never touched; live instances keep renewing theirs.
+ */
+async function reclaimExpiredJobs(s: JobStore, jobs: JobRecord[], now: number, leaseMs: number) {
+  for (const j of jobs) {
+    if (j.status !== 'running' || active.has(j.id) || !leaseExpired(j, now, leaseMs)) continue;
+    console.log('[jobs] requeued job with expired lease', { id: j.id, type: j.type, worker: j.worker });
+    j.status = 'queued';
+    j.runAfter = new Date(now).toISOString();
+    j.worker = undefined;
+    j.leaseUntil = undefined;
+    j.updatedAt = new Date(now).toISOString();
+    await s.save(j);
+  }
+}
+
+// Start as many due jobs as the concurrency limit allows; requeue abandoned ones and purge expired finished ones
+async function tick() {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const { concurrency, retentionMs, leaseMs } = settings();
+    const s = getStore();
+    const now = Date.now();
+    if (now - lastPurge > PURGE_INTERVAL_MS) {
+      lastPurge = now;
+      await purgeFinishedJobs(s, now, retentionMs);
+    }
+
+    const jobs = await s.listPending();
+    await reclaimExpiredJobs(s, jobs, now, leaseMs);
+
+    const due = jobs
+      .filter(j => j.status === 'queued' && !active.has(j.id) && Date.parse(j.runAfter) <= now)
+      .sort((a, b) => a.runAfter.localeCompare(b.runAfter));
+
+    for (const listed of due) {
+      if (active.size >= concurrency) break;
+      // another instance may have started it since the directory was read; the claim settles who runs this attempt
+      const job = await s.get(listed.id);
+      if (job?.status !== 'queued' || !await s.claim(job.id, job.attempts, WORKER_ID)) continue;
+      active.add(job.id);
+      runJob(job)
+        .catch(e => console.error('[jobs] runner error', { id: job.id }, e))
+        .finally(() => { active.delete(job.id); setImmediate(() => { void tick(); }); });
+    }
+  } catch (e) {
+    console.warn('[jobs] tick failed', e);
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Start polling for due jobs. Jobs left `running` by a process that died are requeued once their
+ * lease (JOB_LEASE_MS) runs out, so instances sharing the job directory do not take each other's work.
+ */
+export async function startJobWorker() {
+  if (timer) return;
+  const s = getStore();
+  // finished jobs written before they had their own directory
+  for (const j of await s.listPending()) {
+    if (j.status === 'succeeded' || j.status === 'failed') await s.save(j);
+  }
+  timer = setInterval(() => { void tick(); }, settings().pollMs);
+  void tick();
+}
+
+export function stopJobWorker() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { JobRecord } from './types';
+
+// Job ids are crypto.randomUUID(); anything else never names a job file
+const JOB_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isJobId = (id: string) => JOB_ID.test(id);
+
+const isFinished = (job: JobRecord) => job.status === 'succeeded' || job.status === 'failed';
+
+/**
+ * Jobs are persisted as one JSON file each so queued and retrying work survives restarts.
+ * Queued and running jobs live in `dir`, finished ones in `dir/done`, so the worker's poll only
+ * reads the jobs it may still have to run, however much history is kept. `dir/claims/<id>/<attempt>`
+ * records which worker took each attempt; see `claim`.
+ */
+export function createJobStore(dir: string) {
+  const doneDir = path.join(dir, 'done');
+  const claimsDir = path.join(dir, 'claims');
+  const file = (id: string, finished: boolean) => {
+    if (!isJobId(id)) throw new Error(`invalid job id ${id}`);
+    return path.join(finished ? doneDir : dir, `${id}.json`);
+  };
+
+  const readJob = async (f: string): Promise<JobRecord | null> => {
+    try {
+      return JSON.parse(await fs.promises.readFile(f, 'utf8'));
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return null;
+      throw e;
+    }
+  };
+
+  const listDir = async (d: string): Promise<JobRecord[]> => {
+    let names: string[];
+    try { names = await fs.promises.readdir(d); } catch (e: any) { if (e?.code === 'ENOENT') return []; throw e; }
+    const out: JobRecord[] = [];
+    for (const f of names) {
+      if (!f.endsWith('.json')) continue;
+      try { out.push(JSON.parse(await fs.promises.readFile(path.join(d, f), 'utf8'))); } catch (e) { console.warn('[jobs] skipping unreadable job file', f); }
+    }
+    return out;
+  };
+
+  return {
+    async save(job: JobRecord) {
+      const finished = isFinished(job);
+      const target = file(job.id, finished);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      // write-then-rename so readers never see a half-written job; concurrent saves (lease heartbeat,
+      // progress) each write their own temp file
+      const tmp = `${target}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+      await fs.promises.writeFile(tmp, JSON.stringify(job, null, 2), 'utf8');
+      await fs.promises.rename(tmp, target);
+      // a finished job leaves the polled directory (and a requeued one leaves done/)
+      await fs.promises.unlink(file(job.id, !finished)).catch(() => {});
+    },
+
+    /**
+     * Take one attempt of a job for `worker`. Creating the claim file is atomic, so when several instances
+     * share `dir` exactly one of them gets each attempt; false means another one already took it.
+     */
+    async claim(id: string, attempt: number, worker: string): Promise<boolean> {
+      if (!isJobId(id)) return false;
+      const claimDir = path.join(claimsDir, id);
+      await fs.promises.mkdir(claimDir, { recursive: true });
+      try {
+        await fs.promises.writeFile(path.join(claimDir, String(attempt)), worker, { flag: 'wx' });
+        return true;
+      } catch (e: any) {
+        if (e?.code === 'EEXIST') return false;
+        throw e;
+      }
+    },
+
+    async get(id: string): Promise<JobRecord | null> {
+      if (!isJobId(id)) return null;
+      return (await readJob(file(id, false))) || readJob(file(id, true));
+    },
+
+    // queued and running jobs only
+    listPending(): Promise<JobRecord[]> {
+      return listDir(dir);
+    },
+
+    listFinished(): Promise<JobRecord[]> {
+      return listDir(doneDir);
+    },
+
+    async list(): Promise<JobRecord[]> {
+      return [...await listDir(dir), ...await listDir(doneDir)];
+    },
+
+    async remove(id: string) {
+      if (!isJobId(id)) return;
+      await fs.promises.unlink(file(id, false)).catch(() => {});
+      await fs.promises.unlink(file(id, true)).catch(() => {});
+      await fs.promises.rm(path.join(claimsDir, id), { recursive: true, force: true });
+    },
+  };
+}
+
+export type JobStore = ReturnType<typeof createJobStore>;
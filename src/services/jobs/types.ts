@@ -0,0 +1,40 @@
+export type JobType = 'transcribe-chunk' | 'finalize' | 'assemble-recording';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface JobRecord<P = any, R = any> {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  payload: P;
+  result?: R;
+  // last error message, kept while retrying and after the final failure
+  error?: string;
+  attempts: number;
+  maxAttempts: number;
+  // earliest time the job may (re)run, ISO string
+  runAfter: string;
+  createdAt: string;
+  updatedAt: string;
+  roomId?: string;
+  // X-Request-Id of the request that enqueued the job, carried into its log lines
+  requestId?: string;
+  // last progress reported by the handler, e.g. summarization windows done/total
+  progress?: Record<string, unknown>;
+  // process running the job and until when it holds it; renewed while the handler runs (JOB_LEASE_MS)
+  worker?: string;
+  leaseUntil?: string;
+}
+
+export interface JobContext {
+  // persist a progress snapshot visible through the job status endpoint
+  progress(progress: Record<string, unknown>): Promise<void>;
+}
+
+export interface JobHandler<P = any, R = any> {
+  run(payload: P, job: JobRecord<P, R>, ctx: JobContext): Promise<R>;
+  // invoked once the job has exhausted its attempts
+  onFailed?(payload: P, err: unknown): Promise<void>;
+  // false fails the job at once instead of retrying (errors are retried by default)
+  retryable?(err: unknown): boolean;
+}
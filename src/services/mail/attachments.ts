@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import { Locale } from '../i18n';
+import { MeetingSegment } from '../segments';
+import { renderTranscript } from '../subtitles';
+import { ActionItem } from '../summarization';
+import { MailAttachment } from './types';
+import { roomConfig } from '../../config';
+
+export type AttachmentKind = 'transcript-txt' | 'transcript-vtt' | 'actions-ics' | 'actions-csv';
+export const ATTACHMENT_KINDS: AttachmentKind[] = ['transcript-txt', 'transcript-vtt', 'actions-ics', 'actions-csv'];
+
+export const isAttachmentKind = (v: unknown): v is AttachmentKind => typeof v === 'string' && (ATTACHMENT_KINDS as string[]).includes(v);
+
+/** Comma-separated kinds ("none" or empty for no attachments); unknown names are reported, not ignored. */
+export function parseAttachmentKinds(value: unknown): { kinds: AttachmentKind[]; unknown: string[] } {
+  const names = String(value ?? '').split(',').map(s => s.trim().toLowerCase()).filter(s => s && s !== 'none');
+  return { kinds: names.filter(isAttachmentKind), unknown: names.filter(n => !isAttachmentKind(n)) };
+}
+
+// MAIL_ATTACHMENTS (per room in the config file): kinds attached to summary emails unless finalize asks for others (default none)
+export const defaultAttachmentKinds = (roomId?: string): AttachmentKind[] => roomConfig(roomId).MAIL_ATTACHMENTS;
+
+export interface AttachmentSource {
+  roomId: string;
+  locale: Locale;
+  segments: MeetingSegment[];
+  speakerName?: (userId: string) => string;
+  // from the structured summary; action item attachments are skipped without it
+  actionItems: ActionItem[] | null;
+  createdAt?: Date;
+}
+
+const attachment = (filename: string, contentType: string, body: string): MailAttachment =>
+  ({ filename, contentType, content: Buffer.from(body, 'utf8').toString('base64') });
+
+// RFC 5545 text escaping and 75-octet line folding
+const icsText = (s: string) => s.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+function foldIcsLine(line: string) {
+  const out: string[] = [];
+  let current = '';
+  for (const ch of line) {
+    if (Buffer.byteLength(current + ch) > (out.length ? 74 : 75)) { out.push(current); current = ''; }
+    current += ch;
+  }
+  out.push(current);
+  return out.join('\r\n ');
+}
+const icsStamp = (d: Date) => d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export function actionItemsToIcs(roomId: string, items: ActionItem[], createdAt = new Date()) {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//AgoraX//Meeting summary//ES', 'CALSCALE:GREGORIAN'];
+  items.forEach((item, i) => {
+    const uid = crypto.createHash('sha1').update(`${roomId}\n${i}\n${item.description}`).digest('hex');
+    const details = [item.owner ? `Owner: ${item.owner}` : null, item.sourceTimestamp ? `[${item.sourceTimestamp}]` : null].filter(Boolean).join('\n');
+    lines.push(
+      'BEGIN:VTODO',
+      `UID:${uid}@agorax`,
+      `DTSTAMP:${icsStamp(createdAt)}`,
+      `SUMMARY:${icsText(item.description)}`,
+      ...(details ? [`DESCRIPTION:${icsText(details)}`] : []),
+      ...(item.dueDate ? [`DUE;VALUE=DATE:${item.dueDate.replace(/-/g, '')}`] : []),
+      `CATEGORIES:${icsText(roomId)}`,
+      'STATUS:NEEDS-ACTION',
+      'END:VTODO',
+    );
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// Quote every field; a leading = + - @ is neutralized so spreadsheets do not run it as a formula
+const csvField = (v: string | null) => {
+  const s = v ?? '';
+  return `"${(/^[=+\-@]/.test(s) ? `'${s}` : s).replace(/"/g, '""')}"`;
+};
+
+export function actionItemsToCsv(items: ActionItem[]) {
+  const rows = [['description', 'owner', 'due_date', 'source_timestamp'], ...items.map(a => [a.description, a.owner, a.dueDate, a.sourceTimestamp])];
+  // BOM so Excel opens it as UTF-8
+  return '\uFEFF' + rows.map(r => r.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/** Build the requested summary attachments; kinds without data (no transcript, no action items) are left out. */
+export function buildSummaryAttachments(kinds: AttachmentKind[], src: AttachmentSource): MailAttachment[] {
+  const base = `${src.roomId.replace(/[^\w.-]+/g, '_')}`;
+  const out: MailAttachment[] = [];
+  for (const kind of new Set(kinds)) {
+    if ((kind === 'transcript-txt' || kind === 'transcript-vtt') && src.segments.length) {
+      const format = kind === 'transcript-txt' ? 'txt' : 'vtt';
+      const { contentType, body } = renderTranscript(src.segments, format, src.locale, src.speakerName);
+      out.push(attachment(`transcript-${base}.${format}`, contentType, body));
+    } else if (kind === 'actions-ics' && src.actionItems?.length) {
+      out.push(attachment(`action-items-${base}.ics`, 'text/calendar; charset=utf-8', actionItemsToIcs(src.roomId, src.actionItems, src.createdAt)));
+    } else if (kind === 'actions-csv' && src.actionItems?.length) {
+      out.push(attachment(`action-items-${base}.csv`, 'text/csv; charset=utf-8', actionItemsToCsv(src.actionItems)));
+    }
+  }
+  return out;
+}
@@ -0,0 +1,6 @@
+export * from './types';
+export * from './theme';
+export * from './attachments';
+export { escapeHtml, markdownToHtml, markdownToText } from './markdown';
+export { createResendMailer, createSmtpMailer, createFileMailer, createConsoleMailer, getMailer, isMailerName, mailEnabled, mailFrom } from './mailers';
+export { getDelivery, listDeliveries, onBatchSettled, purgeRoomDeliveries, queueEmails, retryDelivery, startOutboxWorker, stopOutboxWorker, toDeliveryRecord, QueueOptions } from './outbox';
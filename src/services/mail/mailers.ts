@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+import { Resend } from 'resend';
+import { Mailer, MailerName, MailMessage } from './types';
+import { config } from '../../config';
+
+// Sender for every backend unless a message sets its own
+export const mailFrom = () => config().MAIL_FROM;
+
+const htmlToText = (html: string) =>
+  html.replace(/<(br|\/p|\/li|\/h\d|\/div)\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&')
+    .replace(/\n\s*\n\s*\n+/g, '\n\n').trim();
+
+// nodemailer message options shared by the SMTP and file backends
+const nodemailerMessage = (m: MailMessage) => ({
+  from: m.from || mailFrom(),
+  to: m.to,
+  subject: m.subject,
+  html: m.html,
+  text: m.text || htmlToText(m.html),
+  replyTo: m.replyTo,
+  headers: m.headers,
+  attachments: m.attachments?.map(a => ({ filename: a.filename, content: a.content, encoding: 'base64', contentType: a.contentType })),
+});
+
+/** Resend HTTP API (RESEND_API_KEY). */
+export function createResendMailer(): Mailer {
+  const key = config().RESEND_API_KEY || '';
+  let client: Resend | null = null;
+  return {
+    name: 'resend',
+    isConfigured: () => !!key,
+    async send(m) {
+      // the SDK throws at construction without a key, so build it on first use
+      client = client || new Resend(key);
+      const res: any = await client.emails.send({
+        from: m.from || mailFrom(),
+        to: m.to,
+        subject: m.subject,
+        html: m.html,
+        text: m.text,
+        reply_to: m.replyTo,
+        headers: m.headers,
+        attachments: m.attachments?.map(a => ({ filename: a.filename, content: Buffer.from(a.content, 'base64') })),
+      });
+      // older SDKs resolve with the API error body instead of throwing
+      const id = res?.id || res?.data?.id;
+      if (!id) throw new Error(`resend rejected the message: ${res?.error?.message || res?.message || JSON.stringify(res)}`);
+      return { providerId: id };
+    },
+  };
+}
+
+/** Any SMTP server: SMTP_HOST, SMTP_PORT (587), SMTP_SECURE (default on for 465), SMTP_USER/SMTP_PASS. */
+export function createSmtpMailer(): Mailer {
+  const host = config().SMTP_HOST || '';
+  let transport: Transporter | null = null;
+  return {
+    name: 'smtp',
+    isConfigured: () => !!host,
+    async send(m) {
+      if (!transport) {
+        const { SMTP_PORT: port, SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_TIMEOUT_MS } = config();
+        transport = nodemailer.createTransport({
+          host,
+          port,
+          secure: SMTP_SECURE ?? port === 465,
+          auth: SMTP_USER ? { user: SMTP_USER, pass: SMTP_PASS || '' } : undefined,
+          connectionTimeout: SMTP_TIMEOUT_MS,
+        });
+      }
+      const info = await transport.sendMail(nodemailerMessage(m));
+      if (info.rejected?.length) throw new Error(`smtp rejected ${info.rejected.join(', ')}: ${info.response}`);
+      return { providerId: info.messageId };
+    },
+  };
+}
+
+/** Writes each message as an .eml file under MAIL_FILE_DIR (default STORAGE_TEMP_PATH/mail); for local testing. */
+export function createFileMailer(): Mailer {
+  const dir = config().MAIL_FILE_DIR || path.join(config().STORAGE_TEMP_PATH, 'mail');
+  const transport = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+  return {
+    name: 'file',
+    isConfigured: () => true,
+    async send(m) {
+      const info = await transport.sendMail(nodemailerMessage(m));
+      await fs.promises.mkdir(dir, { recursive: true });
+      const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID().slice(0, 8)}.eml`;
+      await fs.promises.writeFile(path.join(dir, name), info.message as Buffer);
+      console.log('[mail] wrote message to file', { to: m.to, file: path.join(dir, name) });
+      return { providerId: name };
+    },
+  };
+}
+
+/** Logs recipients, subject and the plain-text body instead of sending. */
+export function createConsoleMailer(): Mailer {
+  return {
+    name: 'console',
+    isConfigured: () => true,
+    async send(m) {
+      const text = m.text || htmlToText(m.html);
+      console.log('[mail] console delivery', { from: m.from || mailFrom(), to: m.to, subject: m.subject, chars: text.length, attachments: m.attachments?.map(a => a.filename) || [] });
+      console.log(text);
+      return { providerId: `console-${crypto.randomUUID()}` };
+    },
+  };
+}
+
+const factories: Record<MailerName, () => Mailer> = {
+  'resend': createResendMailer,
+  'smtp': createSmtpMailer,
+  'file': createFileMailer,
+  'console': createConsoleMailer,
+};
+
+export function isMailerName(name: unknown): name is MailerName {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(factories, name);
+}
+
+let mailer: Mailer | null | undefined;
+
+/**
+ * Shared mailer selected by MAIL_BACKEND (resend, smtp, file, console). Without it, Resend is used
+ * when RESEND_API_KEY is set and SMTP when SMTP_HOST is; null means email is off.
+ */
+export function getMailer(): Mailer | null {
+  if (mailer !== undefined) return mailer;
+  const requested = config().MAIL_BACKEND;
+  const candidates: MailerName[] = requested ? [requested] : ['resend', 'smtp'];
+  mailer = candidates.map(name => factories[name]()).find(m => m.isConfigured()) || null;
+  console.log('[mail] mailer ready', { backend: mailer?.name || null, from: mailFrom() });
+  return mailer;
+}
+
+export const mailEnabled = () => getMailer() !== null;
@@ -0,0 +1,224 @@
+import { EmailTheme } from './theme';
+
+/**
+ * Markdown as summarizers write it (headings, numbered/bulleted lists with nesting, quotes, code,
+ * rules, emphasis, links) turned into HTML with inline styles, which is all most mail clients
+ * keep, and into a plain-text part that reads the same.
+ */
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'quote'; blocks: Block[] }
+  | { type: 'code'; text: string }
+  | { type: 'hr' };
+
+interface ListItem {
+  text: string;
+  children: Block[];
+}
+
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^ {0,3}(```|~~~)/;
+const QUOTE = /^ {0,3}>\s?/;
+const ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+const isBlank = (line: string) => line.trim() === '';
+const isOrdered = (marker: string) => /\d/.test(marker);
+
+function parseList(lines: string[], start: number): [Block, number] {
+  const first = ITEM.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = isOrdered(first[2]);
+  const items: ListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      // a blank line continues the list only if more of it follows
+      let j = i + 1;
+      while (j < lines.length && isBlank(lines[j])) j++;
+      const next = j < lines.length ? ITEM.exec(lines[j]) : null;
+      const indented = j < lines.length && indentOf(lines[j]) > indent;
+      if ((next && next[1].length === indent && isOrdered(next[2]) === ordered) || indented) { i = j; continue; }
+      break;
+    }
+    const m = ITEM.exec(line);
+    if (m && m[1].length <= indent + 1 && m[1].length >= indent) {
+      if (isOrdered(m[2]) !== ordered) break;
+      items.push({ text: m[3], children: [] });
+      i++;
+      continue;
+    }
+    if (m && m[1].length < indent) break;
+    if (indentOf(line) > indent && items.length) {
+      // nested content: everything indented past this list's markers
+      const nested: string[] = [];
+      while (i < lines.length && (isBlank(lines[i]) || indentOf(lines[i]) > indent)) nested.push(lines[i++]);
+      while (nested.length && isBlank(nested[nested.length - 1])) { nested.pop(); i--; }
+      const cut = Math.min(...nested.filter(l => !isBlank(l)).map(indentOf));
+      const children = parseBlocks(nested.map(l => l.slice(Math.min(cut, indentOf(l)))));
+      const item = items[items.length - 1];
+      // indented text right under the item continues its first paragraph
+      const first = children[0];
+      if (first?.type === 'paragraph' && !item.children.length && !isBlank(nested[0])) {
+        item.text += ` ${first.lines.join(' ')}`;
+        children.shift();
+      }
+      item.children.push(...children);
+      continue;
+    }
+    // lazy continuation of the previous item's text
+    if (items.length && !isBlank(lines[i - 1]) && !HEADING.test(line) && !QUOTE.test(line) && !FENCE.test(line)) {
+      items[items.length - 1].text += ` ${line.trim()}`;
+      i++;
+      continue;
+    }
+    break;
+  }
+  return [{ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, i];
+}
+
+function parseBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) { i++; continue; }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith(fence[1])) body.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', text: body.join('\n') });
+      continue;
+    }
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+    if (RULE.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].replace(QUOTE, ''));
+      blocks.push({ type: 'quote', blocks: parseBlocks(quoted) });
+      continue;
+    }
+    if (ITEM.test(line)) {
+      const [list, next] = parseList(lines, i);
+      blocks.push(list);
+      i = next;
+      continue;
+    }
+    const para: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && !HEADING.test(lines[i]) && !RULE.test(lines[i]) && !QUOTE.test(lines[i]) && !FENCE.test(lines[i]) && !ITEM.test(lines[i])) {
+      para.push(lines[i++].trim());
+    }
+    blocks.push({ type: 'paragraph', lines: para });
+  }
+  return blocks;
+}
+
+export const parseMarkdown = (md: string) => parseBlocks(String(md || '').replace(/\t/g, '    ').split(/\r?\n/));
+
+export function escapeHtml(s: string) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+const safeUrl = (url: string) => (/^(https?:|mailto:)/i.test(url) ? url : null);
+
+// Code spans and links are swapped for placeholders so emphasis rules never reach inside them
+function inline(text: string, theme: EmailTheme): string {
+  const slots: string[] = [];
+  const keep = (html: string) => `\u0000${slots.push(html) - 1}\u0000`;
+  let s = text
+    .replace(/`([^`]+)`/g, (_, code) => keep(`<code style="font-family:Consolas,Menlo,monospace;background:${theme.codeBackground};padding:1px 4px;border-radius:3px;">${escapeHtml(code)}</code>`))
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (whole, label, url) => {
+      const href = safeUrl(url);
+      return href ? keep(`<a href="${escapeHtml(href)}" style="color:${theme.primaryColor};text-decoration:underline;">${inline(label, theme)}</a>`) : whole;
+    })
+    .replace(/(^|[\s(])(https?:\/\/[^\s<>)]+[^\s<>).,;:!?])/g, (_, lead, url) => lead + keep(`<a href="${escapeHtml(url)}" style="color:${theme.primaryColor};text-decoration:underline;">${escapeHtml(url)}</a>`));
+
+  s = escapeHtml(s)
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/(^|[^*\w])\*(?!\s)(.+?)\*(?!\w)|(^|\W)_(?!\s)(.+?)_(?!\w)/g, (_, l1, a, l2, b) => `${l1 ?? l2}<em>${a ?? b}</em>`)
+    .replace(/~~(.+?)~~/g, '<s>$1</s>');
+  return s.replace(/\u0000(\d+)\u0000/g, (_, n) => slots[Number(n)]);
+}
+
+const HEADING_SIZES = [22, 19, 17, 15, 14, 13];
+
+function blockHtml(b: Block, theme: EmailTheme): string {
+  switch (b.type) {
+    case 'heading':
+      return `<h${b.level} style="margin:18px 0 8px;font-size:${HEADING_SIZES[b.level - 1]}px;line-height:1.3;color:${theme.headingColor};">${inline(b.text, theme)}</h${b.level}>`;
+    case 'paragraph':
+      return `<p style="margin:0 0 12px;line-height:1.55;">${b.lines.map(l => inline(l, theme)).join('<br>')}</p>`;
+    case 'list': {
+      const tag = b.ordered ? 'ol' : 'ul';
+      const start = b.ordered && b.start !== 1 ? ` start="${b.start}"` : '';
+      const items = b.items.map(item => `<li style="margin:0 0 4px;line-height:1.5;">${inline(item.text, theme)}${item.children.map(c => blockHtml(c, theme)).join('')}</li>`).join('');
+      return `<${tag}${start} style="margin:4px 0 12px;padding-left:24px;">${items}</${tag}>`;
+    }
+    case 'quote':
+      return `<blockquote style="margin:0 0 12px;padding:6px 12px;border-left:3px solid ${theme.primaryColor};color:${theme.mutedColor};">${b.blocks.map(c => blockHtml(c, theme)).join('')}</blockquote>`;
+    case 'code':
+      return `<pre style="margin:0 0 12px;padding:10px 12px;background:${theme.codeBackground};border-radius:6px;font-family:Consolas,Menlo,monospace;font-size:13px;white-space:pre-wrap;word-break:break-word;">${escapeHtml(b.text)}</pre>`;
+    case 'hr':
+      return `<hr style="border:none;border-top:1px solid ${theme.borderColor};margin:16px 0;">`;
+  }
+}
+
+export function markdownToHtml(md: string, theme: EmailTheme) {
+  return parseMarkdown(md).map(b => blockHtml(b, theme)).join('\n');
+}
+
+// Emphasis markers dropped, links written as "label (url)"
+function inlineText(text: string) {
+  return text
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, label, url) => (label === url ? url : `${label} (${url})`))
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => a ?? b)
+    .replace(/(^|[^*\w])\*(?!\s)(.+?)\*(?!\w)/g, '$1$2')
+    .replace(/(^|\W)_(?!\s)(.+?)_(?!\w)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1');
+}
+
+function blockText(b: Block, indent = ''): string {
+  switch (b.type) {
+    case 'heading': {
+      const text = inlineText(b.text);
+      return b.level <= 2 ? `${text}\n${(b.level === 1 ? '=' : '-').repeat(Math.min(text.length, 60))}` : text;
+    }
+    case 'paragraph':
+      return b.lines.map(l => indent + inlineText(l)).join('\n');
+    case 'list':
+      return b.items.map((item, n) => {
+        const marker = b.ordered ? `${b.start + n}.` : '-';
+        const children = item.children.map(c => blockText(c, `${indent}${' '.repeat(marker.length + 1)}`)).join('\n');
+        return `${indent}${marker} ${inlineText(item.text)}${children ? `\n${children}` : ''}`;
+      }).join('\n');
+    case 'quote':
+      return b.blocks.map(c => blockText(c)).join('\n\n').split('\n').map(l => `${indent}> ${l}`).join('\n');
+    case 'code':
+      return b.text.split('\n').map(l => `${indent}    ${l}`).join('\n');
+    case 'hr':
+      return `${indent}${'-'.repeat(40)}`;
+  }
+}
+
+export function markdownToText(md: string) {
+  return parseMarkdown(md).map(b => blockText(b)).join('\n\n').trim();
+}
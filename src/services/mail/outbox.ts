@@ -0,0 +1,231 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { emitWebhookEvent } from '../webhooks';
+import { getMailer, mailFrom } from './mailers';
+import { metrics } from '../observability/metrics';
+import { config } from '../../config';
+import { DeliveryPurpose, DeliveryRecord, DeliveryStatus, MailMessage, OutboxEntry } from './types';
+
+type BatchListener = (entries: OutboxEntry[]) => void | Promise<void>;
+
+const listeners: BatchListener[] = [];
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+const settings = () => ({
+  maxAttempts: config().MAIL_MAX_ATTEMPTS,
+  backoffMs: config().MAIL_BACKOFF_MS,
+  backoffMaxMs: config().MAIL_BACKOFF_MAX_MS,
+  pollMs: config().MAIL_POLL_MS,
+  // sent/failed entries stay visible through the delivery API this long
+  retentionMs: config().MAIL_OUTBOX_RETENTION_DAYS * 24 * 3600 * 1000,
+});
+
+const outboxDir = () => path.join(config().STORAGE_TEMP_PATH, 'outbox');
+const file = (id: string) => path.join(outboxDir(), `${id}.json`);
+const isFinal = (status: DeliveryStatus) => status === 'sent' || status === 'failed';
+
+// One JSON file per entry, written then renamed, like the job store
+async function save(entry: OutboxEntry) {
+  await fs.promises.mkdir(outboxDir(), { recursive: true });
+  const tmp = file(entry.id) + '.tmp';
+  await fs.promises.writeFile(tmp, JSON.stringify(entry, null, 2), 'utf8');
+  await fs.promises.rename(tmp, file(entry.id));
+}
+
+async function load(id: string): Promise<OutboxEntry | null> {
+  try {
+    return JSON.parse(await fs.promises.readFile(file(id), 'utf8'));
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return null;
+    throw e;
+  }
+}
+
+async function loadAll(): Promise<OutboxEntry[]> {
+  const dir = outboxDir();
+  if (!fs.existsSync(dir)) return [];
+  const out: OutboxEntry[] = [];
+  for (const f of await fs.promises.readdir(dir)) {
+    if (!f.endsWith('.json')) continue;
+    try { out.push(JSON.parse(await fs.promises.readFile(path.join(dir, f), 'utf8'))); } catch { console.warn('[outbox] skipping unreadable entry', f); }
+  }
+  return out;
+}
+
+export const toDeliveryRecord = ({ message, context, ...rest }: OutboxEntry): DeliveryRecord => ({ ...rest, to: message.to, subject: message.subject });
+
+/**
+ * Register a callback for when every entry of a batch has been sent or has given up.
+ * Runs again if a failed entry is later retried and sent.
+ */
+export function onBatchSettled(listener: BatchListener) {
+  listeners.push(listener);
+}
+
+export interface QueueOptions {
+  purpose: DeliveryPurpose;
+  roomId?: string;
+  context?: Record<string, unknown>;
+  maxAttempts?: number;
+}
+
+/** Persist one outbox entry per message (sharing a batch id) and wake the sender. */
+export async function queueEmails(messages: MailMessage[], opts: QueueOptions): Promise<OutboxEntry[]> {
+  const now = new Date().toISOString();
+  const batchId = crypto.randomUUID();
+  const entries: OutboxEntry[] = [];
+  for (const m of messages) {
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      batchId,
+      purpose: opts.purpose,
+      roomId: opts.roomId,
+      message: { ...m, from: m.from || mailFrom() },
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: opts.maxAttempts || settings().maxAttempts,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+      context: opts.context,
+    };
+    await save(entry);
+    entries.push(entry);
+  }
+  console.log('[outbox] queued', { batchId, purpose: opts.purpose, roomId: opts.roomId, count: entries.length });
+  setImmediate(() => { void tick(); });
+  return entries;
+}
+
+export async function getDelivery(id: string): Promise<DeliveryRecord | null> {
+  const entry = await load(id);
+  return entry ? toDeliveryRecord(entry) : null;
+}
+
+export async function listDeliveries(filter: { roomId?: string; batchId?: string; status?: DeliveryStatus } = {}): Promise<DeliveryRecord[]> {
+  return (await loadAll())
+    .filter(e => (!filter.roomId || e.roomId === filter.roomId) && (!filter.batchId || e.batchId === filter.batchId) && (!filter.status || e.status === filter.status))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(toDeliveryRecord);
+}
+
+/** Delete a room's outbox entries (messages include the summary). Entries being sent right now are left alone. */
+export async function purgeRoomDeliveries(roomId: string): Promise<number> {
+  let removed = 0;
+  for (const e of await loadAll()) {
+    if (e.roomId !== roomId || e.status === 'sending') continue;
+    await fs.promises.unlink(file(e.id)).catch(() => {});
+    removed++;
+  }
+  return removed;
+}
+
+/** Give a failed entry a fresh set of attempts. Returns null when it does not exist or is not failed. */
+export async function retryDelivery(id: string): Promise<DeliveryRecord | null> {
+  const entry = await load(id);
+  if (!entry || entry.status !== 'failed') return null;
+  entry.status = 'pending';
+  entry.attempts = 0;
+  entry.nextAttemptAt = entry.updatedAt = new Date().toISOString();
+  await save(entry);
+  setImmediate(() => { void tick(); });
+  return toDeliveryRecord(entry);
+}
+
+async function notifyIfSettled(batchId: string) {
+  const batch = (await loadAll()).filter(e => e.batchId === batchId);
+  if (!batch.length || !batch.every(e => isFinal(e.status))) return;
+  for (const l of listeners) {
+    try { await l(batch); } catch (e) { console.warn('[outbox] batch listener threw', { batchId }, e); }
+  }
+}
+
+async function attempt(entry: OutboxEntry) {
+  entry.attempts += 1;
+  entry.status = 'sending';
+  entry.updatedAt = new Date().toISOString();
+  await save(entry);
+
+  try {
+    const mailer = getMailer();
+    if (!mailer) throw new Error('no mailer configured (MAIL_BACKEND, RESEND_API_KEY or SMTP_HOST)');
+    const { providerId } = await mailer.send(entry.message);
+    entry.status = 'sent';
+    entry.mailer = mailer.name;
+    entry.providerId = providerId;
+    entry.sentAt = new Date().toISOString();
+    entry.lastError = undefined;
+    metrics.emails.inc({ purpose: entry.purpose, outcome: 'sent' });
+    console.log('[outbox] sent', { id: entry.id, to: entry.message.to, roomId: entry.roomId, mailer: mailer.name, attempts: entry.attempts });
+  } catch (err) {
+    entry.lastError = err instanceof Error ? err.message : String(err);
+    if (entry.attempts < entry.maxAttempts) {
+      const { backoffMs, backoffMaxMs } = settings();
+      const delay = Math.min(backoffMaxMs, backoffMs * 2 ** (entry.attempts - 1));
+      entry.status = 'pending';
+      entry.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      metrics.emails.inc({ purpose: entry.purpose, outcome: 'retry' });
+      console.warn('[outbox] send failed, will retry', { id: entry.id, to: entry.message.to, attempts: entry.attempts, delay, err: entry.lastError });
+    } else {
+      entry.status = 'failed';
+      metrics.emails.inc({ purpose: entry.purpose, outcome: 'failed' });
+      console.error('[outbox] giving up', { id: entry.id, to: entry.message.to, roomId: entry.roomId, attempts: entry.attempts, err: entry.lastError });
+      await emitWebhookEvent('email.failed', entry.roomId, {
+        deliveryId: entry.id, batchId: entry.batchId, purpose: entry.purpose, to: entry.message.to,
+        subject: entry.message.subject, attempts: entry.attempts, error: entry.lastError,
+      });
+    }
+  }
+
+  entry.updatedAt = new Date().toISOString();
+  await save(entry);
+  if (isFinal(entry.status)) await notifyIfSettled(entry.batchId);
+}
+
+// Send every due entry one after the other; purge settled entries past retention
+async function tick() {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const { retentionMs } = settings();
+    const now = Date.now();
+    const entries = await loadAll();
+    for (const e of entries) {
+      if (isFinal(e.status) && now - Date.parse(e.updatedAt) > retentionMs) await fs.promises.unlink(file(e.id)).catch(() => {});
+    }
+    const due = entries
+      .filter(e => e.status === 'pending' && Date.parse(e.nextAttemptAt) <= now)
+      .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt));
+    for (const e of due) await attempt(e);
+  } catch (e) {
+    console.warn('[outbox] tick failed', e);
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Start polling the outbox. Entries left `sending` by a previous process go back to pending,
+ * so a crash mid-send can deliver that message twice but never drops it.
+ */
+export async function startOutboxWorker() {
+  if (timer) return;
+  for (const e of await loadAll()) {
+    if (e.status === 'sending') {
+      e.status = 'pending';
+      e.updatedAt = new Date().toISOString();
+      await save(e);
+      console.log('[outbox] requeued interrupted delivery', { id: e.id, to: e.message.to });
+    }
+  }
+  timer = setInterval(() => { void tick(); }, settings().pollMs);
+  timer.unref();
+  void tick();
+}
+
+export function stopOutboxWorker() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
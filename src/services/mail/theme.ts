@@ -0,0 +1,74 @@
+import fs from 'fs';
+import { config } from '../../config';
+
+// Colors and branding of the summary email; every value ends up inside inline styles
+export interface EmailTheme {
+  brandName: string;
+  // https image shown above the title
+  logoUrl?: string;
+  primaryColor: string;
+  textColor: string;
+  headingColor: string;
+  mutedColor: string;
+  backgroundColor: string;
+  cardColor: string;
+  borderColor: string;
+  codeBackground: string;
+  fontFamily: string;
+}
+
+export const DEFAULT_THEME: EmailTheme = {
+  brandName: 'AgoraX',
+  primaryColor: '#3b5bdb',
+  textColor: '#222222',
+  headingColor: '#111111',
+  mutedColor: '#666666',
+  backgroundColor: '#f6f8fb',
+  cardColor: '#ffffff',
+  borderColor: '#e3e7ee',
+  codeBackground: '#f1f3f5',
+  fontFamily: 'Arial, Helvetica, sans-serif',
+};
+
+const COLOR = /^#[0-9a-f]{3}([0-9a-f]{3})?$/i;
+const FONT = /^[\w\s,'"-]+$/;
+
+// Drop values that could break out of a style attribute
+function sanitize(overrides: Record<string, unknown>): Partial<EmailTheme> {
+  const out: Partial<EmailTheme> = {};
+  for (const [key, value] of Object.entries(overrides)) {
+    if (typeof value !== 'string' || !value.trim() || !(key in DEFAULT_THEME || key === 'logoUrl')) continue;
+    const v = value.trim();
+    if (key === 'logoUrl') { if (/^https:\/\/[^\s"'<>]+$/.test(v)) out.logoUrl = v; }
+    else if (key === 'brandName') out.brandName = v;
+    else if (key === 'fontFamily') { if (FONT.test(v)) out.fontFamily = v; }
+    else if (COLOR.test(v)) (out as Record<string, string>)[key] = v;
+    else console.warn('[mail] ignoring invalid theme value', { key, value: v });
+  }
+  return out;
+}
+
+let cached: EmailTheme | null = null;
+
+/**
+ * Theme from MAIL_THEME_PATH (JSON with any EmailTheme keys) plus MAIL_BRAND_NAME, MAIL_LOGO_URL
+ * and MAIL_PRIMARY_COLOR on top, over the AgoraX defaults.
+ */
+export function emailTheme(): EmailTheme {
+  if (cached) return cached;
+  let fromFile: Record<string, unknown> = {};
+  const { MAIL_THEME_PATH, MAIL_BRAND_NAME, MAIL_LOGO_URL, MAIL_PRIMARY_COLOR } = config();
+  if (MAIL_THEME_PATH) {
+    try {
+      fromFile = JSON.parse(fs.readFileSync(MAIL_THEME_PATH, 'utf8'));
+    } catch (e) {
+      console.warn('[mail] failed to read MAIL_THEME_PATH, using defaults', e instanceof Error ? e.message : e);
+    }
+  }
+  cached = {
+    ...DEFAULT_THEME,
+    ...sanitize(fromFile),
+    ...sanitize({ brandName: MAIL_BRAND_NAME, logoUrl: MAIL_LOGO_URL, primaryColor: MAIL_PRIMARY_COLOR }),
+  };
+  return cached;
+}
@@ -0,0 +1,83 @@
+export type MailerName = 'resend' | 'smtp' | 'file' | 'console';
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  // base64, so outbox entries stay plain JSON
+  content: string;
+}
+
+export interface MailMessage {
+  to: string;
+  // defaults to MAIL_FROM
+  from?: string;
+  subject: string;
+  html: string;
+  text?: string;
+  replyTo?: string;
+  headers?: Record<string, string>;
+  attachments?: MailAttachment[];
+}
+
+export interface SendResult {
+  // id assigned by the provider (Resend id, SMTP Message-ID, file name)
+  providerId?: string;
+}
+
+export interface Mailer {
+  name: MailerName;
+  // false when required settings (API key, host, ...) are missing
+  isConfigured(): boolean;
+  // rejects when the provider did not accept the message
+  send(message: MailMessage): Promise<SendResult>;
+}
+
+// pending: waiting for its (next) attempt; failed: attempts exhausted
+export type DeliveryStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+// What the message is for; batch listeners use it to react to finished sends
+export type DeliveryPurpose = 'summary' | 'chunk-summary' | 'test';
+
+/** One message to one recipient, persisted in the outbox until it is sent or gives up. */
+export interface OutboxEntry {
+  id: string;
+  // entries queued together (one finalize run) share a batch id
+  batchId: string;
+  purpose: DeliveryPurpose;
+  roomId?: string;
+  message: MailMessage & { from: string };
+  status: DeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  // earliest time of the next attempt, ISO string
+  nextAttemptAt: string;
+  lastError?: string;
+  // backend that accepted the message and its id there
+  mailer?: MailerName;
+  providerId?: string;
+  createdAt: string;
+  updatedAt: string;
+  sentAt?: string;
+  // extra data for batch listeners, e.g. the transcript owner
+  context?: Record<string, unknown>;
+}
+
+// Outbox entry without the message body, as returned by the delivery status API
+export interface DeliveryRecord {
+  id: string;
+  batchId: string;
+  purpose: DeliveryPurpose;
+  roomId?: string;
+  to: string;
+  subject: string;
+  status: DeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  mailer?: MailerName;
+  providerId?: string;
+  createdAt: string;
+  updatedAt: string;
+  sentAt?: string;
+}
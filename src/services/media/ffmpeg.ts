@@ -0,0 +1,235 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import ffmpegPath from 'ffmpeg-static';
+import { spawn } from 'child_process';
+import { config } from '../../config';
+
+export class FfmpegError extends Error {
+  constructor(
+    message: string,
+    public readonly binary: string,
+    public readonly exitCode: number | null,
+    public readonly signal: string | null,
+    // last part of stderr, where ffmpeg explains what went wrong
+    public readonly stderr: string,
+    public readonly timedOut = false,
+  ) {
+    super(message);
+    this.name = 'FfmpegError';
+  }
+}
+
+export interface RunOptions {
+  // kill the process after this long; default FFMPEG_TIMEOUT_MS
+  timeoutMs?: number;
+  // short description for logs and errors
+  label?: string;
+}
+
+export interface RunResult {
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+}
+
+const poolSettings = () => ({
+  concurrency: config().FFMPEG_CONCURRENCY,
+  timeoutMs: config().FFMPEG_TIMEOUT_MS,
+});
+
+// keep at most this much stderr/stdout in memory per process
+const MAX_OUTPUT = 256 * 1024;
+const STDERR_IN_ERROR = 2000;
+
+let active = 0;
+const waiting: Array<() => void> = [];
+
+async function acquire() {
+  if (active < poolSettings().concurrency) {
+    active++;
+    return;
+  }
+  await new Promise<void>(resolve => waiting.push(resolve));
+}
+
+function release() {
+  const next = waiting.shift();
+  // hand the slot straight to the next job
+  if (next) next();
+  else active--;
+}
+
+export const ffmpegPoolStats = () => ({ active, queued: waiting.length, concurrency: poolSettings().concurrency });
+
+function ffprobeBinary(): string | null {
+  const custom = config().FFPROBE_PATH;
+  if (custom) return custom;
+  try {
+    // throws on platforms without a bundled binary
+    return require('@ffprobe-installer/ffprobe').path as string;
+  } catch {
+    return null;
+  }
+}
+
+function spawnCaptured(binary: string, args: string[], options: RunOptions): Promise<RunResult> {
+  const timeoutMs = options.timeoutMs ?? poolSettings().timeoutMs;
+  const label = options.label || path.basename(binary);
+  const started = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    child.stdout.on('data', (d: Buffer) => { stdout = (stdout + d.toString()).slice(-MAX_OUTPUT); });
+    child.stderr.on('data', (d: Buffer) => { stderr = (stderr + d.toString()).slice(-MAX_OUTPUT); });
+
+    const timer = timeoutMs > 0 ? setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeoutMs) : null;
+
+    child.once('error', (err) => {
+      if (timer) clearTimeout(timer);
+      reject(new FfmpegError(`${label}: could not start ${binary}: ${err.message}`, binary, null, null, ''));
+    });
+    child.once('close', (code, signal) => {
+      if (timer) clearTimeout(timer);
+      const durationMs = Date.now() - started;
+      if (code === 0) return resolve({ stdout, stderr, durationMs });
+      const tail = stderr.trim().slice(-STDERR_IN_ERROR);
+      const reason = timedOut ? `timed out after ${timeoutMs}ms` : `exited with ${code ?? signal}`;
+      reject(new FfmpegError(`${label}: ${path.basename(binary)} ${reason}${tail ? `: ${tail}` : ''}`, binary, code, signal, tail, timedOut));
+    });
+  });
+}
+
+/**
+ * Run ffmpeg in a child process through the shared pool: at most FFMPEG_CONCURRENCY processes run at
+ * once and each one is killed after FFMPEG_TIMEOUT_MS. Failures reject with an FfmpegError that carries stderr.
+ */
+export async function runFfmpeg(args: string[], options: RunOptions = {}): Promise<RunResult> {
+  if (!ffmpegPath) throw new Error('ffmpeg-static not available');
+  await acquire();
+  try {
+    return await spawnCaptured(ffmpegPath as string, args, { ...options, label: options.label || 'ffmpeg' });
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Run `ffmpeg -version` and `ffprobe -version` (outside the pool, 5 s each) and report the ffmpeg
+ * version line. Rejects when either binary is missing or does not start.
+ */
+export async function checkFfmpegBinaries(): Promise<{ ffmpeg: string; ffprobe: string }> {
+  const probe = ffprobeBinary();
+  if (!ffmpegPath) throw new Error('ffmpeg-static not available');
+  if (!probe) throw new Error('ffprobe not available (set FFPROBE_PATH)');
+  const [ff, fp] = await Promise.all([
+    spawnCaptured(ffmpegPath as string, ['-hide_banner', '-version'], { timeoutMs: 5000, label: 'ffmpeg-check' }),
+    spawnCaptured(probe, ['-hide_banner', '-version'], { timeoutMs: 5000, label: 'ffprobe-check' }),
+  ]);
+  const firstLine = (s: string) => s.split('\n')[0].trim();
+  return { ffmpeg: firstLine(ff.stdout), ffprobe: firstLine(fp.stdout) };
+}
+
+export interface ProbeResult {
+  // container, e.g. "matroska,webm", "ogg", "wav"
+  formatName: string;
+  durationMs: number | null;
+  bitRate: number | null;
+  // first audio stream
+  codec: string | null;
+  sampleRate: number | null;
+  channels: number | null;
+}
+
+/** Container and first audio stream of a file, via ffprobe (FFPROBE_PATH or the bundled binary). */
+export async function probeAudio(filePath: string, options: RunOptions = {}): Promise<ProbeResult> {
+  const binary = ffprobeBinary();
+  if (!binary) throw new Error('ffprobe not available (set FFPROBE_PATH)');
+  await acquire();
+  let out: RunResult;
+  try {
+    out = await spawnCaptured(binary, ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', filePath], { ...options, label: options.label || 'ffprobe' });
+  } finally {
+    release();
+  }
+  const info = JSON.parse(out.stdout || '{}');
+  const audio = (info.streams || []).find((s: any) => s.codec_type === 'audio') || null;
+  const num = (v: unknown) => (v !== undefined && v !== null && Number.isFinite(Number(v)) ? Number(v) : null);
+  const seconds = num(info.format?.duration) ?? num(audio?.duration);
+  return {
+    formatName: String(info.format?.format_name || ''),
+    durationMs: seconds !== null ? Math.round(seconds * 1000) : null,
+    bitRate: num(info.format?.bit_rate),
+    codec: audio?.codec_name || null,
+    sampleRate: num(audio?.sample_rate),
+    channels: num(audio?.channels),
+  };
+}
+
+export type TranscodeFormat = 'wav' | 'flac' | 'opus';
+export const TRANSCODE_FORMATS: TranscodeFormat[] = ['wav', 'flac', 'opus'];
+
+const codecArgs = (): Record<TranscodeFormat, { ext: string; args: string[] }> => ({
+  wav: { ext: 'wav', args: ['-c:a', 'pcm_s16le'] },
+  flac: { ext: 'flac', args: ['-c:a', 'flac'] },
+  // speech-tuned Opus in an Ogg container; ~24 kbit/s is plenty for transcription
+  opus: { ext: 'ogg', args: ['-c:a', 'libopus', '-b:a', config().TRANSCODE_OPUS_BITRATE, '-application', 'voip'] },
+});
+
+export const isTranscodeFormat = (v: unknown): v is TranscodeFormat => typeof v === 'string' && (TRANSCODE_FORMATS as string[]).includes(v);
+
+// TRANSCODE_FORMAT picks what the transcription path converts to (default flac: lossless, about half of WAV)
+export const defaultTranscodeFormat = (): TranscodeFormat => config().TRANSCODE_FORMAT;
+
+export interface TranscodeOptions extends RunOptions {
+  format?: TranscodeFormat;
+  sampleRate?: number;
+  channels?: number;
+  // cut the input: start offset and length
+  startMs?: number;
+  durationMs?: number;
+  // ffmpeg -af filter chain (loudnorm, ...)
+  filter?: string;
+  // defaults to a unique file under STORAGE_TEMP_PATH/transcode
+  outputPath?: string;
+}
+
+/**
+ * Convert an audio file (16 kHz mono by default) and return the output path. The caller owns the
+ * output file; it is removed here only when ffmpeg fails.
+ */
+export async function transcode(inputPath: string, options: TranscodeOptions = {}): Promise<string> {
+  const format = options.format || defaultTranscodeFormat();
+  const codec = codecArgs()[format];
+  let outputPath = options.outputPath;
+  if (!outputPath) {
+    const dir = path.join(config().STORAGE_TEMP_PATH, 'transcode');
+    await fs.promises.mkdir(dir, { recursive: true });
+    outputPath = path.join(dir, `${crypto.randomUUID()}.${codec.ext}`);
+  }
+
+  // libopus only encodes 48/24/16/12/8 kHz
+  const sampleRate = options.sampleRate || 16000;
+  const args = [
+    '-hide_banner', '-loglevel', 'error', '-y', '-i', inputPath,
+    ...(options.startMs ? ['-ss', (options.startMs / 1000).toFixed(3)] : []),
+    ...(options.durationMs ? ['-t', (options.durationMs / 1000).toFixed(3)] : []),
+    ...(options.filter ? ['-af', options.filter] : []),
+    '-vn', '-ar', String(sampleRate), '-ac', String(options.channels || 1),
+    ...codec.args,
+    outputPath,
+  ];
+  try {
+    await runFfmpeg(args, { timeoutMs: options.timeoutMs, label: options.label || `transcode:${format}` });
+  } catch (e) {
+    await fs.promises.unlink(outputPath).catch(() => {});
+    throw e;
+  }
+  return outputPath;
+}
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import { authSummary } from '../../middleware/auth';
+import { checkFfmpegBinaries } from '../media/ffmpeg';
+import { resolveProviderChain } from '../transcription/providers';
+import { getSummarizer } from '../summarization';
+import { mailEnabled } from '../mail';
+import { getAudioArchive, recordingsEnabled } from '../recordings';
+import { config } from '../../config';
+
+export interface CheckResult {
+  ok: boolean;
+  detail?: string;
+  // degraded but still able to serve (e.g. no mailer: summaries are stored, not emailed)
+  warning?: string;
+}
+
+export interface Readiness {
+  ready: boolean;
+  checks: Record<string, CheckResult>;
+}
+
+let ffmpegCache: { at: number; result: CheckResult } | null = null;
+
+// spawning ffmpeg on every probe is wasteful; HEALTH_FFMPEG_CACHE_MS (default 60 s) reuses the last answer
+async function checkFfmpeg(): Promise<CheckResult> {
+  const ttl = config().HEALTH_FFMPEG_CACHE_MS;
+  if (ffmpegCache && Date.now() - ffmpegCache.at < ttl) return ffmpegCache.result;
+  let result: CheckResult;
+  try {
+    const { ffmpeg } = await checkFfmpegBinaries();
+    result = { ok: true, detail: ffmpeg };
+  } catch (e) {
+    result = { ok: false, detail: e instanceof Error ? e.message.slice(0, 300) : String(e) };
+  }
+  ffmpegCache = { at: Date.now(), result };
+  return result;
+}
+
+async function checkStorage(): Promise<CheckResult> {
+  const dir = config().STORAGE_TEMP_PATH;
+  try {
+    await fs.promises.mkdir(dir, { recursive: true });
+    await fs.promises.access(dir, fs.constants.W_OK);
+    return { ok: true };
+  } catch (e) {
+    return { ok: false, detail: `STORAGE_TEMP_PATH is not writable: ${e instanceof Error ? e.message : e}` };
+  }
+}
+
+function checkAuth(): CheckResult {
+  const { mode, apiKeys, jwt } = authSummary();
+  if (mode === 'off') return { ok: true, warning: 'AUTH_MODE=off: the API is open to anyone' };
+  if (!apiKeys && !jwt) return { ok: false, detail: 'no AUTH_API_KEYS/AUTH_ADMIN_KEYS or AUTH_JWT_SECRET; every request would be rejected' };
+  return { ok: true };
+}
+
+function checkTranscription(): CheckResult {
+  try {
+    const chain = resolveProviderChain();
+    const configured = chain.filter(p => p.isConfigured()).map(p => p.name);
+    if (!configured.length) return { ok: false, detail: `no configured transcription provider among ${chain.map(p => p.name).join(', ')}` };
+    return { ok: true, detail: configured.join(', ') };
+  } catch (e) {
+    return { ok: false, detail: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+function checkSummarizer(): CheckResult {
+  const primary = config().SUMMARIZER_PROVIDER;
+  return getSummarizer(primary).isConfigured()
+    ? { ok: true, detail: primary }
+    : { ok: true, warning: `${primary} is not configured; finalize falls back to SUMMARIZER_FALLBACKS` };
+}
+
+function checkRecordings(): CheckResult {
+  if (!recordingsEnabled()) return { ok: true, detail: 'disabled' };
+  try {
+    return { ok: true, detail: getAudioArchive().backend };
+  } catch (e) {
+    return { ok: false, detail: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/**
+ * Readiness: configuration that would make every request fail (auth, transcription provider, storage,
+ * recordings archive) and working ffmpeg/ffprobe binaries. Warnings do not make the service unready.
+ */
+export async function readiness(): Promise<Readiness> {
+  const checks: Record<string, CheckResult> = {
+    storage: await checkStorage(),
+    auth: checkAuth(),
+    transcription: checkTranscription(),
+    summarizer: checkSummarizer(),
+    mail: mailEnabled() ? { ok: true } : { ok: true, warning: 'no mailer configured; summaries are stored but not emailed' },
+    recordings: checkRecordings(),
+    ffmpeg: await checkFfmpeg(),
+  };
+  return { ready: Object.values(checks).every(c => c.ok), checks };
+}
@@ -0,0 +1,3 @@
+export * from './logger';
+export { metrics, registry, timed } from './metrics';
+export { readiness, CheckResult, Readiness } from './health';
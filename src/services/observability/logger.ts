@@ -0,0 +1,144 @@
+import util from 'util';
+import { AsyncLocalStorage } from 'async_hooks';
+import { installLogScrubber, redactDeep, redactText } from '../redaction';
+import { config } from '../../config';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Correlation ids attached to every line logged while handling a request, job or stream
+export interface LogContext {
+  requestId?: string;
+  roomId?: string;
+  jobId?: string;
+  userId?: string;
+}
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+export const currentLogContext = (): LogContext | undefined => storage.getStore();
+
+/** Run `fn` with extra correlation ids; they are inherited by everything it awaits or schedules. */
+export function withLogContext<T>(ctx: LogContext, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...ctx }, fn);
+}
+
+// Add ids learned later (e.g. the room once the route is matched) to the current context
+export function setLogContext(patch: LogContext) {
+  const ctx = storage.getStore();
+  if (ctx) Object.assign(ctx, Object.fromEntries(Object.entries(patch).filter(([, v]) => v !== undefined)));
+}
+
+const minLevel = (): LogLevel => config().LOG_LEVEL;
+const enabled = (level: LogLevel) => LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel());
+
+// Stacks are noisy and can quote request data; LOG_STACKS=true (or LOG_LEVEL=debug) includes them
+const withStacks = () => config().LOG_STACKS || minLevel() === 'debug';
+
+function serializeError(e: Error): Record<string, unknown> {
+  const out: Record<string, unknown> = { name: e.name, message: e.message };
+  const code = (e as any).code ?? (e as any).status;
+  if (code !== undefined) out.code = code;
+  if (withStacks() && e.stack) out.stack = e.stack;
+  return out;
+}
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === 'object' && (Object.getPrototypeOf(v) === Object.prototype || Object.getPrototypeOf(v) === null);
+
+function jsonSafe(value: unknown): unknown {
+  const seen = new WeakSet();
+  return JSON.parse(JSON.stringify(value, (_k, v) => {
+    if (typeof v === 'bigint') return v.toString();
+    if (v instanceof Error) return serializeError(v);
+    if (v && typeof v === 'object') {
+      if (seen.has(v)) return '[Circular]';
+      seen.add(v);
+    }
+    return v;
+  }) ?? 'null');
+}
+
+/**
+ * Turn `console.*('[tag] message', {fields}, err)` into one record. The `[tag]` prefix used across the
+ * codebase becomes `tag`; plain objects are merged into the record, errors land under `err`, anything
+ * else is appended to the message.
+ */
+function toRecord(level: LogLevel, args: unknown[]): Record<string, unknown> {
+  let tag: string | undefined;
+  const text: string[] = [];
+  const fields: Record<string, unknown> = {};
+  args.forEach((arg, i) => {
+    if (i === 0 && typeof arg === 'string') {
+      const m = arg.match(/^\[([\w:.\-]+)\]\s*(.*)$/s);
+      if (m) { tag = m[1]; if (m[2]) text.push(m[2]); } else text.push(arg);
+    } else if (arg instanceof Error) {
+      fields.err = serializeError(arg);
+    } else if (isPlainObject(arg)) {
+      Object.assign(fields, arg);
+    } else {
+      text.push(typeof arg === 'string' ? arg : util.inspect(arg, { depth: 3, breakLength: Infinity }));
+    }
+  });
+  return { time: new Date().toISOString(), level, ...(tag ? { tag } : {}), msg: text.join(' '), ...currentLogContext(), ...fields };
+}
+
+/** Write one JSON line; personal data in string values is masked unless LOG_REDACTION=false. */
+function write(level: LogLevel, record: Record<string, unknown>) {
+  let safe: Record<string, unknown>;
+  try {
+    safe = jsonSafe(record) as Record<string, unknown>;
+  } catch {
+    safe = { time: record.time, level, msg: util.inspect(record, { depth: 3, breakLength: Infinity }) };
+  }
+  if (config().LOG_REDACTION) {
+    const { time, ...rest } = safe;
+    safe = { time, ...redactDeep(rest, 'redact') };
+    if (typeof safe.msg === 'string') safe.msg = redactText(safe.msg, 'redact').text;
+  }
+  const line = JSON.stringify(safe) + '\n';
+  (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(line);
+}
+
+export function log(level: LogLevel, message: string, fields?: Record<string, unknown>) {
+  if (enabled(level)) write(level, toRecord(level, [message, ...(fields ? [fields] : [])]));
+}
+
+/** Logger bound to a tag, for code that prefers `logger.info(msg, fields)` over console calls. */
+export function createLogger(tag: string) {
+  const at = (level: LogLevel) => (message: string, fields?: Record<string, unknown>) => log(level, `[${tag}] ${message}`, fields);
+  return { debug: at('debug'), info: at('info'), warn: at('warn'), error: at('error') };
+}
+
+let installed = false;
+
+/**
+ * Route console.* through the structured logger: one JSON object per line with time, level, tag,
+ * message, correlation ids and fields, filtered by LOG_LEVEL. LOG_FORMAT=text keeps plain console
+ * output (still scrubbed of personal data, see services/redaction).
+ */
+export function installLogging() {
+  if (installed) return;
+  installed = true;
+  if (config().LOG_FORMAT === 'text') {
+    for (const level of LOG_LEVELS) {
+      const original = console[level].bind(console);
+      console[level] = (...args: unknown[]) => { if (enabled(level)) original(...args); };
+    }
+    console.log = console.info;
+    installLogScrubber();
+    return;
+  }
+  const route = (level: LogLevel) => (...args: unknown[]) => {
+    if (!enabled(level)) return;
+    try {
+      write(level, toRecord(level, args));
+    } catch {
+      process.stderr.write(util.format(...args) + '\n');
+    }
+  };
+  console.debug = route('debug');
+  console.log = console.info = route('info');
+  console.warn = route('warn');
+  console.error = route('error');
+}
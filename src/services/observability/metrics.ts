@@ -0,0 +1,63 @@
+import client from 'prom-client';
+import { config } from '../../config';
+
+export const registry = new client.Registry();
+
+// process CPU, memory, event loop lag and GC (METRICS_DEFAULTS=false to leave them out)
+if (config().METRICS_DEFAULTS) {
+  client.collectDefaultMetrics({ register: registry, prefix: 'agorax_' });
+}
+
+// seconds; upstream calls (transcription, LLMs) and finalize runs take much longer than HTTP handlers
+const HTTP_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const UPSTREAM_BUCKETS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120];
+const JOB_BUCKETS = [0.5, 1, 2, 5, 10, 30, 60, 120, 300, 600, 1800];
+
+const counter = (name: string, help: string, labelNames: string[] = []) =>
+  new client.Counter({ name, help, labelNames, registers: [registry] });
+const histogram = (name: string, help: string, labelNames: string[], buckets: number[]) =>
+  new client.Histogram({ name, help, labelNames, buckets, registers: [registry] });
+
+export const metrics = {
+  httpRequestDuration: histogram('agorax_http_request_duration_seconds', 'HTTP requests by matched route and status', ['method', 'route', 'status'], HTTP_BUCKETS),
+
+  // accepted, duplicate, too_small, closed
+  chunksReceived: counter('agorax_chunks_received_total', 'Audio chunk uploads by outcome', ['outcome']),
+  chunkBytes: counter('agorax_chunk_bytes_total', 'Bytes of accepted audio chunks'),
+  // transcribed, skipped, failed
+  chunksProcessed: counter('agorax_chunks_processed_total', 'Chunks that finished processing, by outcome', ['outcome']),
+  chunkRetries: counter('agorax_chunk_transcode_retries_total', 'Chunks resent after a server-side transcode because the provider could not read them'),
+  chunksTranscoded: counter('agorax_chunks_transcoded_total', 'Chunks converted on the server (preprocessing or transcode) before transcription'),
+
+  transcriptionDuration: histogram('agorax_transcription_request_duration_seconds', 'Transcription provider calls (groq, openai, ...)', ['provider', 'outcome'], UPSTREAM_BUCKETS),
+  // status: HTTP status from the provider, or `network`
+  transcriptionErrors: counter('agorax_transcription_errors_total', 'Failed transcription provider calls', ['provider', 'status']),
+
+  // operation: summary (summarizer calls, from finalize and per-chunk summaries)
+  llmDuration: histogram('agorax_llm_request_duration_seconds', 'LLM calls made to summarize (DeepSeek/OpenAI-compatible, Ollama)', ['provider', 'operation', 'outcome'], UPSTREAM_BUCKETS),
+  llmErrors: counter('agorax_llm_errors_total', 'Failed LLM calls', ['provider', 'operation']),
+
+  // outcome: sent, retry (attempt failed, will retry), failed (gave up)
+  emails: counter('agorax_emails_total', 'Email send attempts by purpose and outcome', ['purpose', 'outcome']),
+  webhookDeliveries: counter('agorax_webhook_deliveries_total', 'Webhook delivery attempts by event and outcome', ['event', 'outcome']),
+
+  // metered usage (see services/usage); per-tenant numbers come from GET /api/audio/usage
+  usage: counter('agorax_usage_total', 'Metered usage: audioSeconds, tokens, emails', ['metric']),
+  quotaRejections: counter('agorax_quota_rejections_total', 'Operations refused by a quota or rate limit', ['metric', 'scope']),
+
+  // type="finalize" holds finalize durations (aggregation, summary and email queueing)
+  jobDuration: histogram('agorax_job_duration_seconds', 'Background job attempts by type and outcome', ['type', 'outcome'], JOB_BUCKETS),
+};
+
+/** Time `fn` into `h` with an extra `outcome` label (ok or error); rethrows failures. */
+export async function timed<T>(h: client.Histogram<string>, labels: Record<string, string>, fn: () => Promise<T>): Promise<T> {
+  const end = h.startTimer(labels);
+  try {
+    const out = await fn();
+    end({ outcome: 'ok' });
+    return out;
+  } catch (e) {
+    end({ outcome: 'error' });
+    throw e;
+  }
+}
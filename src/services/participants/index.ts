@@ -0,0 +1,82 @@
+import { getTranscriptStore, ParticipantRecord } from '../store';
+import { resolveParticipantResolvers } from './resolvers';
+import { ParticipantResolverName, ResolvedParticipant } from './types';
+
+export * from './types';
+export * from './resolvers';
+
+export interface RoomParticipant {
+  userId?: string;
+  displayName?: string;
+  email?: string;
+  // true when at least one directory lists this attendee
+  verified: boolean;
+  sources: ParticipantResolverName[];
+}
+
+export interface RoomDirectory {
+  roomId: string;
+  participants: RoomParticipant[];
+  // emails confirmed by a directory; summaries go only to these
+  recipients: string[];
+  // display name for a user id, falling back to the id itself
+  speakerName(userId: string): string;
+}
+
+const sameEmail = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+// Earlier resolvers win; later ones only fill in missing fields of the same attendee
+function mergeInto(list: RoomParticipant[], p: ResolvedParticipant) {
+  const existing = list.find(e => (p.userId && e.userId === p.userId) || sameEmail(p.email, e.email));
+  if (!existing) {
+    list.push({ userId: p.userId, displayName: p.displayName, email: p.email, verified: true, sources: [p.source] });
+    return;
+  }
+  existing.userId = existing.userId || p.userId;
+  existing.displayName = existing.displayName || p.displayName;
+  existing.email = existing.email || p.email;
+  if (!existing.sources.includes(p.source)) existing.sources.push(p.source);
+}
+
+/**
+ * Ask every configured directory (PARTICIPANT_RESOLVERS) who attended a room and merge the answers
+ * with the participants seen by the store. Stored emails come from clients and are never treated as
+ * verified; a failing directory is logged and skipped.
+ */
+export async function resolveRoomParticipants(roomId: string, stored?: ParticipantRecord[]): Promise<RoomDirectory> {
+  const participants: RoomParticipant[] = [];
+  for (const resolver of resolveParticipantResolvers()) {
+    try {
+      const found = await resolver.resolve(roomId);
+      for (const p of found) mergeInto(participants, p);
+      console.log('[participants] resolved', { roomId, resolver: resolver.name, count: found.length });
+    } catch (e) {
+      console.warn('[participants] resolver failed', { roomId, resolver: resolver.name, err: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  const seen = stored ?? (await getTranscriptStore().listParticipants(roomId).catch(() => [] as ParticipantRecord[]));
+  for (const s of seen) {
+    const known = participants.find(p => p.userId === s.userId);
+    if (known) known.displayName = known.displayName || s.displayName;
+    else participants.push({ userId: s.userId, displayName: s.displayName, verified: false, sources: [] });
+  }
+
+  const recipients: string[] = [];
+  for (const p of participants) {
+    if (p.verified && p.email && !recipients.some(r => sameEmail(r, p.email))) recipients.push(p.email);
+  }
+
+  // two people sharing a name keep their id so their turns are not merged
+  const names = new Map<string, string>();
+  for (const p of participants) if (p.userId && p.displayName) names.set(p.userId, p.displayName);
+  const counts = new Map<string, number>();
+  for (const name of names.values()) counts.set(name, (counts.get(name) || 0) + 1);
+  const speakerName = (userId: string) => {
+    const name = names.get(userId);
+    if (!name) return userId;
+    return (counts.get(name) || 0) > 1 ? `${name} (${userId})` : name;
+  };
+
+  return { roomId, participants, recipients, speakerName };
+}
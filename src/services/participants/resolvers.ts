@@ -0,0 +1,207 @@
+import fs from 'fs';
+import path from 'path';
+import { ParticipantResolver, ParticipantResolverName, ResolvedParticipant } from './types';
+import { config } from '../../config';
+
+const trimBase = (base: string) => base.replace(/\/+$/, '');
+const clean = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : undefined);
+const looksLikeEmail = (v: string | undefined) => !!v && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+// directories are consulted while finalizing; never let a slow one hold it up
+const timeout = () => AbortSignal.timeout(config().PARTICIPANTS_TIMEOUT_MS);
+
+// Local path or http(s) URL
+async function readSource(source: string) {
+  if (/^https?:\/\//i.test(source)) {
+    const res = await fetch(source, { signal: timeout() });
+    if (!res.ok) throw new Error(`fetching ${source} failed: ${res.status}`);
+    return res.text();
+  }
+  return fs.promises.readFile(source, 'utf8');
+}
+
+/**
+ * AgoraX meetings API: `${BACKEND_BASE}/api/meetings/:room`. Uses `meeting.participants`
+ * ({ userId|id, name|displayName, email }) when present, else `meeting.participantsEmails`.
+ */
+export function createAgoraxResolver(): ParticipantResolver {
+  const base = config().BACKEND_BASE || '';
+  const token = config().PARTICIPANTS_API_TOKEN || '';
+  return {
+    name: 'agorax',
+    isConfigured: () => !!base,
+    async resolve(roomId) {
+      const url = `${trimBase(base)}/api/meetings/${encodeURIComponent(roomId)}`;
+      const res = await fetch(url, { headers: token ? { Authorization: `Bearer ${token}` } : {}, signal: timeout() });
+      if (res.status === 404) return [];
+      if (!res.ok) throw new Error(`meetings API returned ${res.status}`);
+      const body: any = await res.json();
+      const meeting = body?.meeting || {};
+      if (Array.isArray(meeting.participants) && meeting.participants.length) {
+        return meeting.participants
+          .map((p: any): ResolvedParticipant => ({
+            userId: clean(p?.userId ?? p?.id ?? p?._id),
+            displayName: clean(p?.displayName ?? p?.name),
+            email: clean(p?.email),
+            source: 'agorax',
+          }))
+          .filter((p: ResolvedParticipant) => p.userId || p.email);
+      }
+      const emails: unknown[] = Array.isArray(meeting.participantsEmails) ? meeting.participantsEmails : [];
+      return emails.map(clean).filter(looksLikeEmail).map(email => ({ email, source: 'agorax' as const }));
+    },
+  };
+}
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, commas or semicolons
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  const delimiter = (text.split(/\r?\n/)[0] || '').includes(';') && !(text.split(/\r?\n/)[0] || '').includes(',') ? ';' : ',';
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delimiter) { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(f => f.trim())) rows.push(row);
+      row = [];
+    } else field += ch;
+  }
+  row.push(field);
+  if (row.some(f => f.trim())) rows.push(row);
+  return rows;
+}
+
+interface RosterEntry {
+  roomId?: string;
+  userId?: string;
+  displayName?: string;
+  email?: string;
+}
+
+/**
+ * Static roster from PARTICIPANTS_ROSTER_PATH (path or URL). JSON: an array of
+ * { roomId?, userId?, displayName|name?, email? } or an object keyed by room id; CSV: a header row
+ * with roomId (optional), userId, displayName or name, email. Entries without roomId apply to every room.
+ */
+export function createRosterResolver(): ParticipantResolver {
+  const source = config().PARTICIPANTS_ROSTER_PATH || '';
+
+  const load = async (): Promise<RosterEntry[]> => {
+    const text = await readSource(source);
+    if (path.extname(source.split('?')[0]).toLowerCase() === '.csv' || !/^\s*[[{]/.test(text)) {
+      const [header, ...rows] = parseCsv(text);
+      const col = (names: string[]) => header.findIndex(h => names.includes(h.trim().toLowerCase()));
+      const idx = { roomId: col(['roomid', 'room']), userId: col(['userid', 'user', 'id']), displayName: col(['displayname', 'name']), email: col(['email', 'mail']) };
+      const at = (r: string[], i: number) => (i >= 0 ? clean(r[i]) : undefined);
+      return rows.map(r => ({ roomId: at(r, idx.roomId), userId: at(r, idx.userId), displayName: at(r, idx.displayName), email: at(r, idx.email) }));
+    }
+    const json = JSON.parse(text);
+    const toEntry = (e: any, roomId?: string): RosterEntry => ({
+      roomId: clean(e?.roomId) || roomId,
+      userId: clean(e?.userId ?? e?.id),
+      displayName: clean(e?.displayName ?? e?.name),
+      email: clean(e?.email),
+    });
+    if (Array.isArray(json)) return json.map(e => toEntry(e));
+    return Object.entries(json).flatMap(([roomId, list]) => (Array.isArray(list) ? list.map(e => toEntry(e, roomId)) : []));
+  };
+
+  return {
+    name: 'roster',
+    isConfigured: () => !!source,
+    async resolve(roomId) {
+      return (await load())
+        .filter(e => (!e.roomId || e.roomId === roomId) && (e.userId || e.email))
+        .map(({ roomId: _room, ...e }) => ({ ...e, email: looksLikeEmail(e.email) ? e.email : undefined, source: 'roster' as const }));
+    },
+  };
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Unfold continuation lines and split each content line into name, parameters and value
+function parseIcsLines(text: string): IcsProperty[] {
+  const unfolded = text.replace(/\r?\n[ \t]/g, '');
+  return unfolded.split(/\r?\n/).filter(Boolean).map(line => {
+    const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+    const head = colon >= 0 ? line.slice(0, colon) : line;
+    const value = colon >= 0 ? line.slice(colon + 1) : '';
+    const [name, ...rawParams] = head.split(';');
+    const params: Record<string, string> = {};
+    for (const p of rawParams) {
+      const eq = p.indexOf('=');
+      if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+    return { name: name.toUpperCase(), params, value };
+  });
+}
+
+/**
+ * Calendar file from PARTICIPANTS_ICS_PATH (path or URL). The event for a room is the one whose
+ * X-AGORAX-ROOM or UID equals the room id, or whose URL/LOCATION/DESCRIPTION mentions it;
+ * its ATTENDEE and ORGANIZER entries (CN and mailto) become the participants.
+ */
+export function createIcsResolver(): ParticipantResolver {
+  const source = config().PARTICIPANTS_ICS_PATH || '';
+  return {
+    name: 'ics',
+    isConfigured: () => !!source,
+    async resolve(roomId) {
+      const props = parseIcsLines(await readSource(source));
+      const events: IcsProperty[][] = [];
+      let current: IcsProperty[] | null = null;
+      for (const p of props) {
+        if (p.name === 'BEGIN' && p.value.toUpperCase() === 'VEVENT') current = [];
+        else if (p.name === 'END' && p.value.toUpperCase() === 'VEVENT') { if (current) events.push(current); current = null; }
+        else if (current) current.push(p);
+      }
+
+      const value = (event: IcsProperty[], name: string) => event.find(p => p.name === name)?.value || '';
+      const exact = events.find(e => value(e, 'X-AGORAX-ROOM') === roomId || value(e, 'UID') === roomId);
+      const mentioned = events.find(e => ['URL', 'LOCATION', 'DESCRIPTION'].some(n => value(e, n).includes(roomId)));
+      const event = exact || mentioned;
+      if (!event) return [];
+
+      const seen = new Set<string>();
+      return event
+        .filter(p => p.name === 'ATTENDEE' || p.name === 'ORGANIZER')
+        .map(p => ({ email: clean(p.value.replace(/^mailto:/i, '')), displayName: clean(p.params.CN), source: 'ics' as const }))
+        .filter(p => looksLikeEmail(p.email) && !seen.has(p.email!.toLowerCase()) && seen.add(p.email!.toLowerCase()));
+    },
+  };
+}
+
+const factories: Record<ParticipantResolverName, () => ParticipantResolver> = {
+  'agorax': createAgoraxResolver,
+  'roster': createRosterResolver,
+  'ics': createIcsResolver,
+};
+
+export function isParticipantResolverName(name: unknown): name is ParticipantResolverName {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(factories, name);
+}
+
+/**
+ * Resolvers from PARTICIPANT_RESOLVERS (comma-separated, default `agorax,roster,ics`),
+ * skipping unconfigured ones.
+ */
+export function resolveParticipantResolvers(): ParticipantResolver[] {
+  const out: ParticipantResolver[] = [];
+  for (const name of config().PARTICIPANT_RESOLVERS) {
+    const resolver = factories[name]();
+    if (resolver.isConfigured() && !out.some(r => r.name === name)) out.push(resolver);
+  }
+  return out;
+}
@@ -0,0 +1,18 @@
+export type ParticipantResolverName = 'agorax' | 'roster' | 'ics';
+
+// One attendee as known to an external directory; at least one of userId/email is set
+export interface ResolvedParticipant {
+  userId?: string;
+  displayName?: string;
+  email?: string;
+  // resolver that supplied the entry
+  source: ParticipantResolverName;
+}
+
+export interface ParticipantResolver {
+  name: ParticipantResolverName;
+  // false when required settings (base URL, file path) are missing
+  isConfigured(): boolean;
+  // attendees of the room; empty when the directory does not know it. Errors are thrown.
+  resolve(roomId: string): Promise<ResolvedParticipant[]>;
+}
@@ -0,0 +1,135 @@
+import { config } from '../config';
+import { runFfmpeg, transcode } from './media/ffmpeg';
+
+export type SkipReason = 'silent' | 'no-speech';
+
+export interface AudioAnalysis {
+  durationMs: number;
+  // duration minus detected silences
+  speechMs: number;
+  maxVolumeDb: number | null;
+  // silence intervals in ms from the start of the file
+  silences: Array<{ startMs: number; endMs: number }>;
+}
+
+export interface PreprocessResult {
+  // file to send for transcription: the original, or a trimmed/normalized 16 kHz copy (TRANSCODE_FORMAT)
+  filePath: string;
+  durationMs: number | null;
+  speechMs: number | null;
+  // length of `filePath` after trimming; what the provider bills for (null when unknown)
+  sentMs: number | null;
+  // leading silence cut from the file; add it to the chunk offset so timestamps stay aligned
+  trimmedStartMs: number;
+  normalized: boolean;
+  skipped: boolean;
+  skipReason?: SkipReason;
+  // files created here, to delete once transcription is done
+  tempFiles: string[];
+}
+
+const settings = () => ({
+  enabled: config().AUDIO_PREPROCESS,
+  // anything quieter than this counts as silence
+  silenceDb: config().SILENCE_THRESHOLD_DB,
+  // shorter pauses are not reported as silence
+  silenceMinMs: config().SILENCE_MIN_MS,
+  // chunks with less detected speech are not transcribed
+  minSpeechMs: config().MIN_SPEECH_MS,
+  normalize: config().AUDIO_NORMALIZE,
+  targetLufs: config().LOUDNORM_TARGET_LUFS,
+});
+
+// silence kept around speech when trimming, so first/last words are not clipped
+const PAD_MS = 200;
+
+const clockToMs = (clock: string) => {
+  const [h, m, s] = clock.split(':').map(Number);
+  return Math.round(((h * 60 + m) * 60 + s) * 1000);
+};
+
+/**
+ * Run ffmpeg's silencedetect and volumedetect filters over a file. MediaRecorder chunks often
+ * carry no duration in their header, so the duration comes from ffmpeg's last progress line.
+ */
+export async function analyzeAudio(filePath: string, silenceDb: number, silenceMinMs: number): Promise<AudioAnalysis> {
+  const { stderr } = await runFfmpeg([
+    '-hide_banner', '-i', filePath,
+    '-af', `silencedetect=noise=${silenceDb}dB:d=${silenceMinMs / 1000},volumedetect`,
+    '-f', 'null', '-',
+  ], { label: 'silencedetect' });
+
+  const times = Array.from(stderr.matchAll(/time=(\d+:\d+:\d+(?:\.\d+)?)/g)).map(m => clockToMs(m[1]));
+  const header = stderr.match(/Duration: (\d+:\d+:\d+(?:\.\d+)?)/);
+  const durationMs = times.length ? times[times.length - 1] : header ? clockToMs(header[1]) : 0;
+
+  const silences: AudioAnalysis['silences'] = [];
+  let openStart: number | null = null;
+  for (const m of stderr.matchAll(/silence_(start|end): (-?[\d.]+)/g)) {
+    const ms = Math.max(0, Math.round(Number(m[2]) * 1000));
+    if (m[1] === 'start') openStart = ms;
+    else if (openStart !== null) { silences.push({ startMs: openStart, endMs: ms }); openStart = null; }
+  }
+  // silence that runs to the end of the file has no silence_end line
+  if (openStart !== null) silences.push({ startMs: openStart, endMs: Math.max(openStart, durationMs) });
+
+  const silentMs = silences.reduce((sum, s) => sum + (s.endMs - s.startMs), 0);
+  const maxVolume = stderr.match(/max_volume: (-?[\d.]+|-inf) dB/);
+  return {
+    durationMs,
+    speechMs: Math.max(0, durationMs - silentMs),
+    maxVolumeDb: maxVolume ? (maxVolume[1] === '-inf' ? -Infinity : Number(maxVolume[1])) : null,
+    silences,
+  };
+}
+
+/**
+ * Prepare an uploaded chunk for transcription: detect silence, skip chunks without speech (Whisper
+ * invents text on those), cut leading/trailing silence and normalize loudness. Internal pauses are
+ * kept so provider timestamps still line up with the chunk. Analysis errors fall back to the original file.
+ */
+export async function preprocessChunk(filePath: string): Promise<PreprocessResult> {
+  const cfg = settings();
+  const passthrough: PreprocessResult = { filePath, durationMs: null, speechMs: null, sentMs: null, trimmedStartMs: 0, normalized: false, skipped: false, tempFiles: [] };
+  if (!cfg.enabled) return passthrough;
+
+  let analysis: AudioAnalysis;
+  try {
+    analysis = await analyzeAudio(filePath, cfg.silenceDb, cfg.silenceMinMs);
+  } catch (e) {
+    console.warn('[preprocess] analysis failed, sending original audio', { filePath, err: e instanceof Error ? e.message : String(e) });
+    return passthrough;
+  }
+  const { durationMs, speechMs, maxVolumeDb, silences } = analysis;
+  const base = { ...passthrough, durationMs, speechMs, sentMs: durationMs };
+
+  if (maxVolumeDb !== null && maxVolumeDb < cfg.silenceDb) {
+    console.log('[preprocess] skipping silent chunk', { filePath, durationMs, maxVolumeDb });
+    return { ...base, speechMs: 0, skipped: true, skipReason: 'silent' };
+  }
+  if (speechMs < cfg.minSpeechMs) {
+    console.log('[preprocess] skipping chunk without speech', { filePath, durationMs, speechMs });
+    return { ...base, skipped: true, skipReason: 'no-speech' };
+  }
+
+  const leading = silences.find(s => s.startMs <= 50);
+  const trailing = silences.find(s => s.endMs >= durationMs - 50 && s !== leading);
+  const startMs = leading ? Math.max(0, leading.endMs - PAD_MS) : 0;
+  const endMs = trailing ? Math.min(durationMs, trailing.startMs + PAD_MS) : durationMs;
+  if (!cfg.normalize && startMs === 0 && endMs >= durationMs) return base;
+
+  let outPath: string;
+  try {
+    outPath = await transcode(filePath, {
+      startMs,
+      durationMs: endMs - startMs,
+      filter: cfg.normalize ? `loudnorm=I=${cfg.targetLufs}:TP=-1.5:LRA=11` : undefined,
+      label: 'preprocess',
+    });
+  } catch (e) {
+    console.warn('[preprocess] trim/normalize failed, sending original audio', { filePath, err: e instanceof Error ? e.message : String(e) });
+    return base;
+  }
+  console.log('[preprocess] prepared chunk', { filePath, durationMs, speechMs, trimmedStartMs: startMs, trimmedEndMs: durationMs - endMs, normalized: cfg.normalize });
+  return { ...base, filePath: outPath, sentMs: endMs - startMs, trimmedStartMs: startMs, normalized: cfg.normalize, tempFiles: [outPath] };
+}
@@ -0,0 +1,218 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { config } from '../../config';
+import { DeleteObjectCommand, GetObjectCommand, HeadObjectCommand, ListObjectsV2Command, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+
+export interface ArchiveObject {
+  key: string;
+  size: number;
+  updatedAt: string;
+}
+
+export interface ByteRange {
+  start: number;
+  // inclusive, like the HTTP Range header
+  end: number;
+}
+
+/**
+ * Where retained chunks and assembled recordings live. Keys are slash-separated paths
+ * such as `rooms/<room>/chunks/<user>/<file>`.
+ */
+export interface AudioArchive {
+  readonly backend: 'local' | 's3';
+  putFile(key: string, filePath: string, contentType?: string): Promise<void>;
+  putJson(key: string, value: unknown): Promise<void>;
+  getJson<T>(key: string): Promise<T | null>;
+  stat(key: string): Promise<ArchiveObject | null>;
+  // whole object or one byte range
+  read(key: string, range?: ByteRange): Promise<Readable>;
+  // copy an object to a local file (ffmpeg needs real paths)
+  download(key: string, filePath: string): Promise<void>;
+  list(prefix: string): Promise<ArchiveObject[]>;
+  delete(key: string): Promise<void>;
+}
+
+// Keys are built from room/user ids; keep them from escaping their prefix
+export const safeKeyPart = (s: string) => encodeURIComponent(s).replace(/\./g, '%2E');
+
+export function createLocalArchive(rootDir: string): AudioArchive {
+  const full = (key: string) => {
+    const p = path.resolve(rootDir, key);
+    if (!p.startsWith(path.resolve(rootDir) + path.sep)) throw new Error(`invalid archive key ${key}`);
+    return p;
+  };
+  const statOf = async (key: string): Promise<ArchiveObject | null> => {
+    try {
+      const st = await fs.promises.stat(full(key));
+      return st.isFile() ? { key, size: st.size, updatedAt: st.mtime.toISOString() } : null;
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return null;
+      throw e;
+    }
+  };
+
+  return {
+    backend: 'local',
+
+    async putFile(key, filePath) {
+      await fs.promises.mkdir(path.dirname(full(key)), { recursive: true });
+      // rename is free on the same filesystem; copy otherwise
+      await fs.promises.rename(filePath, full(key)).catch(async () => {
+        await fs.promises.copyFile(filePath, full(key));
+        await fs.promises.unlink(filePath).catch(() => {});
+      });
+    },
+
+    async putJson(key, value) {
+      await fs.promises.mkdir(path.dirname(full(key)), { recursive: true });
+      const tmp = `${full(key)}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmp, JSON.stringify(value, null, 2), 'utf8');
+      await fs.promises.rename(tmp, full(key));
+    },
+
+    async getJson<T>(key: string) {
+      try {
+        return JSON.parse(await fs.promises.readFile(full(key), 'utf8')) as T;
+      } catch (e: any) {
+        if (e?.code === 'ENOENT') return null;
+        throw e;
+      }
+    },
+
+    stat: statOf,
+
+    async read(key, range) {
+      return fs.createReadStream(full(key), range ? { start: range.start, end: range.end } : undefined);
+    },
+
+    async download(key, filePath) {
+      await fs.promises.copyFile(full(key), filePath);
+    },
+
+    async list(prefix) {
+      const out: ArchiveObject[] = [];
+      const walk = async (dir: string) => {
+        let entries: fs.Dirent[] = [];
+        try { entries = await fs.promises.readdir(dir, { withFileTypes: true }); } catch (e: any) { if (e?.code === 'ENOENT') return; throw e; }
+        for (const entry of entries) {
+          const p = path.join(dir, entry.name);
+          if (entry.isDirectory()) await walk(p);
+          else if (!entry.name.endsWith('.tmp')) {
+            const key = path.relative(rootDir, p).split(path.sep).join('/');
+            const st = await statOf(key);
+            if (st) out.push(st);
+          }
+        }
+      };
+      await walk(path.join(rootDir, prefix));
+      return out.sort((a, b) => a.key.localeCompare(b.key));
+    },
+
+    async delete(key) {
+      await fs.promises.rm(full(key), { force: true });
+    },
+  };
+}
+
+/**
+ * Any S3-compatible object store (AWS, MinIO, R2, ...). RECORDINGS_S3_ENDPOINT is optional for AWS;
+ * credentials come from RECORDINGS_S3_ACCESS_KEY_ID/SECRET_ACCESS_KEY or the default AWS chain.
+ */
+export function createS3Archive(bucket: string, prefix = ''): AudioArchive {
+  const c = config();
+  const client = new S3Client({
+    region: c.RECORDINGS_S3_REGION,
+    endpoint: c.RECORDINGS_S3_ENDPOINT,
+    forcePathStyle: c.RECORDINGS_S3_FORCE_PATH_STYLE,
+    credentials: c.RECORDINGS_S3_ACCESS_KEY_ID
+      ? { accessKeyId: c.RECORDINGS_S3_ACCESS_KEY_ID, secretAccessKey: c.RECORDINGS_S3_SECRET_ACCESS_KEY || '' }
+      : undefined,
+  });
+  const full = (key: string) => (prefix ? `${prefix.replace(/\/+$/, '')}/${key}` : key);
+  const strip = (key: string) => (prefix ? key.slice(prefix.replace(/\/+$/, '').length + 1) : key);
+  const isMissing = (e: any) => e?.name === 'NoSuchKey' || e?.name === 'NotFound' || e?.$metadata?.httpStatusCode === 404;
+
+  const body = async (key: string, range?: ByteRange) => {
+    const res = await client.send(new GetObjectCommand({ Bucket: bucket, Key: full(key), Range: range ? `bytes=${range.start}-${range.end}` : undefined }));
+    return res.Body as Readable;
+  };
+
+  return {
+    backend: 's3',
+
+    async putFile(key, filePath, contentType) {
+      const size = (await fs.promises.stat(filePath)).size;
+      await client.send(new PutObjectCommand({ Bucket: bucket, Key: full(key), Body: fs.createReadStream(filePath), ContentLength: size, ContentType: contentType }));
+      await fs.promises.unlink(filePath).catch(() => {});
+    },
+
+    async putJson(key, value) {
+      await client.send(new PutObjectCommand({ Bucket: bucket, Key: full(key), Body: JSON.stringify(value, null, 2), ContentType: 'application/json' }));
+    },
+
+    async getJson<T>(key: string) {
+      try {
+        const res = await client.send(new GetObjectCommand({ Bucket: bucket, Key: full(key) }));
+        return JSON.parse(await (res.Body as any).transformToString()) as T;
+      } catch (e) {
+        if (isMissing(e)) return null;
+        throw e;
+      }
+    },
+
+    async stat(key) {
+      try {
+        const res = await client.send(new HeadObjectCommand({ Bucket: bucket, Key: full(key) }));
+        return { key, size: res.ContentLength || 0, updatedAt: (res.LastModified || new Date()).toISOString() };
+      } catch (e) {
+        if (isMissing(e)) return null;
+        throw e;
+      }
+    },
+
+    read: body,
+
+    async download(key, filePath) {
+      await pipeline(await body(key), fs.createWriteStream(filePath));
+    },
+
+    async list(listPrefix) {
+      const out: ArchiveObject[] = [];
+      let token: string | undefined;
+      do {
+        const res = await client.send(new ListObjectsV2Command({ Bucket: bucket, Prefix: full(listPrefix), ContinuationToken: token }));
+        for (const o of res.Contents || []) {
+          if (o.Key) out.push({ key: strip(o.Key), size: o.Size || 0, updatedAt: (o.LastModified || new Date()).toISOString() });
+        }
+        token = res.IsTruncated ? res.NextContinuationToken : undefined;
+      } while (token);
+      return out;
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: full(key) }));
+    },
+  };
+}
+
+let archive: AudioArchive | null = null;
+
+/**
+ * Shared archive selected by RECORDINGS_STORE (`local` default, or `s3` with RECORDINGS_S3_BUCKET).
+ * The local archive lives under RECORDINGS_DIR (default STORAGE_TEMP_PATH/recordings).
+ */
+export function getAudioArchive(): AudioArchive {
+  if (archive) return archive;
+  const c = config();
+  if (c.RECORDINGS_STORE === 's3') {
+    if (!c.RECORDINGS_S3_BUCKET) throw new Error('RECORDINGS_S3_BUCKET is required when RECORDINGS_STORE=s3');
+    archive = createS3Archive(c.RECORDINGS_S3_BUCKET, c.RECORDINGS_S3_PREFIX);
+  } else {
+    archive = createLocalArchive(c.RECORDINGS_DIR || path.join(c.STORAGE_TEMP_PATH, 'recordings'));
+  }
+  console.log('[recordings] archive ready', { backend: archive.backend });
+  return archive;
+}
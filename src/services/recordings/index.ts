@@ -0,0 +1,237 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { withLock } from '../../utils/lock';
+import { probeAudio, runFfmpeg } from '../media/ffmpeg';
+import { getAudioArchive, safeKeyPart } from './archive';
+import { config } from '../../config';
+
+export * from './archive';
+
+// One uploaded chunk kept in the archive
+export interface ArchivedChunk {
+  chunkId: string;
+  userId: string;
+  seq?: number;
+  // chunk start in meeting time
+  offsetMs: number;
+  receivedAt: string;
+  key: string;
+  size: number;
+}
+
+export interface RecordingInfo {
+  // `room` for the mixed-down recording, otherwise the participant's user id
+  name: string;
+  userId: string | null;
+  key: string;
+  size: number;
+  // meeting time at which the recording starts
+  startOffsetMs: number;
+  durationMs: number | null;
+  createdAt: string;
+}
+
+export interface RecordingManifest {
+  roomId: string;
+  createdAt: string;
+  updatedAt: string;
+  chunks: ArchivedChunk[];
+  recordings: RecordingInfo[];
+}
+
+export interface AssembleRecordingPayload {
+  roomId: string;
+}
+
+// AUDIO_RETENTION=true keeps uploaded chunks instead of deleting them after transcription
+export const recordingsEnabled = () => config().AUDIO_RETENTION;
+
+const roomPrefix = (roomId: string) => `rooms/${safeKeyPart(roomId)}/`;
+const manifestKey = (roomId: string) => `${roomPrefix(roomId)}manifest.json`;
+
+export const getRecordingManifest = (roomId: string) => getAudioArchive().getJson<RecordingManifest>(manifestKey(roomId));
+
+function updateManifest(roomId: string, change: (m: RecordingManifest) => void) {
+  return withLock(`recordings:${roomId}`, async () => {
+    const archive = getAudioArchive();
+    const now = new Date().toISOString();
+    const manifest = (await archive.getJson<RecordingManifest>(manifestKey(roomId))) || { roomId, createdAt: now, updatedAt: now, chunks: [], recordings: [] };
+    change(manifest);
+    manifest.updatedAt = now;
+    await archive.putJson(manifestKey(roomId), manifest);
+    return manifest;
+  });
+}
+
+/**
+ * Move a transcribed (or skipped) chunk into the archive. The local file is consumed either way;
+ * archive errors are logged, never thrown, so transcription results are not lost over them.
+ */
+export async function archiveChunk(chunk: Omit<ArchivedChunk, 'key' | 'size'> & { roomId: string; filePath: string }) {
+  const { roomId, filePath } = chunk;
+  try {
+    const size = (await fs.promises.stat(filePath)).size;
+    const name = `${chunk.seq !== undefined ? String(chunk.seq).padStart(6, '0') : chunk.receivedAt.replace(/[:.]/g, '-')}-${chunk.chunkId}${path.extname(filePath) || '.webm'}`;
+    const key = `${roomPrefix(roomId)}chunks/${safeKeyPart(chunk.userId)}/${name}`;
+    await getAudioArchive().putFile(key, filePath, 'audio/webm');
+    await updateManifest(roomId, m => {
+      m.chunks = m.chunks.filter(c => c.chunkId !== chunk.chunkId);
+      m.chunks.push({ chunkId: chunk.chunkId, userId: chunk.userId, seq: chunk.seq, offsetMs: chunk.offsetMs, receivedAt: chunk.receivedAt, key, size });
+    });
+  } catch (e) {
+    console.warn('[recordings] failed to archive chunk', { roomId, chunkId: chunk.chunkId, err: e instanceof Error ? e.message : String(e) });
+    await fs.promises.unlink(filePath).catch(() => {});
+  }
+}
+
+// Place every input at its delay (ms) on one timeline and mix them into a mono Opus file
+async function mixAtOffsets(inputs: Array<{ path: string; delayMs: number }>, outPath: string) {
+  const filters = inputs.map((input, i) => `[${i}:a]aresample=48000,aformat=channel_layouts=mono,adelay=${Math.max(0, Math.round(input.delayMs))}:all=1[a${i}]`);
+  const labels = inputs.map((_, i) => `[a${i}]`).join('');
+  const mix = inputs.length > 1 ? `${labels}amix=inputs=${inputs.length}:normalize=0:duration=longest[out]` : `${labels}anull[out]`;
+  await runFfmpeg([
+    '-hide_banner', '-loglevel', 'error', '-y',
+    ...inputs.flatMap(input => ['-i', input.path]),
+    '-filter_complex', [...filters, mix].join(';'),
+    '-map', '[out]', '-c:a', 'libopus', '-b:a', config().RECORDING_OPUS_BITRATE, outPath,
+  ], { label: 'assemble-recording', timeoutMs: config().RECORDING_ASSEMBLE_TIMEOUT_MS });
+}
+
+async function durationOf(filePath: string) {
+  try {
+    return (await probeAudio(filePath)).durationMs;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build one recording per participant (chunks placed at their meeting offsets, gaps left silent)
+ * and a mixed-down room recording, then store them next to the chunks.
+ */
+export async function assembleRecordings(payload: AssembleRecordingPayload): Promise<{ recordings: RecordingInfo[] }> {
+  const { roomId } = payload;
+  const archive = getAudioArchive();
+  const manifest = await getRecordingManifest(roomId);
+  if (!manifest?.chunks.length) throw new Error(`No archived audio for room ${roomId}`);
+
+  const workDir = path.join(config().STORAGE_TEMP_PATH, `assemble-${crypto.randomUUID()}`);
+  await fs.promises.mkdir(workDir, { recursive: true });
+  try {
+    const byUser = new Map<string, ArchivedChunk[]>();
+    for (const c of manifest.chunks) {
+      if (!byUser.has(c.userId)) byUser.set(c.userId, []);
+      byUser.get(c.userId)!.push(c);
+    }
+
+    const now = new Date().toISOString();
+    const recordings: RecordingInfo[] = [];
+    const tracks: Array<{ path: string; delayMs: number }> = [];
+    const roomStart = Math.min(...manifest.chunks.map(c => c.offsetMs));
+
+    for (const [userId, chunks] of byUser) {
+      chunks.sort((a, b) => a.offsetMs - b.offsetMs || (a.seq ?? 0) - (b.seq ?? 0));
+      const start = chunks[0].offsetMs;
+      const inputs: Array<{ path: string; delayMs: number }> = [];
+      for (const [i, c] of chunks.entries()) {
+        const local = path.join(workDir, `${safeKeyPart(userId)}-${i}${path.extname(c.key)}`);
+        await archive.download(c.key, local);
+        inputs.push({ path: local, delayMs: c.offsetMs - start });
+      }
+      const trackPath = path.join(workDir, `${safeKeyPart(userId)}.ogg`);
+      await mixAtOffsets(inputs, trackPath);
+      tracks.push({ path: trackPath, delayMs: start - roomStart });
+
+      const key = `${roomPrefix(roomId)}recordings/participants/${safeKeyPart(userId)}.ogg`;
+      const durationMs = await durationOf(trackPath);
+      const size = (await fs.promises.stat(trackPath)).size;
+      // keep a copy for the room mixdown; putFile consumes its input
+      const upload = trackPath + '.upload';
+      await fs.promises.copyFile(trackPath, upload);
+      await archive.putFile(key, upload, 'audio/ogg');
+      recordings.push({ name: userId, userId, key, size, startOffsetMs: start, durationMs, createdAt: now });
+    }
+
+    const roomPath = path.join(workDir, 'room.ogg');
+    await mixAtOffsets(tracks, roomPath);
+    const roomKey = `${roomPrefix(roomId)}recordings/room.ogg`;
+    const roomRecording: RecordingInfo = {
+      name: 'room', userId: null, key: roomKey, size: (await fs.promises.stat(roomPath)).size,
+      startOffsetMs: roomStart, durationMs: await durationOf(roomPath), createdAt: now,
+    };
+    await archive.putFile(roomKey, roomPath, 'audio/ogg');
+    recordings.push(roomRecording);
+
+    await updateManifest(roomId, m => { m.recordings = recordings; });
+    console.log('[recordings] assembled', { roomId, participants: byUser.size, chunks: manifest.chunks.length });
+    return { recordings };
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Delete a room's archived audio, or only one participant's chunks and recording. The mixed-down room
+ * recording carries every voice, so it goes too. Returns the number of objects removed.
+ */
+export async function deleteRoomRecordings(roomId: string, userId?: string): Promise<number> {
+  const archive = getAudioArchive();
+  return withLock(`recordings:${roomId}`, async () => {
+    const objects = await archive.list(roomPrefix(roomId));
+    if (!objects.length) return 0;
+    if (!userId) {
+      for (const o of objects) await archive.delete(o.key);
+      return objects.length;
+    }
+    const own = [`${roomPrefix(roomId)}chunks/${safeKeyPart(userId)}/`, `${roomPrefix(roomId)}recordings/`];
+    const doomed = objects.filter(o => own.some(p => o.key.startsWith(p)));
+    for (const o of doomed) await archive.delete(o.key);
+    const manifest = await archive.getJson<RecordingManifest>(manifestKey(roomId));
+    if (manifest) {
+      manifest.chunks = manifest.chunks.filter(c => c.userId !== userId);
+      manifest.recordings = [];
+      manifest.updatedAt = new Date().toISOString();
+      await archive.putJson(manifestKey(roomId), manifest);
+    }
+    return doomed.length;
+  });
+}
+
+/**
+ * Delete archived rooms whose manifest was last updated more than RECORDING_RETENTION_DAYS ago
+ * (default 30; 0 keeps recordings forever). Returns the purged room ids.
+ */
+export async function sweepRecordings(now = Date.now()): Promise<string[]> {
+  const days = config().RECORDING_RETENTION_DAYS;
+  if (!(days > 0)) return [];
+  const archive = getAudioArchive();
+  const objects = await archive.list('rooms/');
+  const manifests = objects.filter(o => o.key.endsWith('/manifest.json'));
+  const purged: string[] = [];
+
+  for (const m of manifests) {
+    const manifest = await archive.getJson<RecordingManifest>(m.key);
+    const updatedAt = Date.parse(manifest?.updatedAt || m.updatedAt);
+    if (now - updatedAt < days * 24 * 60 * 60 * 1000) continue;
+    const prefix = m.key.slice(0, -'manifest.json'.length);
+    await withLock(`recordings:${manifest?.roomId || prefix}`, async () => {
+      for (const o of objects.filter(o => o.key.startsWith(prefix))) await archive.delete(o.key);
+    });
+    purged.push(manifest?.roomId || prefix);
+  }
+  if (purged.length) console.log('[recordings] retention sweep purged rooms', { count: purged.length, days });
+  return purged;
+}
+
+let sweeper: NodeJS.Timeout | null = null;
+
+// Periodic retention sweep (RECORDING_SWEEP_INTERVAL_MS, default hourly) while retention is on
+export function startRecordingSweeper() {
+  if (sweeper || !recordingsEnabled()) return;
+  const interval = config().RECORDING_SWEEP_INTERVAL_MS;
+  const run = () => sweepRecordings().catch(e => console.warn('[recordings] retention sweep failed', e instanceof Error ? e.message : e));
+  sweeper = setInterval(run, interval);
+  sweeper.unref();
+  run();
+}
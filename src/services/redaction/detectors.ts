@@ -0,0 +1,158 @@
+import fs from 'fs';
+import { config } from '../../config';
+
+export type PiiKind = 'email' | 'phone' | 'national-id' | 'card' | 'custom';
+export const PII_KINDS: PiiKind[] = ['email', 'phone', 'national-id', 'card', 'custom'];
+
+export interface PiiMatch {
+  kind: PiiKind;
+  start: number;
+  end: number;
+  value: string;
+  // replacement label, e.g. EMAIL or the custom pattern's label
+  label: string;
+}
+
+interface Detector {
+  kind: PiiKind;
+  label: string;
+  pattern: RegExp;
+  // reject candidates whose checksum/length does not fit
+  valid?: (value: string) => boolean;
+  // part of the match to mask (keyword-prefixed ids keep their keyword)
+  group?: number;
+}
+
+const digits = (s: string) => s.replace(/\D/g, '');
+
+function luhn(value: string) {
+  const d = digits(value);
+  if (d.length < 13 || d.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < d.length; i++) {
+    let n = Number(d[d.length - 1 - i]);
+    if (i % 2 === 1) { n *= 2; if (n > 9) n -= 9; }
+    sum += n;
+  }
+  return sum % 10 === 0;
+}
+
+// Spanish DNI/NIE control letter
+function dniValid(value: string) {
+  const v = value.toUpperCase();
+  const num = v.replace(/^[XYZ]/, c => String('XYZ'.indexOf(c))).slice(0, 8);
+  return 'TRWAGMYFPDXBNJZSQVHLCKE'[Number(num) % 23] === v[8];
+}
+
+// Brazilian CPF check digits
+function cpfValid(value: string) {
+  const d = digits(value);
+  if (d.length !== 11 || /^(\d)\1+$/.test(d)) return false;
+  const check = (len: number) => {
+    let sum = 0;
+    for (let i = 0; i < len; i++) sum += Number(d[i]) * (len + 1 - i);
+    const r = (sum * 10) % 11;
+    return r === 10 ? 0 : r;
+  };
+  return check(9) === Number(d[9]) && check(10) === Number(d[10]);
+}
+
+// Chilean RUT check digit (mod 11)
+function rutValid(value: string) {
+  const [body, dv] = value.replace(/\./g, '').toUpperCase().split('-');
+  let sum = 0;
+  let factor = 2;
+  for (let i = body.length - 1; i >= 0; i--) {
+    sum += Number(body[i]) * factor;
+    factor = factor === 7 ? 2 : factor + 1;
+  }
+  const expected = 11 - (sum % 11);
+  return dv === (expected === 11 ? '0' : expected === 10 ? 'K' : String(expected));
+}
+
+const BUILT_IN: Detector[] = [
+  { kind: 'email', label: 'EMAIL', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  { kind: 'card', label: 'CARD', pattern: /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g, valid: luhn },
+  // ES DNI/NIE, BR CPF, CL RUT, MX CURP, US SSN
+  { kind: 'national-id', label: 'ID', pattern: /\b[XYZ]?\d{7,8}[A-Z]\b/gi, valid: v => /^([XYZ]\d{7}|\d{8})[A-Z]$/i.test(v) && dniValid(v) },
+  { kind: 'national-id', label: 'ID', pattern: /\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b/g, valid: cpfValid },
+  { kind: 'national-id', label: 'ID', pattern: /\b\d{1,2}\.?\d{3}\.?\d{3}-[\dkK]\b/g, valid: rutValid },
+  { kind: 'national-id', label: 'ID', pattern: /\b[A-Z]{4}\d{6}[HM][A-Z]{5}[A-Z0-9]\d\b/g },
+  { kind: 'national-id', label: 'ID', pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g },
+  // any id-looking token right after a document keyword ("DNI 12.345.678", "pasaporte: AB123456", "mi DNI es 12345678Z")
+  {
+    kind: 'national-id', label: 'ID', group: 2,
+    pattern: /\b(DNI|NIE|NIF|CPF|RUT|RUN|CURP|RFC|c[ée]dula|documento|pasaporte|passaporte|passport|SSN)\b(?:\s*(?:n[º°o.]*|number|n[úu]mero))?(?:\s+(?:es|is|é)(?![a-zà-ÿ]))?\s*[:#]?\s*([A-Z0-9][A-Z0-9.\- ]{4,16}[A-Z0-9])/gi,
+    valid: v => digits(v).length >= 5,
+  },
+  {
+    kind: 'phone', label: 'PHONE',
+    // digits glued to a path, file name or id ("audio-1760000000000-x.webm", "/jobs/123...") are not phones
+    pattern: /(?<![\w+\-/.:])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){2,4}(?![\w\-/])/g,
+    // "10.000.000" is an amount and "2024-05-01" / "01.05.2024" a date, not phone numbers
+    valid: v => digits(v).length >= 8 && digits(v).length <= 15 && !/^\d{1,3}(\.\d{3})+$/.test(v)
+      && !/^(\d{4}[-.]\d{2}[-.]\d{2}|\d{2}[-.]\d{2}[-.]\d{4})$/.test(v),
+  },
+];
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+let customCache: Detector[] | null = null;
+
+/**
+ * Site-specific detectors: REDACTION_PATTERNS (JSON array of regex strings or { pattern, flags?, label? })
+ * and dictionary terms from REDACTION_TERMS (comma-separated) and REDACTION_DICTIONARY_PATH (one per line).
+ */
+function customDetectors(): Detector[] {
+  if (customCache) return customCache;
+  const { REDACTION_PATTERNS, REDACTION_TERMS, REDACTION_DICTIONARY_PATH } = config();
+  const detectors: Detector[] = [];
+
+  // patterns were checked to compile when the configuration loaded
+  for (const p of REDACTION_PATTERNS) {
+    const spec = typeof p === 'string' ? { pattern: p } : p;
+    const flags = Array.from(new Set(`${spec.flags || ''}g`)).join('');
+    detectors.push({ kind: 'custom', label: String(spec.label || 'REDACTED').toUpperCase(), pattern: new RegExp(spec.pattern, flags) });
+  }
+
+  const terms = [...REDACTION_TERMS];
+  if (REDACTION_DICTIONARY_PATH) {
+    try {
+      terms.push(...fs.readFileSync(REDACTION_DICTIONARY_PATH, 'utf8').split(/\r?\n/).filter(l => !l.trim().startsWith('#')));
+    } catch (e) {
+      console.warn('[redaction] failed to read REDACTION_DICTIONARY_PATH', e instanceof Error ? e.message : e);
+    }
+  }
+  const words = terms.map(t => t.trim()).filter(Boolean).sort((a, b) => b.length - a.length);
+  if (words.length) {
+    detectors.push({ kind: 'custom', label: 'REDACTED', pattern: new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu') });
+  }
+
+  customCache = detectors;
+  return detectors;
+}
+
+/**
+ * Find personal data in text. Overlapping candidates are resolved in favour of the one that
+ * starts first, then the longer one.
+ */
+export function detectPii(text: string, kinds: PiiKind[] = PII_KINDS): PiiMatch[] {
+  const found: PiiMatch[] = [];
+  for (const d of [...BUILT_IN, ...customDetectors()]) {
+    if (!kinds.includes(d.kind)) continue;
+    d.pattern.lastIndex = 0;
+    for (const m of text.matchAll(d.pattern)) {
+      const value = d.group ? m[d.group] : m[0];
+      if (!value || (d.valid && !d.valid(value))) continue;
+      const start = (m.index ?? 0) + (d.group ? m[0].lastIndexOf(value) : 0);
+      found.push({ kind: d.kind, start, end: start + value.length, value, label: d.label });
+    }
+  }
+  found.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const out: PiiMatch[] = [];
+  for (const m of found) {
+    if (out.length && m.start < out[out.length - 1].end) continue;
+    out.push(m);
+  }
+  return out;
+}
@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import util from 'util';
+import { MeetingSegment } from '../segments';
+import { detectPii, PII_KINDS, PiiKind } from './detectors';
+import { config } from '../../config';
+
+export * from './detectors';
+
+/**
+ * off: store and summarize text as transcribed
+ * redact: replace personal data with a label such as [EMAIL]
+ * hash: replace it with a keyed hash ([EMAIL:1f3a9c0b2e]) so repeated mentions can still be correlated
+ * keep-for-owner: redact like `redact`, but keep the speaker's original line for them alone
+ */
+export type RedactionMode = 'off' | 'redact' | 'hash' | 'keep-for-owner';
+export const REDACTION_MODES: RedactionMode[] = ['off', 'redact', 'hash', 'keep-for-owner'];
+
+// REDACTION_MODE (default off); the config check refuses hash without REDACTION_HASH_KEY
+export const redactionMode = (): RedactionMode => config().REDACTION_MODE;
+
+// REDACTION_ENTITIES limits what is detected (comma-separated kinds; default all)
+export function redactionKinds(): PiiKind[] {
+  const kinds = config().REDACTION_ENTITIES;
+  return kinds.length ? kinds : PII_KINDS;
+}
+
+export interface RedactionResult {
+  text: string;
+  // number of masked spans per kind
+  counts: Partial<Record<PiiKind, number>>;
+  changed: boolean;
+}
+
+const pseudonym = (value: string) =>
+  crypto.createHmac('sha256', config().REDACTION_HASH_KEY || '').update(value.trim().toLowerCase()).digest('hex').slice(0, 10);
+
+/** Mask personal data in one string; `mode` defaults to REDACTION_MODE (`off` returns the text untouched). */
+export function redactText(text: string, mode: RedactionMode = redactionMode(), kinds: PiiKind[] = redactionKinds()): RedactionResult {
+  if (mode === 'off' || !text) return { text, counts: {}, changed: false };
+  const matches = detectPii(text, kinds);
+  if (!matches.length) return { text, counts: {}, changed: false };
+  const counts: RedactionResult['counts'] = {};
+  let out = '';
+  let last = 0;
+  for (const m of matches) {
+    counts[m.kind] = (counts[m.kind] || 0) + 1;
+    out += text.slice(last, m.start) + (mode === 'hash' ? `[${m.label}:${pseudonym(m.value)}]` : `[${m.label}]`);
+    last = m.end;
+  }
+  return { text: out + text.slice(last), counts, changed: true };
+}
+
+/**
+ * Apply REDACTION_MODE to segments before they are stored. Word timings of changed segments are
+ * dropped (they would still carry the raw words); keep-for-owner moves the raw line to `originalText`.
+ */
+export function redactSegments(segments: MeetingSegment[]): MeetingSegment[] {
+  const mode = redactionMode();
+  if (mode === 'off') return segments;
+  const totals: Partial<Record<PiiKind, number>> = {};
+  const out = segments.map(s => {
+    const r = redactText(s.text, mode);
+    if (!r.changed) return s;
+    for (const [k, n] of Object.entries(r.counts)) totals[k as PiiKind] = (totals[k as PiiKind] || 0) + (n || 0);
+    const { words, ...rest } = s;
+    return { ...rest, text: r.text, ...(mode === 'keep-for-owner' ? { originalText: s.text } : {}) };
+  });
+  if (Object.keys(totals).length) console.log('[redaction] masked personal data', { roomId: segments[0]?.roomId, mode, counts: totals });
+  return out;
+}
+
+// Text a given viewer may read: the raw line for its own speaker under keep-for-owner, else the stored text
+export const segmentTextFor = (s: MeetingSegment, viewerUserId?: string) =>
+  s.originalText && viewerUserId && viewerUserId === s.userId ? s.originalText : s.text;
+
+/** Redact every string inside a JSON-like value (structured summaries, webhook payloads). */
+export function redactDeep<T>(value: T, mode: RedactionMode = redactionMode(), depth = 0): T {
+  if (mode === 'off') return value;
+  if (typeof value === 'string') return redactText(value, mode).text as unknown as T;
+  if (depth > 6 || value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(v => redactDeep(v, mode, depth + 1)) as unknown as T;
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value as Record<string, unknown>)) out[k] = redactDeep(v, mode, depth + 1);
+  return out as T;
+}
+
+let scrubberInstalled = false;
+
+/**
+ * Scrub personal data from everything written through console.* (LOG_REDACTION=false to disable).
+ * Objects are formatted first, so nested values and error stacks are covered too.
+ */
+export function installLogScrubber() {
+  if (scrubberInstalled || !config().LOG_REDACTION) return;
+  scrubberInstalled = true;
+  for (const level of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+    const original = console[level].bind(console);
+    console[level] = (...args: unknown[]) => {
+      try {
+        original(redactText(util.format(...args), 'redact').text);
+      } catch {
+        original(...args);
+      }
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { withLock } from '../../utils/lock';
+import { Principal } from '../../middleware/auth';
+import { config } from '../../config';
+
+// expire: removed by the retention sweeper; purge: transcript and audio dropped after every summary email was sent
+export type RoomAuditAction = 'open' | 'close' | 'reopen' | 'retention' | 'export' | 'delete' | 'expire' | 'purge';
+
+export interface RoomAuditActor {
+  kind: Principal['kind'] | 'system' | 'anonymous';
+  // API key name, JWT subject or the background task
+  subject: string;
+}
+
+/**
+ * One lifecycle event. Entries carry ids and counts only, never transcript text or addresses,
+ * so the log can outlive the data it describes.
+ */
+export interface RoomAuditEntry {
+  id: string;
+  at: string;
+  action: RoomAuditAction;
+  roomId: string;
+  actor: RoomAuditActor;
+  // participant whose data was exported or deleted, when the action was limited to one
+  userId?: string;
+  reason?: string;
+  details?: Record<string, string | number | boolean | null>;
+}
+
+// ROOM_AUDIT_PATH, default STORAGE_TEMP_PATH/audit/rooms.jsonl (outside the transcript directories on purpose)
+const auditFile = () => config().ROOM_AUDIT_PATH || path.join(config().STORAGE_TEMP_PATH, 'audit', 'rooms.jsonl');
+
+export const actorFor = (principal?: Principal): RoomAuditActor =>
+  principal ? { kind: principal.kind, subject: principal.subject } : { kind: 'anonymous', subject: 'auth-off' };
+
+export const systemActor = (subject: string): RoomAuditActor => ({ kind: 'system', subject });
+
+/** Append an entry to the audit log. Failures are logged, not thrown: the action itself already happened. */
+export async function recordRoomAudit(entry: Omit<RoomAuditEntry, 'id' | 'at'>): Promise<RoomAuditEntry> {
+  const full: RoomAuditEntry = { id: crypto.randomUUID(), at: new Date().toISOString(), ...entry };
+  try {
+    await withLock('rooms:audit', async () => {
+      await fs.promises.mkdir(path.dirname(auditFile()), { recursive: true });
+      await fs.promises.appendFile(auditFile(), JSON.stringify(full) + '\n', 'utf8');
+    });
+  } catch (e) {
+    console.error('[rooms] failed to write audit entry', { action: entry.action, roomId: entry.roomId }, e);
+  }
+  console.log('[rooms] audit', { action: full.action, roomId: full.roomId, actor: full.actor.subject, userId: full.userId });
+  return full;
+}
+
+/** Audit entries, newest first. */
+export async function listRoomAudit(filter: { roomId?: string; action?: RoomAuditAction; limit?: number } = {}): Promise<RoomAuditEntry[]> {
+  let raw = '';
+  try { raw = await fs.promises.readFile(auditFile(), 'utf8'); } catch (e: any) { if (e?.code === 'ENOENT') return []; throw e; }
+  const out: RoomAuditEntry[] = [];
+  for (const line of raw.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try { out.push(JSON.parse(line)); } catch { console.warn('[rooms] skipping malformed audit line'); }
+  }
+  return out
+    .filter(e => (!filter.roomId || e.roomId === filter.roomId) && (!filter.action || e.action === filter.action))
+    .reverse()
+    .slice(0, filter.limit || 500);
+}
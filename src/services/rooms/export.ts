@@ -0,0 +1,73 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import { MeetingSegment } from '../segments';
+import { segmentTextFor } from '../redaction';
+import { getRecordingManifest, RecordingInfo } from '../recordings';
+import { DeliveryRecord, listDeliveries } from '../mail';
+import { ChunkRecord, getTranscriptStore, ParticipantRecord, RoomRecord, SummaryRecord } from '../store';
+
+const gzip = promisify(zlib.gzip);
+
+/** Everything stored for a room (or one participant of it), as handed out before deletion. */
+export interface RoomExport {
+  format: 'agorax-room-export';
+  version: 1;
+  exportedAt: string;
+  roomId: string;
+  // set when the export is limited to one participant
+  userId: string | null;
+  room: RoomRecord | null;
+  participants: ParticipantRecord[];
+  segments: MeetingSegment[];
+  chunks: ChunkRecord[];
+  // room-wide content; left out of per-participant exports
+  summaries: SummaryRecord[];
+  deliveries: DeliveryRecord[];
+  recordings: Array<Omit<RecordingInfo, 'key'>>;
+}
+
+/**
+ * Collect a room's data. Segment text is what `viewerUserId` may read (their own lines unredacted
+ * under keep-for-owner); the raw `originalText` itself is never exported.
+ */
+export async function exportRoom(roomId: string, opts: { userId?: string; viewerUserId?: string } = {}): Promise<RoomExport> {
+  const store = getTranscriptStore();
+  const { userId, viewerUserId } = opts;
+  const [room, participants, segments, chunks, summaries, deliveries, manifest] = await Promise.all([
+    store.getRoom(roomId),
+    store.listParticipants(roomId),
+    store.listSegments(roomId, userId),
+    store.listChunks(roomId, userId),
+    userId ? Promise.resolve([]) : store.listSummaries(roomId),
+    userId ? Promise.resolve([]) : listDeliveries({ roomId }),
+    getRecordingManifest(roomId).catch(() => null),
+  ]);
+  return {
+    format: 'agorax-room-export',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    roomId,
+    userId: userId || null,
+    room,
+    participants: userId ? participants.filter(p => p.userId === userId) : participants,
+    segments: segments.map(({ originalText, ...s }) => ({ ...s, text: segmentTextFor({ ...s, originalText }, viewerUserId) })),
+    chunks,
+    summaries,
+    deliveries,
+    recordings: (manifest?.recordings || []).filter(r => !userId || r.userId === userId).map(({ key, ...r }) => r),
+  };
+}
+
+/** Write an export as gzipped JSON into `dir` and return the file path. */
+export async function writeRoomExport(bundle: RoomExport, dir: string): Promise<string> {
+  await fs.promises.mkdir(dir, { recursive: true });
+  const stamp = bundle.exportedAt.replace(/[:.]/g, '-');
+  const name = `${encodeURIComponent(bundle.roomId)}${bundle.userId ? `-${encodeURIComponent(bundle.userId)}` : ''}-${stamp}.json.gz`;
+  const file = path.join(dir, name);
+  const tmp = file + '.tmp';
+  await fs.promises.writeFile(tmp, await gzip(JSON.stringify(bundle)));
+  await fs.promises.rename(tmp, file);
+  return file;
+}
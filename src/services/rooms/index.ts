@@ -0,0 +1,112 @@
+import { getTranscriptStore, RoomRecord, RoomStatus } from '../store';
+import { recordRoomAudit, RoomAuditActor } from './audit';
+import { exportRoom, RoomExport } from './export';
+import { activeRoomJobs, purgeRoom, PurgeReport } from './purge';
+import { retentionDaysFor, roomExpiresAt } from './retention';
+
+export * from './audit';
+export { exportRoom, writeRoomExport, RoomExport } from './export';
+export { activeRoomJobs, purgeRoom, PurgeReport } from './purge';
+export {
+  retentionDaysFor, roomExpiresAt, runRetentionSweep, startRetentionSweeper, stopRetentionSweeper,
+  sweepExpiredRooms, sweepOrphanFiles,
+} from './retention';
+
+// 404 for unknown rooms, 409 for transitions the room's state does not allow
+export class RoomLifecycleError extends Error {
+  constructor(message: string, readonly status: 404 | 409) {
+    super(message);
+    this.name = 'RoomLifecycleError';
+  }
+}
+
+export interface RoomView {
+  id: string;
+  status: RoomStatus;
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+  retentionDays: number;
+  // when the retention sweeper will purge the room; null when kept forever
+  expiresAt: string | null;
+}
+
+export const roomStatus = (room: RoomRecord | null): RoomStatus => room?.status || 'open';
+
+export const describeRoom = (room: RoomRecord): RoomView => ({
+  id: room.id,
+  status: roomStatus(room),
+  createdAt: room.createdAt,
+  updatedAt: room.updatedAt,
+  closedAt: room.closedAt || null,
+  retentionDays: retentionDaysFor(room),
+  expiresAt: roomExpiresAt(room),
+});
+
+export async function listRooms(filter: { status?: RoomStatus } = {}): Promise<RoomView[]> {
+  return (await getTranscriptStore().listRooms()).map(describeRoom).filter(r => !filter.status || r.status === filter.status);
+}
+
+// Rooms that were never opened explicitly are open; only an explicit close stops uploads
+export async function isRoomClosed(roomId: string) {
+  return roomStatus(await getTranscriptStore().getRoom(roomId)) === 'closed';
+}
+
+/**
+ * Create a room (optionally with its own retention in days). Opening an open room is a no-op;
+ * a closed room has to be reopened instead.
+ */
+export async function openRoom(roomId: string, actor: RoomAuditActor, opts: { retentionDays?: number } = {}): Promise<{ room: RoomView; created: boolean }> {
+  const store = getTranscriptStore();
+  const existing = await store.getRoom(roomId);
+  if (roomStatus(existing) === 'closed') throw new RoomLifecycleError('Room is closed; reopen it instead', 409);
+  let room = existing?.status ? existing : await store.setRoomStatus(roomId, 'open');
+  if (opts.retentionDays !== undefined) room = await store.updateRoomSettings(roomId, { retentionDays: opts.retentionDays });
+  if (!existing) await recordRoomAudit({ action: 'open', roomId, actor, details: { retentionDays: retentionDaysFor(room) } });
+  return { room: describeRoom(room), created: !existing };
+}
+
+/** Stop accepting audio and chat for the room. Its data stays until deleted or expired. */
+export async function closeRoom(roomId: string, actor: RoomAuditActor, reason?: string): Promise<RoomView> {
+  const store = getTranscriptStore();
+  const existing = await store.getRoom(roomId);
+  if (!existing) throw new RoomLifecycleError('Room not found', 404);
+  if (roomStatus(existing) === 'closed') return describeRoom(existing);
+  const room = await store.setRoomStatus(roomId, 'closed');
+  await recordRoomAudit({ action: 'close', roomId, actor, reason });
+  return describeRoom(room);
+}
+
+export async function reopenRoom(roomId: string, actor: RoomAuditActor, reason?: string): Promise<RoomView> {
+  const store = getTranscriptStore();
+  const existing = await store.getRoom(roomId);
+  if (!existing) throw new RoomLifecycleError('Room not found', 404);
+  if (roomStatus(existing) !== 'closed') throw new RoomLifecycleError('Room is not closed', 409);
+  const room = await store.setRoomStatus(roomId, 'open');
+  await recordRoomAudit({ action: 'reopen', roomId, actor, reason });
+  return describeRoom(room);
+}
+
+/** Export for a caller, recorded in the audit log. */
+export async function exportRoomFor(roomId: string, actor: RoomAuditActor, opts: { userId?: string; viewerUserId?: string } = {}): Promise<RoomExport> {
+  const bundle = await exportRoom(roomId, opts);
+  await recordRoomAudit({
+    action: 'export', roomId, actor, userId: opts.userId,
+    details: { segments: bundle.segments.length, summaries: bundle.summaries.length },
+  });
+  return bundle;
+}
+
+/**
+ * Delete a room (or one participant's data in it). Refused while jobs for the room are still queued or
+ * running. With `withExport`, the data is collected first and handed back with the report.
+ */
+export async function deleteRoom(roomId: string, actor: RoomAuditActor, opts: { userId?: string; reason?: string; withExport?: boolean; viewerUserId?: string } = {}): Promise<{ report: PurgeReport; export?: RoomExport }> {
+  const store = getTranscriptStore();
+  const [room, segments] = await Promise.all([store.getRoom(roomId), store.listSegments(roomId, opts.userId)]);
+  if (!room && !segments.length) throw new RoomLifecycleError(opts.userId ? 'No data for this participant' : 'Room not found', 404);
+  if (await activeRoomJobs(roomId)) throw new RoomLifecycleError('Room has jobs still queued or running; try again once they finish', 409);
+  const bundle = opts.withExport ? await exportRoom(roomId, { userId: opts.userId, viewerUserId: opts.viewerUserId }) : undefined;
+  const report = await purgeRoom(roomId, { userId: opts.userId, actor, reason: opts.reason, action: 'delete', exportedTo: bundle ? 'response' : undefined });
+  return bundle ? { report, export: bundle } : { report };
+}
@@ -0,0 +1,64 @@
+import { getTranscriptStore } from '../store';
+import { listJobs, purgeRoomJobs } from '../jobs';
+import { purgeRoomDeliveries } from '../mail';
+import { deleteRoomSubscriptions, purgeRoomWebhookDeliveries } from '../webhooks';
+import { deleteRoomRecordings } from '../recordings';
+import { recordRoomAudit, RoomAuditActor } from './audit';
+
+export interface PurgeReport {
+  roomId: string;
+  userId: string | null;
+  // archived audio objects removed
+  recordings: number;
+  emails: number;
+  webhookDeliveries: number;
+  webhookSubscriptions: number;
+  jobs: number;
+}
+
+export interface PurgeOptions {
+  // limit the purge to one participant's transcript, audio and chunk jobs
+  userId?: string;
+  actor: RoomAuditActor;
+  action?: 'delete' | 'expire';
+  reason?: string;
+  // where the export taken just before went (file path, or `response`), recorded in the audit entry
+  exportedTo?: string;
+}
+
+/** Queued or running jobs for the room; deleting under them would let them write the data back. */
+export async function activeRoomJobs(roomId: string): Promise<number> {
+  return (await listJobs({ roomId, pending: true })).filter(j => j.status === 'queued' || j.status === 'running').length;
+}
+
+/**
+ * Delete everything kept for a room: transcript store records, archived audio, outbox entries,
+ * webhook deliveries and room subscriptions, and finished jobs. A participant-scoped purge removes
+ * that participant's transcript and audio (plus the shared room mixdown) and leaves the rest.
+ */
+export async function purgeRoom(roomId: string, opts: PurgeOptions): Promise<PurgeReport> {
+  const { userId } = opts;
+  await getTranscriptStore().deleteTranscripts(roomId, userId);
+  const report: PurgeReport = {
+    roomId,
+    userId: userId || null,
+    recordings: await deleteRoomRecordings(roomId, userId).catch(e => {
+      console.warn('[rooms] failed to delete archived audio', { roomId, err: e instanceof Error ? e.message : String(e) });
+      return 0;
+    }),
+    emails: userId ? 0 : await purgeRoomDeliveries(roomId),
+    webhookDeliveries: userId ? 0 : await purgeRoomWebhookDeliveries(roomId),
+    webhookSubscriptions: userId ? 0 : await deleteRoomSubscriptions(roomId),
+    jobs: await purgeRoomJobs(roomId, userId),
+  };
+  const { roomId: _room, userId: _user, ...counts } = report;
+  await recordRoomAudit({
+    action: opts.action || 'delete',
+    roomId,
+    userId,
+    actor: opts.actor,
+    reason: opts.reason,
+    details: { ...counts, exported: !!opts.exportedTo, exportFile: opts.exportedTo || null },
+  });
+  return report;
+}
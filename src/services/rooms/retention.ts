@@ -0,0 +1,144 @@
+import fs from 'fs';
+import path from 'path';
+import { listJobs } from '../jobs';
+import { getTranscriptStore, RoomRecord } from '../store';
+import { config, roomConfig } from '../../config';
+import { systemActor } from './audit';
+import { exportRoom, writeRoomExport } from './export';
+import { activeRoomJobs, purgeRoom, PurgeReport } from './purge';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const settings = () => ({
+  // when set, expired rooms are exported there (gzipped JSON) before they are purged
+  exportDir: config().RETENTION_EXPORT_DIR || '',
+  intervalMs: config().RETENTION_SWEEP_INTERVAL_MS,
+  // leftover upload/transcode files older than this are deleted
+  orphanMaxAgeMs: config().ORPHAN_FILE_MAX_AGE_HOURS * 3600 * 1000,
+});
+
+const tmpDir = () => config().STORAGE_TEMP_PATH;
+
+// Room TTL in days (0 keeps the room forever): the room's own setting, else ROOM_RETENTION_DAYS for that room
+export function retentionDaysFor(room: RoomRecord): number {
+  const own = room.settings?.retentionDays;
+  return typeof own === 'number' && own >= 0 ? own : roomConfig(room.id).ROOM_RETENTION_DAYS;
+}
+
+/** When the sweeper will purge the room: TTL days after its last activity (or closing), null when kept forever. */
+export function roomExpiresAt(room: RoomRecord): string | null {
+  const days = retentionDaysFor(room);
+  if (!(days > 0)) return null;
+  const last = Math.max(Date.parse(room.updatedAt) || 0, Date.parse(room.closedAt || '') || 0);
+  return new Date(last + days * DAY_MS).toISOString();
+}
+
+export interface RoomSweepResult {
+  purged: PurgeReport[];
+  // expired rooms left for the next sweep
+  skipped: Array<{ roomId: string; reason: string }>;
+  // dry runs only list what would be purged
+  expired: string[];
+}
+
+/** Purge every room past its TTL, exporting it first when RETENTION_EXPORT_DIR is set. */
+export async function sweepExpiredRooms(opts: { now?: number; dryRun?: boolean } = {}): Promise<RoomSweepResult> {
+  const now = opts.now ?? Date.now();
+  const { exportDir } = settings();
+  const result: RoomSweepResult = { purged: [], skipped: [], expired: [] };
+
+  for (const room of await getTranscriptStore().listRooms()) {
+    const expiresAt = roomExpiresAt(room);
+    if (!expiresAt || Date.parse(expiresAt) > now) continue;
+    result.expired.push(room.id);
+    if (opts.dryRun) continue;
+    if (await activeRoomJobs(room.id)) {
+      result.skipped.push({ roomId: room.id, reason: 'jobs still queued or running' });
+      continue;
+    }
+    try {
+      const exportedTo = exportDir ? await writeRoomExport(await exportRoom(room.id), exportDir) : undefined;
+      result.purged.push(await purgeRoom(room.id, {
+        actor: systemActor('retention'),
+        action: 'expire',
+        reason: `inactive past ${retentionDaysFor(room)} day retention`,
+        exportedTo,
+      }));
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      console.warn('[rooms] retention purge failed', { roomId: room.id, err: reason });
+      result.skipped.push({ roomId: room.id, reason });
+    }
+  }
+  return result;
+}
+
+// Files the upload route, transcription retries, live streams and transcoding leave behind when a process dies
+const ORPHAN_FILE = /^(audio-.+\.webm|.+\.retry\.wav|stream-.+\.wav)$/;
+
+export interface OrphanSweepResult {
+  files: number;
+  bytes: number;
+}
+
+/**
+ * Delete temp audio nobody will pick up: files in STORAGE_TEMP_PATH matching the upload/retry/stream
+ * names, anything in transcode/ and abandoned assemble-* work directories, once older than
+ * ORPHAN_FILE_MAX_AGE_HOURS. Chunks still referenced by a queued or running job are kept.
+ */
+export async function sweepOrphanFiles(opts: { now?: number; dryRun?: boolean } = {}): Promise<OrphanSweepResult> {
+  const now = opts.now ?? Date.now();
+  const { orphanMaxAgeMs } = settings();
+  const root = tmpDir();
+  const inUse = new Set((await listJobs({ pending: true }))
+    .filter(j => j.status === 'queued' || j.status === 'running')
+    .map(j => j.payload?.filePath)
+    .filter((p): p is string => typeof p === 'string')
+    .map(p => path.resolve(p)));
+
+  const candidates: string[] = [];
+  const list = (dir: string) => fs.promises.readdir(dir).catch(() => [] as string[]);
+  for (const name of await list(root)) {
+    if (ORPHAN_FILE.test(name) || name.startsWith('assemble-')) candidates.push(path.join(root, name));
+  }
+  for (const name of await list(path.join(root, 'transcode'))) candidates.push(path.join(root, 'transcode', name));
+
+  const result: OrphanSweepResult = { files: 0, bytes: 0 };
+  for (const file of candidates) {
+    if (inUse.has(path.resolve(file))) continue;
+    const st = await fs.promises.stat(file).catch(() => null);
+    if (!st || now - st.mtimeMs < orphanMaxAgeMs) continue;
+    result.files++;
+    result.bytes += st.isFile() ? st.size : 0;
+    if (!opts.dryRun) await fs.promises.rm(file, { recursive: true, force: true }).catch(() => {});
+  }
+  return result;
+}
+
+export async function runRetentionSweep(opts: { now?: number; dryRun?: boolean } = {}) {
+  const rooms = await sweepExpiredRooms(opts);
+  const orphans = await sweepOrphanFiles(opts);
+  if (rooms.expired.length || orphans.files) {
+    console.log('[rooms] retention sweep', {
+      dryRun: !!opts.dryRun, expired: rooms.expired.length, purged: rooms.purged.length, skipped: rooms.skipped.length,
+      orphanFiles: orphans.files, orphanBytes: orphans.bytes,
+    });
+  }
+  return { rooms, orphans };
+}
+
+let sweeper: NodeJS.Timeout | null = null;
+
+// Periodic retention sweep (RETENTION_SWEEP_INTERVAL_MS, default hourly; RETENTION_SWEEP=false to disable)
+export function startRetentionSweeper() {
+  if (sweeper || !config().RETENTION_SWEEP) return;
+  const run = () => runRetentionSweep().catch(e => console.warn('[rooms] retention sweep failed', e instanceof Error ? e.message : e));
+  sweeper = setInterval(run, settings().intervalMs);
+  sweeper.unref();
+  run();
+}
+
+export function stopRetentionSweeper() {
+  if (sweeper) clearInterval(sweeper);
+  sweeper = null;
+}
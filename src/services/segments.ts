@@ -0,0 +1,65 @@
+import { TranscriptSegment } from './transcription/types';
+
+// A transcript segment mapped onto meeting-relative time (milliseconds since meeting start)
+export interface MeetingSegment {
+  roomId: string;
+  userId: string;
+  startMs: number;
+  endMs: number;
+  text: string;
+  words?: Array<{ word: string; startMs: number; endMs: number }>;
+  // wall-clock time the chunk was received, for lines without a client offset
+  receivedAt: string;
+  // client sequence number of the chunk this segment came from
+  seq?: number;
+  // chat lines are stored alongside speech; missing means speech
+  kind?: 'speech' | 'chat';
+  // unredacted line, kept only under REDACTION_MODE=keep-for-owner and shown only to its speaker
+  originalText?: string;
+}
+
+/**
+ * Shift chunk-relative segments (seconds) by the client-supplied chunk offset (ms).
+ * When the provider returned no segments, the whole text becomes one zero-length segment at the offset.
+ */
+export function toMeetingSegments(
+  roomId: string,
+  userId: string,
+  offsetMs: number,
+  text: string,
+  segments: TranscriptSegment[] | undefined,
+  receivedAt = new Date().toISOString(),
+): MeetingSegment[] {
+  const toMs = (sec: number) => Math.round(offsetMs + sec * 1000);
+  if (!segments || !segments.length) {
+    const trimmed = String(text || '').trim();
+    return trimmed ? [{ roomId, userId, startMs: offsetMs, endMs: offsetMs, text: trimmed, receivedAt }] : [];
+  }
+  return segments.map(s => ({
+    roomId,
+    userId,
+    startMs: toMs(s.start),
+    endMs: toMs(s.end),
+    text: s.text,
+    words: s.words?.map(w => ({ word: w.word, startMs: toMs(w.start), endMs: toMs(w.end) })),
+    receivedAt,
+  }));
+}
+
+// Meeting-time order; ties keep chunk sequence, then arrival order
+export function compareSegments(a: MeetingSegment, b: MeetingSegment) {
+  return a.startMs - b.startMs || (a.seq ?? 0) - (b.seq ?? 0) || a.receivedAt.localeCompare(b.receivedAt);
+}
+
+// One participant's chunks in the order the client recorded them, whatever order they arrived in.
+// Segments without a sequence number sort after sequenced ones.
+export function compareBySequence(a: MeetingSegment, b: MeetingSegment) {
+  const sa = a.seq ?? Number.MAX_SAFE_INTEGER;
+  const sb = b.seq ?? Number.MAX_SAFE_INTEGER;
+  return sa - sb || a.startMs - b.startMs || a.receivedAt.localeCompare(b.receivedAt);
+}
+
+// Plain-text transcript line, same shape the per-user .txt files used to hold
+export function formatSegmentLine(s: MeetingSegment) {
+  return `[${s.receivedAt}] ${s.userId}: ${s.text}`;
+}
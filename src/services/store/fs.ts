@@ -0,0 +1,205 @@
+import fs from 'fs';
+import path from 'path';
+import { compareBySequence, compareSegments, MeetingSegment } from '../segments';
+import { withLock } from '../../utils/lock';
+import { assertRoomId, isValidRoomId } from './ids';
+import { ChunkRecord, ParticipantInfo, ParticipantRecord, RoomRecord, SummaryRecord, TranscriptStore } from './types';
+
+async function readJson<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.promises.readFile(file, 'utf8')) as T;
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return fallback;
+    throw e;
+  }
+}
+
+async function readJsonLines<T>(file: string): Promise<T[]> {
+  let raw = '';
+  try { raw = await fs.promises.readFile(file, 'utf8'); } catch (e: any) { if (e?.code === 'ENOENT') return []; throw e; }
+  const out: T[] = [];
+  for (const line of raw.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try { out.push(JSON.parse(line)); } catch (e) { console.warn('[store:fs] skipping malformed line', { file }); }
+  }
+  return out;
+}
+
+/**
+ * Filesystem store: one directory per room under `rootDir` holding
+ * room.json, participants.json, chunks.json, segments.jsonl and summaries.jsonl.
+ */
+export function createFsTranscriptStore(rootDir: string): TranscriptStore {
+  const root = path.resolve(rootDir);
+  // every read, write and rm goes through here; ids that could leave `rootDir` are refused
+  const roomDir = (roomId: string) => {
+    const dir = path.resolve(root, encodeURIComponent(assertRoomId(roomId)));
+    if (path.dirname(dir) !== root) throw new Error(`room directory escapes the store root: ${roomId}`);
+    return dir;
+  };
+  const file = (roomId: string, name: string) => path.join(roomDir(roomId), name);
+
+  const touchRoom = async (roomId: string, now: string) => {
+    const existing = await readJson<RoomRecord | null>(file(roomId, 'room.json'), null);
+    const room: RoomRecord = existing ? { ...existing, updatedAt: now } : { id: roomId, createdAt: now, updatedAt: now };
+    await fs.promises.writeFile(file(roomId, 'room.json'), JSON.stringify(room, null, 2), 'utf8');
+  };
+
+  const upsertParticipant = async (roomId: string, userId: string, now: string, info?: ParticipantInfo) => {
+    const list = await readJson<ParticipantRecord[]>(file(roomId, 'participants.json'), []);
+    const existing = list.find(p => p.userId === userId);
+    if (existing) {
+      existing.lastSeenAt = now;
+      if (info?.email) existing.email = info.email;
+      if (info?.displayName) existing.displayName = info.displayName;
+    } else {
+      list.push({ roomId, userId, email: info?.email, displayName: info?.displayName, joinedAt: now, lastSeenAt: now });
+    }
+    await fs.promises.writeFile(file(roomId, 'participants.json'), JSON.stringify(list, null, 2), 'utf8');
+  };
+
+  return {
+    backend: 'fs',
+
+    appendSegments(roomId, userId, segments, participant) {
+      return withLock(`fs-store:${roomId}`, async () => {
+        await fs.promises.mkdir(roomDir(roomId), { recursive: true });
+        const now = new Date().toISOString();
+        await touchRoom(roomId, now);
+        await upsertParticipant(roomId, userId, now, participant);
+        if (segments.length) {
+          const body = segments.map(s => JSON.stringify(s)).join('\n') + '\n';
+          await fs.promises.appendFile(file(roomId, 'segments.jsonl'), body, 'utf8');
+        }
+      });
+    },
+
+    async listSegments(roomId, userId) {
+      const all = await readJsonLines<MeetingSegment>(file(roomId, 'segments.jsonl'));
+      return userId
+        ? all.filter(s => s.userId === userId).sort(compareBySequence)
+        : all.sort(compareSegments);
+    },
+
+    getRoom(roomId) {
+      return readJson<RoomRecord | null>(file(roomId, 'room.json'), null);
+    },
+
+    async listRooms() {
+      let dirs: string[] = [];
+      try { dirs = await fs.promises.readdir(rootDir); } catch (e: any) { if (e?.code === 'ENOENT') return []; throw e; }
+      const rooms: RoomRecord[] = [];
+      for (const dir of dirs) {
+        const roomId = decodeURIComponent(dir);
+        if (!isValidRoomId(roomId)) continue;
+        const room = await readJson<RoomRecord | null>(file(roomId, 'room.json'), null).catch(() => null);
+        if (room) { rooms.push(room); continue; }
+        // a directory holding only summaries has no room.json; date it by the directory itself
+        const st = await fs.promises.stat(roomDir(roomId)).catch(() => null);
+        if (st?.isDirectory()) rooms.push({ id: roomId, createdAt: st.birthtime.toISOString(), updatedAt: st.mtime.toISOString() });
+      }
+      return rooms.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    setRoomStatus(roomId, status) {
+      return withLock(`fs-store:${roomId}`, async () => {
+        await fs.promises.mkdir(roomDir(roomId), { recursive: true });
+        const now = new Date().toISOString();
+        const existing = await readJson<RoomRecord | null>(file(roomId, 'room.json'), null);
+        const room: RoomRecord = { ...(existing || { id: roomId, createdAt: now }), updatedAt: now, status, closedAt: status === 'closed' ? now : undefined };
+        await fs.promises.writeFile(file(roomId, 'room.json'), JSON.stringify(room, null, 2), 'utf8');
+        return room;
+      });
+    },
+
+    updateRoomSettings(roomId, settings) {
+      return withLock(`fs-store:${roomId}`, async () => {
+        await fs.promises.mkdir(roomDir(roomId), { recursive: true });
+        const now = new Date().toISOString();
+        const existing = await readJson<RoomRecord | null>(file(roomId, 'room.json'), null);
+        const defined = Object.fromEntries(Object.entries(settings).filter(([, v]) => v !== undefined));
+        const room: RoomRecord = {
+          ...(existing || { id: roomId, createdAt: now }),
+          updatedAt: now,
+          settings: { ...existing?.settings, ...defined },
+        };
+        await fs.promises.writeFile(file(roomId, 'room.json'), JSON.stringify(room, null, 2), 'utf8');
+        return room;
+      });
+    },
+
+    listParticipants(roomId) {
+      return readJson<ParticipantRecord[]>(file(roomId, 'participants.json'), []);
+    },
+
+    registerChunk(chunk) {
+      return withLock(`fs-store:${chunk.roomId}`, async () => {
+        await fs.promises.mkdir(roomDir(chunk.roomId), { recursive: true });
+        const list = await readJson<ChunkRecord[]>(file(chunk.roomId, 'chunks.json'), []);
+        const sameChunk = (c: ChunkRecord) => c.userId === chunk.userId && (
+          (!!chunk.idempotencyKey && c.idempotencyKey === chunk.idempotencyKey) ||
+          (chunk.seq !== undefined && c.seq === chunk.seq)
+        );
+        const existing = list.find(sameChunk);
+        if (existing && existing.status !== 'failed') return { chunk: existing, duplicate: true };
+        // a failed chunk may be uploaded again under the same key/sequence
+        const next = list.filter(c => c !== existing).concat(chunk);
+        await fs.promises.writeFile(file(chunk.roomId, 'chunks.json'), JSON.stringify(next, null, 2), 'utf8');
+        return { chunk, duplicate: false };
+      });
+    },
+
+    updateChunk(roomId, chunkId, patch) {
+      return withLock(`fs-store:${roomId}`, async () => {
+        const list = await readJson<ChunkRecord[]>(file(roomId, 'chunks.json'), []);
+        const chunk = list.find(c => c.id === chunkId);
+        if (!chunk) return;
+        Object.assign(chunk, patch, { updatedAt: new Date().toISOString() });
+        await fs.promises.writeFile(file(roomId, 'chunks.json'), JSON.stringify(list, null, 2), 'utf8');
+      });
+    },
+
+    async listChunks(roomId, userId) {
+      const list = await readJson<ChunkRecord[]>(file(roomId, 'chunks.json'), []);
+      return list.filter(c => !userId || c.userId === userId);
+    },
+
+    saveSummary(summary) {
+      return withLock(`fs-store:${summary.roomId}`, async () => {
+        await fs.promises.mkdir(roomDir(summary.roomId), { recursive: true });
+        await fs.promises.appendFile(file(summary.roomId, 'summaries.jsonl'), JSON.stringify(summary) + '\n', 'utf8');
+      });
+    },
+
+    listSummaries(roomId) {
+      return readJsonLines<SummaryRecord>(file(roomId, 'summaries.jsonl'));
+    },
+
+    deleteTranscripts(roomId, userId) {
+      return withLock(`fs-store:${roomId}`, async () => {
+        const remaining = userId
+          ? (await readJsonLines<MeetingSegment>(file(roomId, 'segments.jsonl'))).filter(s => s.userId !== userId)
+          : [];
+        if (!remaining.length) {
+          await fs.promises.rm(roomDir(roomId), { recursive: true, force: true });
+          return;
+        }
+        await fs.promises.writeFile(file(roomId, 'segments.jsonl'), remaining.map(s => JSON.stringify(s)).join('\n') + '\n', 'utf8');
+        const participants = await readJson<ParticipantRecord[]>(file(roomId, 'participants.json'), []);
+        await fs.promises.writeFile(file(roomId, 'participants.json'), JSON.stringify(participants.filter(p => p.userId !== userId), null, 2), 'utf8');
+        const chunks = await readJson<ChunkRecord[]>(file(roomId, 'chunks.json'), []);
+        await fs.promises.writeFile(file(roomId, 'chunks.json'), JSON.stringify(chunks.filter(c => c.userId !== userId), null, 2), 'utf8');
+      });
+    },
+
+    deleteSegments(roomId, userId) {
+      return withLock(`fs-store:${roomId}`, async () => {
+        const remaining = userId
+          ? (await readJsonLines<MeetingSegment>(file(roomId, 'segments.jsonl'))).filter(s => s.userId !== userId)
+          : [];
+        if (!remaining.length) return fs.promises.rm(file(roomId, 'segments.jsonl'), { force: true });
+        await fs.promises.writeFile(file(roomId, 'segments.jsonl'), remaining.map(s => JSON.stringify(s)).join('\n') + '\n', 'utf8');
+      });
+    },
+  };
+}
@@ -0,0 +1,17 @@
+// Room ids become directory names and archive keys: a letter or digit first (so never `.` or `..`),
+// then letters, digits and `._:@-`, at most 128 characters
+const ROOM_ID = /^[A-Za-z0-9][A-Za-z0-9._:@-]{0,127}$/;
+
+export class InvalidRoomIdError extends Error {
+  constructor(readonly roomId: string) {
+    super('Invalid room id');
+    this.name = 'InvalidRoomIdError';
+  }
+}
+
+export const isValidRoomId = (roomId: string) => ROOM_ID.test(roomId);
+
+export function assertRoomId(roomId: string): string {
+  if (!isValidRoomId(roomId)) throw new InvalidRoomIdError(roomId);
+  return roomId;
+}
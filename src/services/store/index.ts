@@ -0,0 +1,26 @@
+import path from 'path';
+import { createFsTranscriptStore } from './fs';
+import { createSqliteTranscriptStore } from './sqlite';
+import { TranscriptStore } from './types';
+import { config } from '../../config';
+
+export * from './types';
+export * from './ids';
+
+let store: TranscriptStore | null = null;
+
+/**
+ * Shared store selected by TRANSCRIPT_STORE (`fs` default, or `sqlite`).
+ * The fs backend lives under STORAGE_TEMP_PATH/transcripts; sqlite uses TRANSCRIPT_SQLITE_PATH.
+ */
+export function getTranscriptStore(): TranscriptStore {
+  if (store) return store;
+  const { STORAGE_TEMP_PATH: tmpDir, TRANSCRIPT_STORE, TRANSCRIPT_SQLITE_PATH } = config();
+  if (TRANSCRIPT_STORE === 'sqlite') {
+    store = createSqliteTranscriptStore(TRANSCRIPT_SQLITE_PATH || path.join(tmpDir, 'agorax.db'));
+  } else {
+    store = createFsTranscriptStore(path.join(tmpDir, 'transcripts'));
+  }
+  console.log('[store] transcript store ready', { backend: store.backend });
+  return store;
+}
@@ -0,0 +1,263 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { MeetingSegment } from '../segments';
+import { ChunkRecord, ParticipantRecord, RoomRecord, RoomSettings, RoomStatus, SummaryRecord, TranscriptStore } from './types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS rooms (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    settings TEXT
+  );
+  CREATE TABLE IF NOT EXISTS participants (
+    room_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    email TEXT,
+    display_name TEXT,
+    joined_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL,
+    PRIMARY KEY (room_id, user_id)
+  );
+  CREATE TABLE IF NOT EXISTS segments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    room_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    start_ms INTEGER NOT NULL,
+    end_ms INTEGER NOT NULL,
+    text TEXT NOT NULL,
+    words TEXT,
+    received_at TEXT NOT NULL,
+    seq INTEGER,
+    kind TEXT
+  );
+  CREATE INDEX IF NOT EXISTS segments_room_idx ON segments (room_id, start_ms);
+  CREATE TABLE IF NOT EXISTS chunks (
+    id TEXT PRIMARY KEY,
+    room_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    seq INTEGER,
+    idempotency_key TEXT,
+    status TEXT NOT NULL,
+    job_id TEXT,
+    received_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS chunks_room_idx ON chunks (room_id, user_id, seq);
+  CREATE TABLE IF NOT EXISTS summaries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    room_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    summary TEXT NOT NULL,
+    meta TEXT
+  );
+`;
+
+// Columns added after the first schema; CREATE TABLE IF NOT EXISTS leaves older databases without them
+function migrate(db: Database.Database) {
+  const has = (table: string, column: string) =>
+    (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).some(c => c.name === column);
+  if (!has('segments', 'seq')) db.exec('ALTER TABLE segments ADD COLUMN seq INTEGER');
+  if (!has('segments', 'kind')) db.exec('ALTER TABLE segments ADD COLUMN kind TEXT');
+  if (!has('rooms', 'settings')) db.exec('ALTER TABLE rooms ADD COLUMN settings TEXT');
+  if (!has('segments', 'original_text')) db.exec('ALTER TABLE segments ADD COLUMN original_text TEXT');
+  if (!has('rooms', 'status')) db.exec('ALTER TABLE rooms ADD COLUMN status TEXT');
+  if (!has('rooms', 'closed_at')) db.exec('ALTER TABLE rooms ADD COLUMN closed_at TEXT');
+}
+
+const toSegment = (r: any): MeetingSegment => ({
+  roomId: r.room_id,
+  userId: r.user_id,
+  startMs: r.start_ms,
+  endMs: r.end_ms,
+  text: r.text,
+  words: r.words ? JSON.parse(r.words) : undefined,
+  receivedAt: r.received_at,
+  seq: r.seq ?? undefined,
+  kind: r.kind ?? undefined,
+  originalText: r.original_text ?? undefined,
+});
+
+const toRoom = (r: any): RoomRecord => ({
+  id: r.id,
+  createdAt: r.created_at,
+  updatedAt: r.updated_at,
+  status: r.status ?? undefined,
+  closedAt: r.closed_at ?? undefined,
+  settings: r.settings ? JSON.parse(r.settings) : undefined,
+});
+
+const toChunk = (r: any): ChunkRecord => ({
+  id: r.id,
+  roomId: r.room_id,
+  userId: r.user_id,
+  seq: r.seq ?? undefined,
+  idempotencyKey: r.idempotency_key ?? undefined,
+  status: r.status,
+  jobId: r.job_id ?? undefined,
+  receivedAt: r.received_at,
+  updatedAt: r.updated_at,
+});
+
+const toParticipant = (r: any): ParticipantRecord => ({
+  roomId: r.room_id,
+  userId: r.user_id,
+  email: r.email ?? undefined,
+  displayName: r.display_name ?? undefined,
+  joinedAt: r.joined_at,
+  lastSeenAt: r.last_seen_at,
+});
+
+/**
+ * SQLite store. WAL mode lets several server processes on the same host share one database file.
+ */
+export function createSqliteTranscriptStore(dbPath: string): TranscriptStore {
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+  db.exec(SCHEMA);
+  migrate(db);
+
+  const upsertRoom = db.prepare(`INSERT INTO rooms (id, created_at, updated_at) VALUES (@id, @now, @now)
+    ON CONFLICT(id) DO UPDATE SET updated_at = excluded.updated_at`);
+  const upsertParticipant = db.prepare(`INSERT INTO participants (room_id, user_id, email, display_name, joined_at, last_seen_at)
+    VALUES (@roomId, @userId, @email, @displayName, @now, @now)
+    ON CONFLICT(room_id, user_id) DO UPDATE SET
+      last_seen_at = excluded.last_seen_at,
+      email = COALESCE(excluded.email, participants.email),
+      display_name = COALESCE(excluded.display_name, participants.display_name)`);
+  const insertSegment = db.prepare(`INSERT INTO segments (room_id, user_id, start_ms, end_ms, text, words, received_at, seq, kind, original_text)
+    VALUES (@roomId, @userId, @startMs, @endMs, @text, @words, @receivedAt, @seq, @kind, @originalText)`);
+  const findChunk = db.prepare(`SELECT * FROM chunks WHERE room_id = @roomId AND user_id = @userId
+    AND ((@idempotencyKey IS NOT NULL AND idempotency_key = @idempotencyKey) OR (@seq IS NOT NULL AND seq = @seq))
+    ORDER BY status = 'failed' LIMIT 1`);
+  const insertChunk = db.prepare(`INSERT INTO chunks (id, room_id, user_id, seq, idempotency_key, status, job_id, received_at, updated_at)
+    VALUES (@id, @roomId, @userId, @seq, @idempotencyKey, @status, @jobId, @receivedAt, @updatedAt)`);
+
+  const append = db.transaction((roomId: string, userId: string, segments: MeetingSegment[], email: string | null, displayName: string | null) => {
+    const now = new Date().toISOString();
+    upsertRoom.run({ id: roomId, now });
+    upsertParticipant.run({ roomId, userId, email, displayName, now });
+    for (const s of segments) {
+      insertSegment.run({ ...s, roomId, userId, words: s.words ? JSON.stringify(s.words) : null, seq: s.seq ?? null, kind: s.kind ?? null, originalText: s.originalText ?? null });
+    }
+  });
+
+  // same rule as the fs store: a failed chunk may be uploaded again under the same key/sequence
+  const register = db.transaction((chunk: ChunkRecord) => {
+    const params = { ...chunk, seq: chunk.seq ?? null, idempotencyKey: chunk.idempotencyKey ?? null, jobId: chunk.jobId ?? null };
+    const existing = findChunk.get(params) as any;
+    if (existing && existing.status !== 'failed') return { chunk: toChunk(existing), duplicate: true };
+    if (existing) db.prepare('DELETE FROM chunks WHERE id = ?').run(existing.id);
+    insertChunk.run(params);
+    return { chunk, duplicate: false };
+  });
+
+  const updateSettings = db.transaction((roomId: string, settings: RoomSettings): RoomRecord => {
+    const now = new Date().toISOString();
+    upsertRoom.run({ id: roomId, now });
+    const current = toRoom(db.prepare('SELECT * FROM rooms WHERE id = ?').get(roomId));
+    const defined = Object.fromEntries(Object.entries(settings).filter(([, v]) => v !== undefined));
+    const merged = { ...current.settings, ...defined };
+    db.prepare('UPDATE rooms SET settings = ? WHERE id = ?').run(JSON.stringify(merged), roomId);
+    return { ...current, settings: merged };
+  });
+
+  const setStatus = db.transaction((roomId: string, status: RoomStatus): RoomRecord => {
+    const now = new Date().toISOString();
+    upsertRoom.run({ id: roomId, now });
+    db.prepare('UPDATE rooms SET status = ?, closed_at = ? WHERE id = ?').run(status, status === 'closed' ? now : null, roomId);
+    return toRoom(db.prepare('SELECT * FROM rooms WHERE id = ?').get(roomId));
+  });
+
+  const deleteRoom = db.transaction((roomId: string) => {
+    db.prepare('DELETE FROM segments WHERE room_id = ?').run(roomId);
+    db.prepare('DELETE FROM chunks WHERE room_id = ?').run(roomId);
+    db.prepare('DELETE FROM participants WHERE room_id = ?').run(roomId);
+    db.prepare('DELETE FROM summaries WHERE room_id = ?').run(roomId);
+    db.prepare('DELETE FROM rooms WHERE id = ?').run(roomId);
+  });
+
+  const deleteParticipant = db.transaction((roomId: string, userId: string) => {
+    db.prepare('DELETE FROM segments WHERE room_id = ? AND user_id = ?').run(roomId, userId);
+    db.prepare('DELETE FROM chunks WHERE room_id = ? AND user_id = ?').run(roomId, userId);
+    db.prepare('DELETE FROM participants WHERE room_id = ? AND user_id = ?').run(roomId, userId);
+    const left = db.prepare('SELECT COUNT(*) AS n FROM segments WHERE room_id = ?').get(roomId) as { n: number };
+    if (left.n === 0) deleteRoom(roomId);
+  });
+
+  return {
+    backend: 'sqlite',
+
+    async appendSegments(roomId, userId, segments, participant) {
+      append(roomId, userId, segments, participant?.email || null, participant?.displayName || null);
+    },
+
+    async listSegments(roomId, userId) {
+      const rows = userId
+        ? db.prepare('SELECT * FROM segments WHERE room_id = ? AND user_id = ? ORDER BY seq IS NULL, seq, start_ms, received_at, id').all(roomId, userId)
+        : db.prepare('SELECT * FROM segments WHERE room_id = ? ORDER BY start_ms, COALESCE(seq, 0), received_at, id').all(roomId);
+      return rows.map(toSegment);
+    },
+
+    async getRoom(roomId) {
+      const r = db.prepare('SELECT * FROM rooms WHERE id = ?').get(roomId) as any;
+      return r ? toRoom(r) : null;
+    },
+
+    async listRooms() {
+      return db.prepare('SELECT * FROM rooms ORDER BY created_at').all().map(toRoom);
+    },
+
+    async setRoomStatus(roomId, status) {
+      return setStatus(roomId, status);
+    },
+
+    async updateRoomSettings(roomId, settings) {
+      return updateSettings(roomId, settings);
+    },
+
+    async listParticipants(roomId) {
+      return db.prepare('SELECT * FROM participants WHERE room_id = ? ORDER BY joined_at').all(roomId).map(toParticipant);
+    },
+
+    async registerChunk(chunk) {
+      return register(chunk);
+    },
+
+    async updateChunk(roomId, chunkId, patch) {
+      db.prepare(`UPDATE chunks SET status = COALESCE(@status, status), job_id = COALESCE(@jobId, job_id), updated_at = @now
+        WHERE room_id = @roomId AND id = @chunkId`)
+        .run({ roomId, chunkId, status: patch.status ?? null, jobId: patch.jobId ?? null, now: new Date().toISOString() });
+    },
+
+    async listChunks(roomId, userId) {
+      const rows = userId
+        ? db.prepare('SELECT * FROM chunks WHERE room_id = ? AND user_id = ? ORDER BY seq, received_at').all(roomId, userId)
+        : db.prepare('SELECT * FROM chunks WHERE room_id = ? ORDER BY user_id, seq, received_at').all(roomId);
+      return rows.map(toChunk);
+    },
+
+    async saveSummary(summary) {
+      db.prepare('INSERT INTO summaries (room_id, created_at, summary, meta) VALUES (?, ?, ?, ?)')
+        .run(summary.roomId, summary.createdAt, summary.summary, summary.meta ? JSON.stringify(summary.meta) : null);
+    },
+
+    async listSummaries(roomId) {
+      const rows = db.prepare('SELECT * FROM summaries WHERE room_id = ? ORDER BY id').all(roomId) as any[];
+      return rows.map((r): SummaryRecord => ({ roomId: r.room_id, createdAt: r.created_at, summary: r.summary, meta: r.meta ? JSON.parse(r.meta) : undefined }));
+    },
+
+    async deleteTranscripts(roomId, userId) {
+      if (userId) deleteParticipant(roomId, userId);
+      else deleteRoom(roomId);
+    },
+
+    async deleteSegments(roomId, userId) {
+      if (userId) db.prepare('DELETE FROM segments WHERE room_id = ? AND user_id = ?').run(roomId, userId);
+      else db.prepare('DELETE FROM segments WHERE room_id = ?').run(roomId);
+    },
+  };
+}
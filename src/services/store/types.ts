@@ -0,0 +1,94 @@
+import { MeetingSegment } from '../segments';
+
+// Per-room choices applied at finalize unless the request overrides them
+export interface RoomSettings {
+  // summary template name (meeting, standup, lecture, one-on-one, client-call or a custom one)
+  template?: string;
+  // output language for the summary, email and transcript export (es, en, pt)
+  locale?: string;
+  // days of inactivity before the retention sweeper purges the room; 0 keeps it, null/absent uses ROOM_RETENTION_DAYS
+  retentionDays?: number | null;
+}
+
+// closed rooms accept no more audio or chat; records written before lifecycle support have no status and count as open
+export type RoomStatus = 'open' | 'closed';
+
+export interface RoomRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  status?: RoomStatus;
+  closedAt?: string;
+  settings?: RoomSettings;
+}
+
+export interface ParticipantRecord {
+  roomId: string;
+  userId: string;
+  email?: string;
+  displayName?: string;
+  joinedAt: string;
+  lastSeenAt: string;
+}
+
+export interface SummaryRecord {
+  roomId: string;
+  createdAt: string;
+  summary: string;
+  // free-form details about how the summary was produced (model, status, ...)
+  meta?: Record<string, unknown>;
+}
+
+// skipped: preprocessing found no speech, so it was never transcribed
+export type ChunkStatus = 'received' | 'transcribed' | 'skipped' | 'failed';
+
+// One uploaded audio chunk, tracked for ordering, de-duplication and gap reporting
+export interface ChunkRecord {
+  id: string;
+  roomId: string;
+  userId: string;
+  seq?: number;
+  idempotencyKey?: string;
+  status: ChunkStatus;
+  jobId?: string;
+  receivedAt: string;
+  updatedAt: string;
+}
+
+export interface ParticipantInfo {
+  email?: string;
+  displayName?: string;
+}
+
+/**
+ * Persistence for rooms, participants, transcript segments and summaries.
+ * Implementations must be safe to call concurrently for the same room.
+ */
+export interface TranscriptStore {
+  readonly backend: 'fs' | 'sqlite';
+  // Append segments for one participant, creating the room/participant records as needed
+  appendSegments(roomId: string, userId: string, segments: MeetingSegment[], participant?: ParticipantInfo): Promise<void>;
+  // Segments sorted by meeting time, or by chunk sequence when filtered to one participant with `userId`
+  listSegments(roomId: string, userId?: string): Promise<MeetingSegment[]>;
+  getRoom(roomId: string): Promise<RoomRecord | null>;
+  listRooms(): Promise<RoomRecord[]>;
+  // Open or close the room, creating it when needed; closing stamps `closedAt`, reopening clears it
+  setRoomStatus(roomId: string, status: RoomStatus): Promise<RoomRecord>;
+  // Merge settings into the room, creating it when needed; undefined values leave a setting unchanged
+  updateRoomSettings(roomId: string, settings: RoomSettings): Promise<RoomRecord>;
+  listParticipants(roomId: string): Promise<ParticipantRecord[]>;
+  saveSummary(summary: SummaryRecord): Promise<void>;
+  listSummaries(roomId: string): Promise<SummaryRecord[]>;
+  /**
+   * Record an incoming chunk. When a non-failed chunk with the same idempotency key, or the same
+   * sequence number for that participant, already exists it is returned with `duplicate: true`.
+   */
+  registerChunk(chunk: ChunkRecord): Promise<{ chunk: ChunkRecord; duplicate: boolean }>;
+  updateChunk(roomId: string, chunkId: string, patch: Partial<Pick<ChunkRecord, 'status' | 'jobId'>>): Promise<void>;
+  listChunks(roomId: string, userId?: string): Promise<ChunkRecord[]>;
+  // Remove segments and chunks (all, or one participant's); the room itself is removed once no segments remain
+  deleteTranscripts(roomId: string, userId?: string): Promise<void>;
+  // Remove only transcript segments (all, or one participant's); the room record, its settings and status,
+  // participants, chunk records and summaries stay
+  deleteSegments(roomId: string, userId?: string): Promise<void>;
+}
@@ -0,0 +1,33 @@
+import WebSocket from 'ws';
+import { MeetingSegment } from '../segments';
+
+// Events pushed to every socket subscribed to a room
+export type StreamEvent =
+  | { type: 'ready'; roomId: string; userId: string | null; role: 'publisher' | 'subscriber' }
+  | { type: 'speech-start'; roomId: string; userId: string; startMs: number }
+  // best-effort text for speech still in progress; replaced by the final event
+  | { type: 'partial'; roomId: string; userId: string; startMs: number; endMs: number; text: string }
+  | { type: 'final'; roomId: string; userId: string; startMs: number; endMs: number; text: string; segments: MeetingSegment[] }
+  | { type: 'publisher-joined' | 'publisher-left'; roomId: string; userId: string }
+  | { type: 'error'; roomId: string; userId: string | null; message: string };
+
+const rooms = new Map<string, Set<WebSocket>>();
+
+export function subscribe(roomId: string, socket: WebSocket) {
+  let set = rooms.get(roomId);
+  if (!set) rooms.set(roomId, set = new Set());
+  set.add(socket);
+  socket.once('close', () => {
+    set!.delete(socket);
+    if (!set!.size && rooms.get(roomId) === set) rooms.delete(roomId);
+  });
+}
+
+export function broadcast(roomId: string, event: StreamEvent) {
+  const set = rooms.get(roomId);
+  if (!set) return;
+  const data = JSON.stringify(event);
+  for (const socket of set) if (socket.readyState === WebSocket.OPEN) socket.send(data);
+}
+
+export const subscriberCount = (roomId: string) => rooms.get(roomId)?.size || 0;
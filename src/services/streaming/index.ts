@@ -0,0 +1,3 @@
+export { attachStreamingServer, STREAM_PATH } from './server';
+export { broadcast, subscribe, StreamEvent } from './hub';
+export { createVadSegmenter, vadOptionsFromEnv, SpeechSegment, VadOptions } from './vad';
@@ -0,0 +1,125 @@
+import http from 'http';
+import { Duplex } from 'stream';
+import WebSocket, { WebSocketServer } from 'ws';
+import { authEnabled, canAccessRoom, canActAs, Principal, principalForToken } from '../../middleware/auth';
+import { isRoomClosed } from '../rooms';
+import { isValidRoomId } from '../store';
+import { checkQuota, retryAfterSeconds, tenantFor } from '../usage';
+import { isProviderName } from '../transcription/providers';
+import { broadcast, subscribe } from './hub';
+import { createStreamSession, decoderAvailable, needsDecoder, STREAM_FORMATS, StreamFormat } from './session';
+
+export const STREAM_PATH = '/api/audio/stream';
+
+function reject(socket: Duplex, status: number, message: string, headers: Record<string, string> = {}) {
+  const extra = Object.entries(headers).map(([k, v]) => `${k}: ${v}\r\n`).join('');
+  socket.end(`HTTP/1.1 ${status} ${http.STATUS_CODES[status]}\r\nContent-Type: application/json\r\n${extra}Connection: close\r\n\r\n` +
+    JSON.stringify({ success: false, message }));
+}
+
+// Browsers cannot set headers on WebSocket requests, so the token may also come as `access_token`
+function upgradeToken(req: http.IncomingMessage, url: URL) {
+  const header = String(req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+  return header?.[1].trim() || String(req.headers['x-api-key'] || '') || url.searchParams.get('access_token') || '';
+}
+
+/**
+ * Live captions over WebSocket at /api/audio/stream.
+ * Query params: roomId, role (`publisher` sends audio, `subscriber` only listens; default subscriber),
+ * userId, email, provider, offsetMs, format (webm|ogg|pcm16, default webm), sampleRate and channels (pcm16),
+ * access_token (when no Authorization header can be sent).
+ * Publishers send binary audio frames and a `{"type":"end"}` text message (or just close) when done;
+ * every socket in the room receives JSON events: speech-start, partial, final, publisher-joined/left, error.
+ * A publisher whose speech queues up faster than it is transcribed is closed with 1013 (STREAM_MAX_PENDING_FINALS).
+ */
+export function attachStreamingServer(server: http.Server) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 1024 * 1024 });
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== STREAM_PATH) return socket.destroy();
+
+    const q = url.searchParams;
+    const roomId = q.get('roomId') || 'global';
+    if (!isValidRoomId(roomId)) return reject(socket, 400, 'Invalid room id');
+    const role = q.get('role') === 'publisher' ? 'publisher' : 'subscriber';
+    const format = (q.get('format') || 'webm').toLowerCase() as StreamFormat;
+    if (role === 'publisher' && !STREAM_FORMATS.includes(format)) return reject(socket, 400, `format must be one of ${STREAM_FORMATS.join(', ')}`);
+    const provider = q.get('provider');
+    if (role === 'publisher' && provider && !isProviderName(provider)) return reject(socket, 400, `Unknown transcription provider: ${provider}`);
+
+    let principal: Principal | undefined;
+    if (authEnabled()) {
+      const token = upgradeToken(req, url);
+      principal = token ? principalForToken(token, STREAM_PATH) || undefined : undefined;
+      if (!principal) return reject(socket, 401, token ? 'Invalid credentials' : 'Missing credentials');
+    }
+    const userId = q.get('userId') || principal?.userId || (role === 'publisher' ? 'unknown' : null);
+    if (!canAccessRoom(principal, roomId)) return reject(socket, 403, 'Not allowed for this room');
+    if (role === 'publisher' && !canActAs(principal, userId || undefined)) return reject(socket, 403, 'Not allowed for this user');
+
+    const accept = () => wss.handleUpgrade(req, socket, head, (ws) => {
+      subscribe(roomId, ws);
+      ws.send(JSON.stringify({ type: 'ready', roomId, userId, role }));
+      if (role === 'publisher') handlePublisher(ws, roomId, userId as string, format, q, tenantFor(principal));
+    });
+    // listeners may still join a closed room; publishers may not add audio to it, nor stream past the audio quota
+    if (role !== 'publisher') return accept();
+    const numberParam = (name: string) => Number(q.get(name)) || undefined;
+    if (needsDecoder({ format, sampleRate: numberParam('sampleRate'), channels: numberParam('channels') }) && !decoderAvailable()) {
+      return reject(socket, 503, 'Too many live streams; try again later', { 'Retry-After': '30' });
+    }
+    Promise.all([isRoomClosed(roomId), checkQuota({ tenant: tenantFor(principal), roomId, userId: userId as string }, 'audioSeconds')])
+      .then(([closed, exceeded]) => {
+        if (closed) return reject(socket, 409, 'Room is closed');
+        if (exceeded) {
+          return reject(socket, 429, `Quota exceeded: audioSeconds limit of ${exceeded.limit} per ${exceeded.period} reached for ${exceeded.scope} ${exceeded.id}`,
+            { 'Retry-After': String(retryAfterSeconds(exceeded)) });
+        }
+        accept();
+      })
+      .catch(e => { console.warn('[stream] room lookup failed', { roomId }, e); reject(socket, 500, 'Room lookup failed'); });
+  });
+
+  console.log('[stream] websocket endpoint ready', { path: STREAM_PATH });
+  return wss;
+}
+
+function handlePublisher(ws: WebSocket, roomId: string, userId: string, format: StreamFormat, q: URLSearchParams, tenant: string) {
+  const numberParam = (name: string) => q.get(name) !== null && Number.isFinite(Number(q.get(name))) ? Number(q.get(name)) : undefined;
+  let session: ReturnType<typeof createStreamSession>;
+  try {
+    session = createStreamSession({
+      roomId,
+      userId,
+      email: q.get('email') || undefined,
+      format,
+      sampleRate: numberParam('sampleRate'),
+      channels: numberParam('channels'),
+      provider: q.get('provider') || undefined,
+      offsetMs: numberParam('offsetMs') !== undefined ? Math.max(0, numberParam('offsetMs') as number) : undefined,
+      tenant,
+      onFailure: (message) => ws.close(1011, message),
+      // 1013: try again later
+      onOverload: (message) => ws.close(1013, message),
+    });
+  } catch (e) {
+    ws.close(1011, e instanceof Error ? e.message : 'stream setup failed');
+    return;
+  }
+  broadcast(roomId, { type: 'publisher-joined', roomId, userId });
+
+  let ending: Promise<void> | null = null;
+  const end = () => ending || (ending = session.end()
+    .catch(e => console.warn('[stream] session end failed', { roomId, userId }, e))
+    .finally(() => broadcast(roomId, { type: 'publisher-left', roomId, userId })));
+
+  ws.on('message', (data, isBinary) => {
+    if (isBinary) return session.write(Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer));
+    let message: any = null;
+    try { message = JSON.parse(String(data)); } catch { /* ignore non-JSON text */ }
+    if (message?.type === 'end') end().then(() => ws.close(1000, 'stream ended'));
+  });
+  ws.on('close', () => { end(); });
+  ws.on('error', (e) => console.warn('[stream] socket error', { roomId, userId }, e.message));
+}
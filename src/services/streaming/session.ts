@@ -0,0 +1,253 @@
+import fs from 'fs';
+import path from 'path';
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import ffmpegPath from 'ffmpeg-static';
+import { transcribeBuffer } from '../transcribe';
+import { toMeetingSegments } from '../segments';
+import { redactSegments, redactText } from '../redaction';
+import { getTranscriptStore } from '../store';
+import { meetingOffsetMs } from '../chunks';
+import { checkQuota, DEFAULT_TENANT, recordUsage, UsageSubject } from '../usage';
+import { config, roomConfig } from '../../config';
+import { broadcast } from './hub';
+import { createVadSegmenter, pcmToWav, SAMPLE_RATE, SpeechSegment } from './vad';
+
+// webm/ogg carry Opus from MediaRecorder; pcm16 is raw signed 16-bit little-endian samples
+export type StreamFormat = 'webm' | 'ogg' | 'pcm16';
+export const STREAM_FORMATS: StreamFormat[] = ['webm', 'ogg', 'pcm16'];
+
+export interface StreamSessionOptions {
+  roomId: string;
+  userId: string;
+  email?: string;
+  format: StreamFormat;
+  // pcm16 only
+  sampleRate?: number;
+  channels?: number;
+  provider?: string;
+  // stream start relative to meeting start; derived from arrival time when absent
+  offsetMs?: number;
+  // billed for the transcribed audio (see services/usage)
+  tenant?: string;
+  // the session cannot go on (decoder failed); the caller should close the stream
+  onFailure?: (message: string) => void;
+  // transcription fell STREAM_MAX_PENDING_FINALS utterances behind; the caller should close the stream
+  onOverload?: (message: string) => void;
+}
+
+const partialIntervalMs = () => config().STREAM_PARTIAL_INTERVAL_MS;
+
+// Live decoders run for the whole stream, outside the FFMPEG_CONCURRENCY pool; STREAM_MAX_DECODERS caps them
+let activeDecoders = 0;
+
+export const streamDecoderStats = () => ({ active: activeDecoders, max: config().STREAM_MAX_DECODERS });
+
+// PCM that is already 16 kHz mono goes straight to the segmenter
+export const needsDecoder = (options: Pick<StreamSessionOptions, 'format' | 'sampleRate' | 'channels'>) =>
+  !(options.format === 'pcm16' && (options.sampleRate || SAMPLE_RATE) === SAMPLE_RATE && (options.channels || 1) === 1);
+
+export const decoderAvailable = () => activeDecoders < config().STREAM_MAX_DECODERS;
+
+// ffmpeg turns the incoming container/rate into the 16 kHz mono PCM the segmenter expects
+function startDecoder(options: StreamSessionOptions): ChildProcessWithoutNullStreams {
+  if (!ffmpegPath) throw new Error('ffmpeg-static not available');
+  if (!decoderAvailable()) throw new Error('Too many live streams; try again later');
+  const input = options.format === 'pcm16'
+    ? ['-f', 's16le', '-ar', String(options.sampleRate || SAMPLE_RATE), '-ac', String(options.channels || 1), '-i', 'pipe:0']
+    : ['-f', options.format === 'ogg' ? 'ogg' : 'webm', '-i', 'pipe:0'];
+  const child = spawn(ffmpegPath as string, ['-hide_banner', '-loglevel', 'error', ...input, '-ac', '1', '-ar', String(SAMPLE_RATE), '-f', 's16le', 'pipe:1']);
+  activeDecoders++;
+  // a failed spawn emits 'error' and may never emit 'close'; release the slot once either way
+  let released = false;
+  const release = () => { if (!released) { released = true; activeDecoders--; } };
+  child.on('error', release);
+  child.once('close', release);
+  return child;
+}
+
+async function transcribePcm(pcm: Buffer, provider: string | undefined, timestamps: boolean, usage: UsageSubject) {
+  const tmpDir = config().STORAGE_TEMP_PATH;
+  await fs.promises.mkdir(tmpDir, { recursive: true });
+  const filePath = path.join(tmpDir, `stream-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.wav`);
+  await fs.promises.writeFile(filePath, pcmToWav(pcm));
+  try {
+    const result = await transcribeBuffer(filePath, { provider, timestamps });
+    // 16-bit mono samples; partials re-send the open segment and are billed again
+    await recordUsage('audioSeconds', pcm.length / 2 / SAMPLE_RATE, usage);
+    return result;
+  } finally {
+    await fs.promises.unlink(filePath).catch(() => {});
+  }
+}
+
+/**
+ * One participant's live audio stream: decode, segment on voice activity, transcribe each
+ * segment in order, store it with the room transcript and push partial/final events to the room.
+ */
+export function createStreamSession(options: StreamSessionOptions) {
+  const { roomId, userId } = options;
+  // the config file can pin a provider and timestamps per room; the client's choice still wins
+  const settings = roomConfig(roomId);
+  const provider = options.provider || settings.TRANSCRIPTION_PROVIDER;
+  const usage: UsageSubject = { tenant: options.tenant || DEFAULT_TENANT, roomId, userId };
+  const startedAt = new Date().toISOString();
+  const baseOffset = options.offsetMs !== undefined ? Promise.resolve(options.offsetMs) : meetingOffsetMs(roomId, startedAt).catch(() => 0);
+  const wantTimestamps = settings.TRANSCRIBE_TIMESTAMPS;
+  const segmenter = createVadSegmenter();
+  const decoder = needsDecoder(options) ? startDecoder(options) : null;
+
+  let finals: Promise<void> = Promise.resolve();
+  let pendingFinals = 0;
+  let partialInFlight = false;
+  let lastPartialEndMs = 0;
+  let openSegmentStart: number | null = null;
+  const finishedStarts = new Set<number>();
+  let closed = false;
+  // the decoder died: no more audio is accepted, what was already segmented is still transcribed
+  let failed = false;
+  // the provider is slower than the speaker: further audio is refused rather than queued without bound
+  let overloaded = false;
+
+  const emitError = (message: string) => broadcast(roomId, { type: 'error', roomId, userId, message });
+
+  // once the audio quota runs out the rest of the stream is not transcribed (one error event, no retries)
+  let overQuota = false;
+  const withinQuota = async () => {
+    if (overQuota) return false;
+    const exceeded = await checkQuota(usage, 'audioSeconds');
+    if (!exceeded) return true;
+    // a partial and a final may both have been waiting on the check
+    if (!overQuota) {
+      overQuota = true;
+      console.warn('[usage] audio quota used up; live captions stopped', { ...usage, scope: exceeded.scope, period: exceeded.period });
+      emitError(`Audio quota exceeded; resets at ${exceeded.resetsAt}`);
+    }
+    return false;
+  };
+
+  const finalize = (segment: SpeechSegment) => {
+    finishedStarts.add(segment.startMs);
+    if (overloaded) return;
+    if (pendingFinals >= config().STREAM_MAX_PENDING_FINALS) {
+      overloaded = true;
+      console.warn('[stream] transcription falling behind; stopping stream', { roomId, userId, pending: pendingFinals });
+      emitError('Transcription is falling behind; stream stopped');
+      options.onOverload?.('Transcription is falling behind');
+      return;
+    }
+    pendingFinals++;
+    finals = finals.then(async () => {
+      try {
+        if (!(await withinQuota())) return;
+        const offset = await baseOffset;
+        const result = await transcribePcm(segment.pcm, provider, wantTimestamps, usage);
+        const receivedAt = new Date().toISOString();
+        const segments = redactSegments(toMeetingSegments(roomId, userId, offset + segment.startMs, result.transcript, result.segments, receivedAt));
+        if (!segments.length) return;
+        await getTranscriptStore().appendSegments(roomId, userId, segments, { email: options.email });
+        // listeners see the redacted text; the raw line stays in the store for its speaker
+        const shared = segments.map(({ originalText, ...s }) => s);
+        broadcast(roomId, {
+          type: 'final', roomId, userId,
+          startMs: offset + segment.startMs, endMs: offset + segment.endMs,
+          text: shared.map(s => s.text).join(' ').trim(), segments: shared,
+        });
+      } catch (e) {
+        console.warn('[stream] segment transcription failed', { roomId, userId, startMs: segment.startMs }, e instanceof Error ? e.message : e);
+        emitError('Segment transcription failed');
+      } finally {
+        pendingFinals--;
+      }
+    });
+  };
+
+  // Partial captions: re-transcribe the open segment every STREAM_PARTIAL_INTERVAL_MS while nothing else is queued
+  const maybePartial = () => {
+    const interval = partialIntervalMs();
+    const current = segmenter.current();
+    if (!current || interval <= 0 || partialInFlight || pendingFinals > 0 || overQuota) return;
+    if (current.endMs - Math.max(lastPartialEndMs, current.startMs) < interval) return;
+    partialInFlight = true;
+    lastPartialEndMs = current.endMs;
+    (async () => {
+      try {
+        if (!(await withinQuota())) return;
+        const offset = await baseOffset;
+        const result = await transcribePcm(current.pcm, provider, false, usage);
+        const text = redactText(result.transcript.trim()).text;
+        // the final for this segment already went out
+        if (!text || finishedStarts.has(current.startMs)) return;
+        broadcast(roomId, { type: 'partial', roomId, userId, startMs: offset + current.startMs, endMs: offset + current.endMs, text });
+      } catch (e) {
+        console.warn('[stream] partial transcription failed', { roomId, userId }, e instanceof Error ? e.message : e);
+      } finally {
+        partialInFlight = false;
+      }
+    })();
+  };
+
+  const onPcm = (pcm: Buffer) => {
+    for (const segment of segmenter.push(pcm)) finalize(segment);
+    const current = segmenter.current();
+    if (current && current.startMs !== openSegmentStart) {
+      openSegmentStart = current.startMs;
+      baseOffset.then(offset => broadcast(roomId, { type: 'speech-start', roomId, userId, startMs: offset + current.startMs }));
+    }
+    if (!current) openSegmentStart = null;
+    maybePartial();
+  };
+
+  let decoderDone: Promise<void> = Promise.resolve();
+  if (decoder) {
+    let stderr = '';
+    decoder.stdout.on('data', onPcm);
+    decoder.stderr.on('data', (d: Buffer) => { stderr = (stderr + d.toString()).slice(-2000); });
+    // the client may hang up mid-write
+    decoder.stdin.on('error', () => {});
+    decoderDone = new Promise(resolve => {
+      // spawn failures (missing binary, EAGAIN, EMFILE) arrive here; unhandled they would take the server down
+      decoder.on('error', (e) => {
+        console.error('[stream] decoder failed', { roomId, userId, err: e.message });
+        if (failed) return;
+        failed = true;
+        if (!closed) {
+          emitError('Audio decoder failed');
+          options.onFailure?.('Audio decoder failed');
+        }
+        resolve();
+      });
+      decoder.once('close', (code) => {
+        if (code && !closed && !failed) {
+          console.warn('[stream] decoder exited', { roomId, userId, code, stderr: stderr.trim() });
+          emitError('Audio stream could not be decoded');
+        }
+        resolve();
+      });
+    });
+  }
+
+  console.log('[stream] session started', { roomId, userId, format: options.format, decoder: !!decoder });
+
+  return {
+    write(chunk: Buffer) {
+      if (closed || failed || overloaded) return;
+      if (decoder) decoder.stdin.write(chunk);
+      else onPcm(chunk);
+    },
+    // end of stream: transcribe the last open segment and wait for every final to be stored
+    async end() {
+      if (closed) return;
+      if (decoder) {
+        decoder.stdin.end();
+        await decoderDone;
+      }
+      closed = true;
+      const last = segmenter.flush();
+      if (last) finalize(last);
+      await finals;
+      console.log('[stream] session ended', { roomId, userId });
+    },
+  };
+}
+
+export type StreamSession = ReturnType<typeof createStreamSession>;
@@ -0,0 +1,157 @@
+import { config } from '../../config';
+
+// Streams are decoded to 16 kHz mono signed 16-bit little-endian PCM before segmentation
+export const SAMPLE_RATE = 16000;
+const BYTES_PER_MS = (SAMPLE_RATE * 2) / 1000;
+const FRAME_MS = 20;
+const FRAME_BYTES = FRAME_MS * BYTES_PER_MS;
+
+export interface VadOptions {
+  // frames louder than this (dBFS) count as speech, unless the noise floor is higher
+  thresholdDb: number;
+  // speech must rise this far above the running noise floor
+  marginDb: number;
+  // silence that ends a segment
+  silenceMs: number;
+  // shorter bursts (clicks, coughs) are dropped
+  minSpeechMs: number;
+  // long monologues are cut so captions keep flowing
+  maxSegmentMs: number;
+  // audio kept before the first speech frame so onsets are not clipped
+  preRollMs: number;
+}
+
+export const vadOptionsFromEnv = (): VadOptions => ({
+  thresholdDb: config().STREAM_VAD_THRESHOLD_DB,
+  marginDb: config().STREAM_VAD_MARGIN_DB,
+  silenceMs: config().STREAM_SILENCE_MS,
+  minSpeechMs: config().STREAM_MIN_SPEECH_MS,
+  maxSegmentMs: config().STREAM_MAX_SEGMENT_MS,
+  preRollMs: config().STREAM_PREROLL_MS,
+});
+
+// A finished stretch of speech; times are relative to the start of the stream
+export interface SpeechSegment {
+  startMs: number;
+  endMs: number;
+  pcm: Buffer;
+}
+
+export function frameDb(frame: Buffer) {
+  let sum = 0;
+  const samples = Math.floor(frame.length / 2);
+  for (let i = 0; i < samples; i++) {
+    const v = frame.readInt16LE(i * 2) / 32768;
+    sum += v * v;
+  }
+  const rms = Math.sqrt(sum / Math.max(1, samples));
+  return rms > 0 ? 20 * Math.log10(rms) : -100;
+}
+
+/**
+ * Energy-based voice activity detection over 20 ms frames with an adaptive noise floor.
+ * Feed PCM with `push`; finished speech segments are returned as soon as enough silence
+ * follows them (or they reach maxSegmentMs). `current` exposes the segment still in progress.
+ */
+export function createVadSegmenter(options: VadOptions = vadOptionsFromEnv()) {
+  let pending: Buffer = Buffer.alloc(0);
+  let positionMs = 0;
+  let noiseFloorDb = -60;
+  let preRoll: Buffer[] = [];
+  let speech: Buffer[] = [];
+  let speechStartMs = 0;
+  let speechMs = 0;
+  let silenceRunMs = 0;
+  let inSpeech = false;
+
+  const close = (): SpeechSegment | null => {
+    // trailing silence is trimmed, keeping a little tail for the last word
+    const keepFrames = speech.length - Math.max(0, Math.floor((silenceRunMs - 100) / FRAME_MS));
+    const pcm = Buffer.concat(speech.slice(0, Math.max(0, keepFrames)));
+    const segment = { startMs: speechStartMs, endMs: speechStartMs + pcm.length / BYTES_PER_MS, pcm };
+    const voiced = speechMs;
+    inSpeech = false;
+    speech = [];
+    speechMs = 0;
+    silenceRunMs = 0;
+    return voiced >= options.minSpeechMs ? segment : null;
+  };
+
+  const onFrame = (frame: Buffer): SpeechSegment | null => {
+    const db = frameDb(frame);
+    const voiced = db > Math.max(options.thresholdDb, noiseFloorDb + options.marginDb);
+    const frameStart = positionMs;
+    positionMs += FRAME_MS;
+    if (!voiced) noiseFloorDb = noiseFloorDb * 0.95 + db * 0.05;
+
+    if (!inSpeech) {
+      if (!voiced) {
+        preRoll.push(frame);
+        if (preRoll.length * FRAME_MS > options.preRollMs) preRoll.shift();
+        return null;
+      }
+      inSpeech = true;
+      speech = preRoll.concat(frame);
+      speechStartMs = frameStart - preRoll.length * FRAME_MS;
+      preRoll = [];
+      speechMs = FRAME_MS;
+      silenceRunMs = 0;
+      return null;
+    }
+
+    speech.push(frame);
+    if (voiced) {
+      speechMs += FRAME_MS;
+      silenceRunMs = 0;
+    } else {
+      silenceRunMs += FRAME_MS;
+    }
+    if (silenceRunMs >= options.silenceMs || speech.length * FRAME_MS >= options.maxSegmentMs) return close();
+    return null;
+  };
+
+  return {
+    push(pcm: Buffer): SpeechSegment[] {
+      pending = pending.length ? Buffer.concat([pending, pcm]) : pcm;
+      const out: SpeechSegment[] = [];
+      let offset = 0;
+      for (; offset + FRAME_BYTES <= pending.length; offset += FRAME_BYTES) {
+        const segment = onFrame(pending.subarray(offset, offset + FRAME_BYTES));
+        if (segment) out.push(segment);
+      }
+      pending = Buffer.from(pending.subarray(offset));
+      return out;
+    },
+    // speech collected so far for the open segment, or null between segments
+    current(): SpeechSegment | null {
+      if (!inSpeech) return null;
+      const pcm = Buffer.concat(speech);
+      return { startMs: speechStartMs, endMs: speechStartMs + pcm.length / BYTES_PER_MS, pcm };
+    },
+    // close the open segment at end of stream
+    flush(): SpeechSegment | null {
+      return inSpeech ? close() : null;
+    },
+  };
+}
+
+export type VadSegmenter = ReturnType<typeof createVadSegmenter>;
+
+// Minimal RIFF/WAVE header so providers accept the raw PCM
+export function pcmToWav(pcm: Buffer, sampleRate = SAMPLE_RATE) {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
@@ -0,0 +1,78 @@
+import { Locale } from './i18n';
+import { MeetingSegment } from './segments';
+import { buildTimeline, renderTimeline } from './timeline';
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'txt' | 'json';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['srt', 'vtt', 'txt', 'json'];
+
+export interface TranscriptCue {
+  speaker: string;
+  // seconds from meeting start
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Cues shorter than this are stretched so players can display them
+const MIN_CUE_MS = 1000;
+// Reading-speed estimate used when a segment has no duration (plain-text fallback)
+const MS_PER_WORD = 400;
+
+/**
+ * Turn meeting segments into display cues. Zero-length segments get an estimated
+ * duration, capped so they never run past the next cue's start.
+ */
+export function toCues(segments: MeetingSegment[], speakerName: (userId: string) => string = (id) => id): TranscriptCue[] {
+  const sorted = [...segments].sort((a, b) => a.startMs - b.startMs);
+  return sorted.map((s, i) => {
+    let endMs = s.endMs;
+    if (endMs - s.startMs < MIN_CUE_MS) {
+      const estimate = s.startMs + Math.max(MIN_CUE_MS, s.text.split(/\s+/).length * MS_PER_WORD);
+      const next = sorted[i + 1];
+      endMs = next && next.startMs > s.startMs ? Math.min(estimate, next.startMs) : estimate;
+    }
+    return { speaker: speakerName(s.userId), start: s.startMs / 1000, end: endMs / 1000, text: s.text };
+  });
+}
+
+function timestamp(sec: number, msSeparator: ',' | '.') {
+  const totalMs = Math.max(0, Math.round(sec * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, w = 2) => String(n).padStart(w, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${msSeparator}${pad(ms, 3)}`;
+}
+
+export function renderSrt(cues: TranscriptCue[]) {
+  return cues
+    .map((c, i) => `${i + 1}\n${timestamp(c.start, ',')} --> ${timestamp(c.end, ',')}\n${c.speaker}: ${c.text}\n`)
+    .join('\n');
+}
+
+// WebVTT voice spans (<v Speaker>) let players style or filter by speaker
+export function renderVtt(cues: TranscriptCue[]) {
+  const escape = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const body = cues
+    .map(c => `${timestamp(c.start, '.')} --> ${timestamp(c.end, '.')}\n<v ${escape(c.speaker)}>${escape(c.text)}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+export function renderTranscript(
+  segments: MeetingSegment[],
+  format: TranscriptFormat,
+  locale: Locale = 'es',
+  speakerName?: (userId: string) => string,
+): { contentType: string; body: string } {
+  const cues = toCues(segments, speakerName);
+  switch (format) {
+    case 'srt': return { contentType: 'application/x-subrip; charset=utf-8', body: renderSrt(cues) };
+    case 'vtt': return { contentType: 'text/vtt; charset=utf-8', body: renderVtt(cues) };
+    // plain text follows the merged finalize timeline (turns, chat lines, overlaps)
+    case 'txt': return { contentType: 'text/plain; charset=utf-8', body: renderTimeline(buildTimeline(segments, speakerName), locale) + '\n' };
+    case 'json': return { contentType: 'application/json; charset=utf-8', body: JSON.stringify({ cues }) };
+  }
+}
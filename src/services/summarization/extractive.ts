@@ -0,0 +1,166 @@
+import { resolveLocale } from '../i18n';
+import { formatClock, TimelineEntry } from '../timeline';
+import { ActionItem, renderStructuredSummary, StructuredSummary } from './schema';
+import { SummarizeOptions, SummarizeResult } from './types';
+import { config } from '../../config';
+
+// Function words ignored when weighting terms (Spanish, English, Portuguese)
+const STOPWORDS = new Set((
+  'a al algo como con de del el ella ellos en era es esa ese eso esta este esto estoy fue ha hay la las le les lo los mas me mi muy no nos o para pero por que se si sin sobre su sus también te tu un una uno y ya yo ' +
+  'about an and are as at be but by do for from have he i if in is it its me my not of on or our so that the their them there they this to was we were what when which will with you your ' +
+  'ao aos as com da das do dos e em eu isso mais mas na nas no nos num numa os ou para pela pelo por que se sem ser seu sua também um uma você'
+).split(' '));
+
+// Sentences that commit someone to do something
+const ACTION_PATTERNS = [
+  /\b(voy a|vamos a|me encargo|me comprometo|tengo que|tenemos que|hay que|debemos|debo|queda pendiente|pendiente:?|para el (lunes|martes|miércoles|jueves|viernes))\b/i,
+  /\b(i will|i'll|we will|we'll|i need to|we need to|action item|to-?do|follow up|by (monday|tuesday|wednesday|thursday|friday|tomorrow))\b/i,
+  /\b(vou|vamos|eu fico|preciso|precisamos|temos que|fica pendente)\b/i,
+];
+
+const DECISION_PATTERNS = [
+  /\b(decidimos|acordamos|se decidió|se aprobó|quedamos en|aprobado)\b/i,
+  /\b(we decided|decided to|we agreed|agreed to|approved|let's go with)\b/i,
+  /\b(decidimos|combinamos|ficou decidido|aprovado)\b/i,
+];
+
+// First-person phrasing means the speaker owns the task
+const FIRST_PERSON = /\b(voy|me encargo|me comprometo|tengo|debo|i will|i'll|i need|vou|eu fico|preciso)\b/i;
+
+interface Sentence {
+  speaker: string;
+  startMs: number;
+  text: string;
+  terms: string[];
+}
+
+const tokenize = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').match(/[a-z0-9ñ]+/g)?.filter(t => t.length > 2 && !STOPWORDS.has(t)) || [];
+
+function splitSentences(timeline: TimelineEntry[]): Sentence[] {
+  const out: Sentence[] = [];
+  for (const e of timeline) {
+    for (const raw of e.text.split(/(?<=[.!?¿¡])\s+/)) {
+      const text = raw.trim();
+      const terms = tokenize(text);
+      if (terms.length >= 2) out.push({ speaker: e.speaker, startMs: e.startMs, text, terms });
+    }
+  }
+  return out;
+}
+
+// TF-IDF vector per sentence, treating each sentence as a document
+function tfidfVectors(sentences: Sentence[]) {
+  const df = new Map<string, number>();
+  for (const s of sentences) for (const t of new Set(s.terms)) df.set(t, (df.get(t) || 0) + 1);
+  const n = sentences.length;
+  const vectors = sentences.map(s => {
+    const tf = new Map<string, number>();
+    for (const t of s.terms) tf.set(t, (tf.get(t) || 0) + 1);
+    const v = new Map<string, number>();
+    for (const [t, c] of tf) v.set(t, (c / s.terms.length) * Math.log(1 + n / (df.get(t) || 1)));
+    return v;
+  });
+  return { vectors, df };
+}
+
+const norm = (v: Map<string, number>) => Math.sqrt(Array.from(v.values()).reduce((sum, w) => sum + w * w, 0));
+
+function dot(a: Map<string, number>, b: Map<string, number>) {
+  let sum = 0;
+  for (const [t, w] of a) { const o = b.get(t); if (o) sum += w * o; }
+  return sum;
+}
+
+// TextRank: PageRank over the sentence similarity graph (n² work: call it on at most RANK_WINDOW sentences)
+function textRank(vectors: Array<Map<string, number>>, iterations = 30, damping = 0.85) {
+  const n = vectors.length;
+  const norms = vectors.map(norm);
+  const sim = vectors.map((a, i) => vectors.map((b, j) => (i === j || !norms[i] || !norms[j] ? 0 : dot(a, b) / (norms[i] * norms[j]))));
+  const outWeight = sim.map(row => row.reduce((x, y) => x + y, 0));
+  let scores = new Array(n).fill(1 / n);
+  for (let it = 0; it < iterations; it++) {
+    scores = scores.map((_, i) => {
+      let acc = 0;
+      for (let j = 0; j < n; j++) if (sim[j][i] && outWeight[j]) acc += (sim[j][i] / outWeight[j]) * scores[j];
+      return (1 - damping) / n + damping * acc;
+    });
+  }
+  return scores;
+}
+
+// Sentences ranked together; a 2-hour meeting has thousands, so longer transcripts are ranked per window
+const RANK_WINDOW = 200;
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setImmediate(resolve));
+
+const topIndices = (scores: number[], keep: number) =>
+  scores.map((score, i) => ({ score, i })).sort((a, b) => b.score - a.score).slice(0, keep).map(({ i }) => i);
+
+/**
+ * Indices of the `keep` most central sentences, in meeting order. Past RANK_WINDOW sentences, each window's
+ * best sentences are ranked again against each other, yielding to the event loop between windows.
+ */
+async function rankSentences(vectors: Array<Map<string, number>>, keep: number): Promise<number[]> {
+  if (vectors.length <= RANK_WINDOW) return topIndices(textRank(vectors), keep).sort((a, b) => a - b);
+  // at most half of each window goes on, so every round shrinks the input
+  const perWindow = Math.min(keep, RANK_WINDOW / 2);
+  const candidates: number[] = [];
+  for (let start = 0; start < vectors.length; start += RANK_WINDOW) {
+    const window = vectors.slice(start, start + RANK_WINDOW);
+    candidates.push(...topIndices(textRank(window), perWindow).sort((a, b) => a - b).map(i => start + i));
+    await yieldToEventLoop();
+  }
+  return (await rankSentences(candidates.map(i => vectors[i]), keep)).map(i => candidates[i]);
+}
+
+function extractDate(text: string): string | null {
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return iso[0];
+  const dmy = text.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/);
+  if (dmy) return `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+  return null;
+}
+
+/**
+ * Offline summary: the top TextRank sentences (in meeting order) form the overview, the
+ * highest-weighted TF-IDF terms become key topics, and decision/action phrases are pulled
+ * out by pattern with the speaker and timestamp they came from.
+ */
+export async function summarizeExtractive(timeline: TimelineEntry[], options: SummarizeOptions = {}): Promise<SummarizeResult | null> {
+  const sentences = splitSentences(timeline);
+  if (!sentences.length) return null;
+  const maxSentences = config().SUMMARY_EXTRACTIVE_SENTENCES;
+
+  const { vectors } = tfidfVectors(sentences);
+  const top = (await rankSentences(vectors, maxSentences)).map(i => `${sentences[i].speaker}: ${sentences[i].text}`);
+
+  const termWeight = new Map<string, number>();
+  for (const v of vectors) for (const [t, w] of v) termWeight.set(t, (termWeight.get(t) || 0) + w);
+  const keyTopics = Array.from(termWeight).sort((a, b) => b[1] - a[1]).slice(0, 6).map(([t]) => t);
+
+  const decisions = sentences
+    .filter(s => DECISION_PATTERNS.some(p => p.test(s.text)))
+    .map(s => `${s.speaker}: ${s.text}`);
+
+  const actionItems: ActionItem[] = sentences
+    .filter(s => ACTION_PATTERNS.some(p => p.test(s.text)) && !DECISION_PATTERNS.some(p => p.test(s.text)))
+    .map(s => ({
+      description: s.text,
+      owner: FIRST_PERSON.test(s.text) ? s.speaker : null,
+      dueDate: extractDate(s.text),
+      sourceTimestamp: formatClock(s.startMs),
+    }));
+
+  const structured: StructuredSummary = {
+    participants: Array.from(new Set(timeline.map(e => e.speaker))),
+    overview: top.join(' '),
+    keyTopics,
+    decisions,
+    actionItems,
+    // template sections need a model; they render as empty
+    sections: {},
+  };
+  const locale = options.locale || resolveLocale(options.template?.locale);
+  return { summary: renderStructuredSummary(structured, { locale, template: options.template }), structured, windows: 0 };
+}
@@ -0,0 +1,4 @@
+export * from './types';
+export { parseStructuredSummary, renderStructuredSummary, StructuredSummary, ActionItem } from './schema';
+export { findTemplate, listTemplates, resolveTemplate, SummaryTemplate, TemplateSection } from './templates';
+export { getSummarizer, isSummarizerName, resolveSummarizerChain } from './providers';
@@ -0,0 +1,232 @@
+import { renderTimeline, TimelineEntry } from '../timeline';
+import { Locale, pick, resolveLocale, t } from '../i18n';
+import { parseStructuredSummary, renderStructuredSummary, structuredSummaryShape } from './schema';
+import { resolveTemplate, SummaryTemplate } from './templates';
+import { LlmComplete, SummarizeOptions, SummarizeResult } from './types';
+import { config } from '../../config';
+
+const settings = () => ({
+  // input budget per LLM call, leaving room for the prompt and the answer
+  windowTokens: config().SUMMARY_WINDOW_TOKENS,
+  partialMaxTokens: config().SUMMARY_PARTIAL_MAX_TOKENS,
+  finalMaxTokens: config().SUMMARY_MAX_TOKENS,
+  // extra calls allowed to fix JSON that fails schema validation
+  repairAttempts: config().SUMMARY_REPAIR_ATTEMPTS,
+});
+
+// Rough token estimate (~4 characters per token) good enough for budgeting windows
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Pack lines into windows of at most `budgetTokens`, never splitting a line unless it is
+ * larger than a whole window on its own.
+ */
+export function splitIntoWindows(lines: string[], budgetTokens: number): string[][] {
+  const maxChars = Math.max(1, budgetTokens * 4);
+  const windows: string[][] = [];
+  let current: string[] = [];
+  let used = 0;
+  const flush = () => { if (current.length) windows.push(current); current = []; used = 0; };
+
+  for (const line of lines) {
+    const pieces = line.length > maxChars ? line.match(new RegExp(`[\\s\\S]{1,${maxChars}}`, 'g')) || [] : [line];
+    for (const piece of pieces) {
+      const cost = estimateTokens(piece) + 1;
+      if (used + cost > budgetTokens) flush();
+      current.push(piece);
+      used += cost;
+    }
+  }
+  flush();
+  return windows;
+}
+
+interface PromptPack {
+  system: (purpose: string) => string;
+  sections: (shape: string, template: SummaryTemplate) => string;
+  repair: (previous: string, error: string, shape: string) => string;
+  final: (participantsText: string, transcript: string) => string;
+  window: (participantsText: string, part: number, total: number, text: string) => string;
+  merge: (participantsText: string, partials: string[]) => string;
+  mergeFinal: string;
+  mergePartial: string;
+}
+
+const sectionLines = (template: SummaryTemplate, locale: Locale) =>
+  template.sections.map(s => `- "sections.${s.key}": ${pick(s.instruction, locale)}.\n`).join('');
+
+const PROMPTS: Record<Locale, PromptPack> = {
+  es: {
+    system: (purpose) => `Eres un asistente que genera resúmenes ejecutivos en español para ${purpose}. ` +
+      `Trata la entrada como una TRANSCRIPCIÓN literal de audio/chat. No inventes participantes ni atribuyas declaraciones a personas que no aparecen nombradas en la transcripción. ` +
+      `Si una intervención no tiene un nombre claro, indícalo con "[Desconocido]". Devuelve SOLO el contenido solicitado en el formato indicado; NO incluyas ninguna frase que haga referencia a "Enviar por correo" o instrucciones de envío. ` +
+      `Siempre responde en español; evita opiniones o cualquier contenido no presente en la transcripción.`,
+    sections: (shape, template) =>
+      `- Devuelve SOLO un objeto JSON válido (sin texto adicional ni bloques de código) con esta forma exacta:\n` +
+      `${shape}\n` +
+      `- "participants": los nombres/identificadores que aparezcan.\n` +
+      `- "overview" y "keyTopics": sintetiza las ideas principales, anteponiendo el nombre cuando esté disponible (ej.: "Michael: ..."). Usa "[Desconocido]:" cuando no haya nombre.\n` +
+      `- "actionItems": acciones concretas; "owner" solo si el responsable se identifica, "dueDate" solo si se menciona una fecha, "sourceTimestamp" con la marca [hh:mm:ss] de donde surge la tarea.\n` +
+      sectionLines(template, 'es') +
+      `- Usa un tono profesional y claro; mantén la longitud razonable.`,
+    repair: (previous, error, shape) => `Tu respuesta anterior no cumple el formato requerido (${error}).\n\n` +
+      `Respuesta anterior:\n${previous}\n\n` +
+      `Corrígela y devuelve SOLO un objeto JSON válido con esta forma exacta:\n${shape}`,
+    final: (participantsText, transcript) => `Participantes detectados: ${participantsText}\n\n` +
+      `Transcripción de la sesión:\n\n${transcript}\n\n` +
+      `Notas sobre formato:\n` +
+      `- La transcripción está en orden cronológico con el formato "[hh:mm:ss] Nombre: mensaje"; las entradas de chat aparecen como "[hh:mm:ss] (chat) Nombre: mensaje".\n` +
+      `- "(habla a la vez que: X)" indica habla superpuesta; respeta el orden de los turnos al resumir la conversación.\n` +
+      `- No inventes nombres ni atribuciones; si no se puede identificar, usa "[Desconocido]".\n`,
+    window: (participantsText, part, total, text) => `Participantes detectados: ${participantsText}\n\n` +
+      `Fragmento ${part} de ${total} de la transcripción (orden cronológico, formato "[hh:mm:ss] Nombre: mensaje"):\n\n${text}\n\n` +
+      `Resume SOLO este fragmento en viñetas breves: temas tratados con quién los planteó, decisiones tomadas y tareas/compromisos con responsable. ` +
+      `Conserva la marca de tiempo [hh:mm:ss] de cada punto y los nombres tal como aparecen. No agregues secciones ni conclusiones.`,
+    merge: (participantsText, partials) => `Participantes detectados: ${participantsText}\n\n` +
+      `Resúmenes parciales de la sesión, en orden cronológico:\n\n${partials.map((p, i) => `### Parte ${i + 1}\n${p}`).join('\n\n')}\n\n`,
+    mergeFinal: `Combina los resúmenes parciales en un único resumen de toda la reunión, sin repetir puntos.\n`,
+    mergePartial: `Combina estos resúmenes parciales en uno solo, en viñetas breves y en orden cronológico, conservando marcas de tiempo, nombres, decisiones y tareas con responsable.`,
+  },
+  en: {
+    system: (purpose) => `You are an assistant that writes executive summaries in English for ${purpose}. ` +
+      `Treat the input as a literal audio/chat TRANSCRIPT. Do not invent participants or attribute statements to people who are not named in the transcript. ` +
+      `If a turn has no clear name, mark it as "[Unknown]". Return ONLY the requested content in the requested format; do NOT include any sentence about "sending by email" or delivery instructions. ` +
+      `Always answer in English, even when the transcript is in another language; avoid opinions or anything not present in the transcript.`,
+    sections: (shape, template) =>
+      `- Return ONLY a valid JSON object (no extra text or code fences) with exactly this shape:\n` +
+      `${shape}\n` +
+      `- "participants": the names/identifiers that appear.\n` +
+      `- "overview" and "keyTopics": synthesize the main ideas, prefixing the name when available (e.g. "Michael: ..."). Use "[Unknown]:" when there is no name.\n` +
+      `- "actionItems": concrete actions; "owner" only if the person responsible is identified, "dueDate" only if a date is mentioned, "sourceTimestamp" with the [hh:mm:ss] mark the item comes from.\n` +
+      sectionLines(template, 'en') +
+      `- Use a clear, professional tone; keep the length reasonable.`,
+    repair: (previous, error, shape) => `Your previous answer does not match the required format (${error}).\n\n` +
+      `Previous answer:\n${previous}\n\n` +
+      `Fix it and return ONLY a valid JSON object with exactly this shape:\n${shape}`,
+    final: (participantsText, transcript) => `Detected participants: ${participantsText}\n\n` +
+      `Session transcript:\n\n${transcript}\n\n` +
+      `Format notes:\n` +
+      `- The transcript is in chronological order as "[hh:mm:ss] Name: message"; chat entries appear as "[hh:mm:ss] (chat) Name: message".\n` +
+      `- A note in parentheses after a line marks overlapping speech; keep the order of turns when summarizing the conversation.\n` +
+      `- Do not invent names or attributions; if someone cannot be identified, use "[Unknown]".\n`,
+    window: (participantsText, part, total, text) => `Detected participants: ${participantsText}\n\n` +
+      `Part ${part} of ${total} of the transcript (chronological order, format "[hh:mm:ss] Name: message"):\n\n${text}\n\n` +
+      `Summarize ONLY this part in short bullets: topics discussed with who raised them, decisions made and action items with owner. ` +
+      `Keep the [hh:mm:ss] mark of each point and the names as they appear. Do not add sections or conclusions.`,
+    merge: (participantsText, partials) => `Detected participants: ${participantsText}\n\n` +
+      `Partial summaries of the session, in chronological order:\n\n${partials.map((p, i) => `### Part ${i + 1}\n${p}`).join('\n\n')}\n\n`,
+    mergeFinal: `Combine the partial summaries into a single summary of the whole meeting, without repeating points.\n`,
+    mergePartial: `Combine these partial summaries into one, in short bullets and chronological order, keeping timestamps, names, decisions and action items with owner.`,
+  },
+  pt: {
+    system: (purpose) => `Você é um assistente que gera resumos executivos em português para ${purpose}. ` +
+      `Trate a entrada como uma TRANSCRIÇÃO literal de áudio/chat. Não invente participantes nem atribua falas a pessoas que não aparecem nomeadas na transcrição. ` +
+      `Se uma fala não tiver um nome claro, indique com "[Desconhecido]". Devolva SOMENTE o conteúdo solicitado no formato indicado; NÃO inclua nenhuma frase sobre "enviar por e-mail" ou instruções de envio. ` +
+      `Sempre responda em português, mesmo que a transcrição esteja em outro idioma; evite opiniões ou qualquer conteúdo que não esteja na transcrição.`,
+    sections: (shape, template) =>
+      `- Devolva SOMENTE um objeto JSON válido (sem texto adicional nem blocos de código) com exatamente esta forma:\n` +
+      `${shape}\n` +
+      `- "participants": os nomes/identificadores que aparecerem.\n` +
+      `- "overview" e "keyTopics": sintetize as ideias principais, antepondo o nome quando disponível (ex.: "Michael: ..."). Use "[Desconhecido]:" quando não houver nome.\n` +
+      `- "actionItems": ações concretas; "owner" só se o responsável for identificado, "dueDate" só se uma data for mencionada, "sourceTimestamp" com a marca [hh:mm:ss] de onde surge a tarefa.\n` +
+      sectionLines(template, 'pt') +
+      `- Use um tom profissional e claro; mantenha um tamanho razoável.`,
+    repair: (previous, error, shape) => `Sua resposta anterior não cumpre o formato exigido (${error}).\n\n` +
+      `Resposta anterior:\n${previous}\n\n` +
+      `Corrija-a e devolva SOMENTE um objeto JSON válido com exatamente esta forma:\n${shape}`,
+    final: (participantsText, transcript) => `Participantes detectados: ${participantsText}\n\n` +
+      `Transcrição da sessão:\n\n${transcript}\n\n` +
+      `Notas sobre o formato:\n` +
+      `- A transcrição está em ordem cronológica no formato "[hh:mm:ss] Nome: mensagem"; as entradas de chat aparecem como "[hh:mm:ss] (chat) Nome: mensagem".\n` +
+      `- Uma nota entre parênteses depois de uma linha indica fala sobreposta; respeite a ordem dos turnos ao resumir a conversa.\n` +
+      `- Não invente nomes nem atribuições; se não for possível identificar, use "[Desconhecido]".\n`,
+    window: (participantsText, part, total, text) => `Participantes detectados: ${participantsText}\n\n` +
+      `Trecho ${part} de ${total} da transcrição (ordem cronológica, formato "[hh:mm:ss] Nome: mensagem"):\n\n${text}\n\n` +
+      `Resuma SOMENTE este trecho em tópicos breves: temas tratados com quem os levantou, decisões tomadas e tarefas/compromissos com responsável. ` +
+      `Mantenha a marca [hh:mm:ss] de cada ponto e os nomes como aparecem. Não adicione seções nem conclusões.`,
+    merge: (participantsText, partials) => `Participantes detectados: ${participantsText}\n\n` +
+      `Resumos parciais da sessão, em ordem cronológica:\n\n${partials.map((p, i) => `### Parte ${i + 1}\n${p}`).join('\n\n')}\n\n`,
+    mergeFinal: `Combine os resumos parciais em um único resumo de toda a reunião, sem repetir pontos.\n`,
+    mergePartial: `Combine estes resumos parciais em um só, em tópicos breves e em ordem cronológica, mantendo marcas de tempo, nomes, decisões e tarefas com responsável.`,
+  },
+};
+
+/**
+ * Summarize a meeting timeline with any LLM backend. Short meetings use a single call; longer ones are
+ * split into token-budgeted windows (map), and the partial summaries are merged level by level
+ * until they fit one final call (reduce). The final call must return JSON matching the structured
+ * summary schema; invalid output is sent back for repair a limited number of times.
+ * Prompts, section headings and the requested output language follow `options.template` and `options.locale`.
+ * Returns null when the model answered with no content. SDK/network errors are thrown to the caller.
+ */
+export async function runSummaryPipeline(complete: LlmComplete, timeline: TimelineEntry[], options: SummarizeOptions = {}): Promise<SummarizeResult | null> {
+  const { windowTokens, partialMaxTokens, finalMaxTokens, repairAttempts } = settings();
+  const participants = Array.from(new Set(timeline.map(e => e.speaker)));
+  const template = options.template || resolveTemplate();
+  const locale = options.locale || resolveLocale(template.locale);
+  const prompts = PROMPTS[locale];
+  const shape = structuredSummaryShape(locale, template);
+  const participantsText = participants.length ? participants.join(', ') : t(locale).noneIdentified;
+
+  const guidance = template.guidance ? ` ${pick(template.guidance, locale)}` : '';
+  const system = prompts.system(pick(template.purpose, locale)) + guidance;
+  const chat = (userPrompt: string, maxTokens: number, json = false) =>
+    complete({ system, user: userPrompt, maxTokens, json });
+
+  // Final call: validate against the schema, asking the model to repair invalid output
+  const structuredCall = async (prompt: string): Promise<Omit<SummarizeResult, 'windows'> | null> => {
+    let raw = await chat(prompt, finalMaxTokens, true);
+    if (!raw) return null;
+    for (let attempt = 0; ; attempt++) {
+      const parsed = parseStructuredSummary(raw);
+      if (parsed.ok) return { summary: renderStructuredSummary(parsed.value, { locale, template }), structured: parsed.value };
+      console.warn('[summarize] structured summary invalid', { attempt, error: parsed.error });
+      if (attempt >= repairAttempts) break;
+      const repaired = await chat(prompts.repair(raw, parsed.error, shape), finalMaxTokens, true);
+      if (!repaired) break;
+      raw = repaired;
+    }
+    // keep the model's text rather than losing the summary entirely
+    return { summary: raw, structured: null };
+  };
+
+  const transcript = renderTimeline(timeline, locale);
+  if (estimateTokens(transcript) <= windowTokens) {
+    console.log('[summarize] single call', { tokens: estimateTokens(transcript) });
+    const result = await structuredCall(prompts.final(participantsText, transcript) + prompts.sections(shape, template));
+    return result ? { ...result, windows: 1 } : null;
+  }
+
+  // map: one partial summary per transcript window
+  const windows = splitIntoWindows(transcript.split('\n'), windowTokens);
+  console.log('[summarize] map-reduce', { tokens: estimateTokens(transcript), windows: windows.length });
+  let partials: string[] = [];
+  for (let i = 0; i < windows.length; i++) {
+    const partial = await chat(prompts.window(participantsText, i + 1, windows.length, windows[i].join('\n')), partialMaxTokens);
+    if (partial) partials.push(partial.trim());
+    await options.onProgress?.({ stage: 'map', done: i + 1, total: windows.length, level: 0 });
+  }
+  if (!partials.length) return null;
+
+  // reduce: merge groups of partials until everything fits one final call
+  let level = 1;
+  while (estimateTokens(partials.join('\n\n')) > windowTokens && partials.length > 1) {
+    const groups = splitIntoWindows(partials, windowTokens);
+    // a group of one cannot shrink by merging, so stop rather than loop forever
+    if (groups.length === partials.length) break;
+    const merged: string[] = [];
+    for (let i = 0; i < groups.length; i++) {
+      const m = groups[i].length > 1 ? await chat(prompts.merge(participantsText, groups[i]) + prompts.mergePartial, partialMaxTokens) : groups[i][0];
+      if (m) merged.push(m.trim());
+      await options.onProgress?.({ stage: 'reduce', done: i + 1, total: groups.length, level });
+    }
+    partials = merged;
+    level++;
+  }
+
+  const result = await structuredCall(prompts.merge(participantsText, partials) + prompts.mergeFinal + prompts.sections(shape, template));
+  await options.onProgress?.({ stage: 'reduce', done: 1, total: 1, level });
+  return result ? { ...result, windows: windows.length } : null;
+}
@@ -0,0 +1,139 @@
+// Optional: use OpenAI-compatible SDK for DeepSeek
+import OpenAI from 'openai';
+import { estimateTokens, runSummaryPipeline } from './pipeline';
+import { summarizeExtractive } from './extractive';
+import { LlmComplete, LlmRequest, Summarizer, SummarizerName } from './types';
+import { metrics, timed } from '../observability/metrics';
+import { recordUsage } from '../usage';
+import { config } from '../../config';
+
+const trimBase = (base: string) => base.replace(/\/+$/, '');
+
+// Token usage for the current usage subject (see finalize): what the API reports, or an estimate
+const meterTokens = (reported: unknown, request: LlmRequest, content: string | null) =>
+  recordUsage('tokens', Number(reported) > 0 ? Number(reported) : estimateTokens(request.system + request.user + (content || '')));
+
+// Latency and error metrics for each LLM call a summarizer makes (one per window in map-reduce)
+const instrumented = (provider: string, complete: LlmComplete): LlmComplete => async (req) => {
+  try {
+    return await timed(metrics.llmDuration, { provider, operation: 'summary' }, () => complete(req));
+  } catch (e) {
+    metrics.llmErrors.inc({ provider, operation: 'summary' });
+    throw e;
+  }
+};
+
+// Any chat-completions API (DeepSeek by default, OpenAI, Groq, vLLM, ...). SUMMARIZER_* override DEEPSEEK_*.
+export function createOpenAICompatibleSummarizer(): Summarizer {
+  const c = config();
+  const baseURL = c.SUMMARIZER_BASE_URL || c.DEEPSEEK_BASE_URL || '';
+  const apiKey = c.SUMMARIZER_API_KEY || c.DEEPSEEK_API_KEY || '';
+  const model = c.SUMMARIZER_MODEL || c.DEEPSEEK_MODEL;
+
+  // Use chat completions API as shown in DeepSeek docs
+  const complete: LlmComplete = async (request) => {
+    const { system, user, maxTokens, json } = request;
+    const client = new OpenAI({ apiKey, baseURL });
+    const completion: any = await (client as any).chat.completions.create({
+      model,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: user }
+      ],
+      max_tokens: maxTokens,
+      ...(json ? { response_format: { type: 'json_object' } } : {})
+    });
+    // SDK may return choices with message content
+    const choice = completion?.choices && completion.choices[0];
+    const content = choice?.message?.content || choice?.text || completion?.output || null;
+    if (!content) console.warn('[summarize] SDK returned unexpected shape', { model, keys: Object.keys(completion || {}) });
+    await meterTokens(completion?.usage?.total_tokens, request, content ? String(content) : null);
+    return content ? (typeof content === 'string' ? content : JSON.stringify(content)) : null;
+  };
+
+  return {
+    name: 'openai-compatible',
+    model,
+    isConfigured: () => !!(apiKey && baseURL),
+    summarize: (timeline, options) => runSummaryPipeline(instrumented('openai-compatible', complete), timeline, options),
+  };
+}
+
+// Local models through Ollama's native /api/chat endpoint (no API key)
+export function createOllamaSummarizer(): Summarizer {
+  const base = config().OLLAMA_BASE_URL || '';
+  const { OLLAMA_MODEL: model, OLLAMA_NUM_CTX: numCtx } = config();
+
+  const complete: LlmComplete = async (request) => {
+    const { system, user, maxTokens, json } = request;
+    const res = await fetch(`${trimBase(base)}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        stream: false,
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: user }
+        ],
+        ...(json ? { format: 'json' } : {}),
+        options: { num_predict: maxTokens, ...(numCtx ? { num_ctx: numCtx } : {}) },
+      }),
+    });
+    if (!res.ok) throw new Error(`Ollama chat failed: ${res.status} ${await res.text()}`);
+    const body: any = await res.json();
+    const content = body?.message?.content || null;
+    // Ollama reports prompt and completion tokens separately
+    await meterTokens((body?.prompt_eval_count || 0) + (body?.eval_count || 0), request, content);
+    return content;
+  };
+
+  return {
+    name: 'ollama',
+    model,
+    isConfigured: () => !!base,
+    summarize: (timeline, options) => runSummaryPipeline(instrumented('ollama', complete), timeline, options),
+  };
+}
+
+// Offline TextRank/keyword summarizer; always available
+export function createExtractiveSummarizer(): Summarizer {
+  return {
+    name: 'extractive',
+    model: 'textrank',
+    isConfigured: () => true,
+    summarize: (timeline, options) => summarizeExtractive(timeline, options),
+  };
+}
+
+const factories: Record<SummarizerName, () => Summarizer> = {
+  'openai-compatible': createOpenAICompatibleSummarizer,
+  'ollama': createOllamaSummarizer,
+  'extractive': createExtractiveSummarizer,
+};
+
+export function isSummarizerName(name: unknown): name is SummarizerName {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(factories, name);
+}
+
+export function getSummarizer(name: SummarizerName): Summarizer {
+  return factories[name]();
+}
+
+/**
+ * Summarizers to try for one finalize: the requested (or SUMMARIZER_PROVIDER) one, then
+ * SUMMARIZER_FALLBACKS (default `extractive`, set to `none` to disable), skipping unconfigured ones.
+ */
+export function resolveSummarizerChain(requested?: string): Summarizer[] {
+  if (requested && !isSummarizerName(requested)) throw new Error(`Unknown summarizer: ${requested}`);
+  const primary = isSummarizerName(requested) ? requested : config().SUMMARIZER_PROVIDER;
+
+  const names: SummarizerName[] = [];
+  for (const name of [primary, ...config().SUMMARIZER_FALLBACKS]) {
+    if (!names.includes(name)) names.push(name);
+  }
+  return names.map(getSummarizer).filter(s => {
+    if (!s.isConfigured()) console.log('[summarize] summarizer not configured, skipping', { summarizer: s.name });
+    return s.isConfigured();
+  });
+}
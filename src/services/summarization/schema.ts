@@ -0,0 +1,114 @@
+import { z } from 'zod';
+import { Locale, pick, t } from '../i18n';
+import { SummaryTemplate } from './templates';
+
+const nullableString = z.string().trim().min(1).nullable().optional().transform(v => v ?? null);
+
+export const actionItemSchema = z.object({
+  description: z.string().trim().min(1),
+  owner: nullableString,
+  // ISO date (YYYY-MM-DD) when the meeting mentions one
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional().transform(v => v ?? null),
+  // [hh:mm:ss] mark of the timeline line the item came from
+  sourceTimestamp: z.string().regex(/^\d{2}:\d{2}:\d{2}$/).nullable().optional().transform(v => v ?? null),
+});
+
+export const structuredSummarySchema = z.object({
+  participants: z.array(z.string().trim().min(1)),
+  overview: z.string().trim().default(''),
+  keyTopics: z.array(z.string().trim().min(1)),
+  decisions: z.array(z.string().trim().min(1)),
+  actionItems: z.array(actionItemSchema),
+  // template-specific sections (blockers, concepts, risks, ...) keyed by TemplateSection.key
+  sections: z.record(z.string(), z.array(z.string().trim().min(1))).default({}),
+});
+
+export type ActionItem = z.infer<typeof actionItemSchema>;
+export type StructuredSummary = z.infer<typeof structuredSummarySchema>;
+
+const SHAPE_PLACEHOLDERS: Record<Locale, { participant: string; overview: string; topic: string; decision: string; action: string; owner: string; date: string; time: string }> = {
+  es: { participant: 'nombre o identificador', overview: 'párrafo breve con el resumen general', topic: 'tema tratado, con quién lo planteó', decision: 'decisión tomada', action: 'acción concreta', owner: 'responsable o null', date: 'YYYY-MM-DD o null', time: 'hh:mm:ss o null' },
+  en: { participant: 'name or identifier', overview: 'short paragraph with the overall summary', topic: 'topic discussed, with who raised it', decision: 'decision made', action: 'concrete action', owner: 'owner or null', date: 'YYYY-MM-DD or null', time: 'hh:mm:ss or null' },
+  pt: { participant: 'nome ou identificador', overview: 'parágrafo breve com o resumo geral', topic: 'tema tratado, com quem o levantou', decision: 'decisão tomada', action: 'ação concreta', owner: 'responsável ou null', date: 'YYYY-MM-DD ou null', time: 'hh:mm:ss ou null' },
+};
+
+// Shape description embedded in prompts; kept next to the schema so both change together
+export function structuredSummaryShape(locale: Locale = 'es', template?: SummaryTemplate) {
+  const p = SHAPE_PLACEHOLDERS[locale];
+  const sections = template?.sections.length
+    ? `,\n  "sections": {\n${template.sections.map(s => `    "${s.key}": ["${pick(s.instruction, locale)}"]`).join(',\n')}\n  }`
+    : '';
+  return `{
+  "participants": ["${p.participant}"],
+  "overview": "${p.overview}",
+  "keyTopics": ["${p.topic}"],
+  "decisions": ["${p.decision}"],
+  "actionItems": [
+    { "description": "${p.action}", "owner": "${p.owner}", "dueDate": "${p.date}", "sourceTimestamp": "${p.time}" }
+  ]${sections}
+}`;
+}
+
+/**
+ * Parse model output into a StructuredSummary. Tolerates ```json fences and text around the
+ * object; returns the validation problems when the JSON is missing or does not match the schema.
+ */
+export function parseStructuredSummary(raw: string): { ok: true; value: StructuredSummary } | { ok: false; error: string } {
+  const text = String(raw || '').replace(/^```(?:json)?\s*/i, '').replace(/```\s*$/, '').trim();
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return { ok: false, error: 'no JSON object found' };
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text.slice(start, end + 1));
+  } catch (e) {
+    return { ok: false, error: `invalid JSON: ${e instanceof Error ? e.message : String(e)}` };
+  }
+
+  const result = structuredSummarySchema.safeParse(json);
+  if (!result.success) {
+    return { ok: false, error: result.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ') };
+  }
+  return { ok: true, value: result.data };
+}
+
+export interface RenderSummaryOptions {
+  locale?: Locale;
+  // adds the template's sections between decisions and action items
+  template?: SummaryTemplate;
+}
+
+// Markdown rendering with the sections the emails have always used, headings in the output language
+export function renderStructuredSummary(s: StructuredSummary, options: RenderSummaryOptions = {}) {
+  const m = t(options.locale || 'es');
+  const bullets = (items: string[]) => items.length ? items.map(i => `- ${i}`).join('\n') : `- ${m.none}`;
+  const actionLine = (a: ActionItem) => {
+    const details = [a.owner ? `${m.owner}: ${a.owner}` : null, a.dueDate ? `${m.due}: ${a.dueDate}` : null, a.sourceTimestamp ? `[${a.sourceTimestamp}]` : null]
+      .filter(Boolean).join(', ');
+    return `- ${a.description}${details ? ` (${details})` : ''}`;
+  };
+  const templateSections = (options.template?.sections || []).flatMap(section => [
+    `${pick(section.title, options.locale || 'es')}:`,
+    bullets(s.sections?.[section.key] || []),
+    '',
+  ]);
+
+  return [
+    `**1) ${m.participants}**`,
+    bullets(s.participants),
+    '',
+    `**2) ${m.overview}**`,
+    s.overview,
+    '',
+    `${m.keyTopics}:`,
+    bullets(s.keyTopics),
+    '',
+    `${m.decisions}:`,
+    bullets(s.decisions),
+    '',
+    ...templateSections,
+    `**3) ${m.actionItems}**`,
+    s.actionItems.length ? s.actionItems.map(actionLine).join('\n') : `- ${m.none}`,
+  ].filter((line, i, all) => !(line === '' && all[i - 1] === '')).join('\n').trim();
+}
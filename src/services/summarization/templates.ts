@@ -0,0 +1,119 @@
+import fs from 'fs';
+import path from 'path';
+import { isLocale, Locale, Localized } from '../i18n';
+import { config } from '../../config';
+
+export interface TemplateSection {
+  // key used in the structured summary's `sections` object
+  key: string;
+  title: Localized;
+  // what the model should put in this section
+  instruction: Localized;
+}
+
+export interface SummaryTemplate {
+  name: string;
+  // output language used when neither the request nor the room picks one (else DEFAULT_LOCALE)
+  locale?: Locale;
+  // kind of meeting, inserted into the system prompt
+  purpose: Localized;
+  // extra instructions for the final summary
+  guidance?: Localized;
+  // template-specific sections, rendered between decisions and action items
+  sections: TemplateSection[];
+}
+
+const BUILTIN: SummaryTemplate[] = [
+  {
+    name: 'meeting',
+    purpose: {
+      es: 'reuniones académicas y de equipo',
+      en: 'academic and team meetings',
+      pt: 'reuniões acadêmicas e de equipe',
+    },
+    sections: [],
+  },
+  {
+    name: 'standup',
+    purpose: { es: 'reuniones diarias (daily standup) de equipos de desarrollo', en: 'daily standup meetings of development teams', pt: 'reuniões diárias (daily standup) de equipes de desenvolvimento' },
+    guidance: { es: 'Sé muy breve: una línea por persona y punto.', en: 'Be very brief: one line per person and point.', pt: 'Seja muito breve: uma linha por pessoa e ponto.' },
+    sections: [
+      { key: 'done', title: { es: 'Hecho desde la última reunión', en: 'Done since last standup', pt: 'Feito desde a última reunião' }, instruction: { es: 'lo que cada persona completó, con su nombre', en: 'what each person completed, with their name', pt: 'o que cada pessoa concluiu, com o nome' } },
+      { key: 'today', title: { es: 'Plan para hoy', en: 'Plan for today', pt: 'Plano para hoje' }, instruction: { es: 'en qué trabajará cada persona', en: 'what each person will work on', pt: 'no que cada pessoa vai trabalhar' } },
+      { key: 'blockers', title: { es: 'Bloqueos', en: 'Blockers', pt: 'Bloqueios' }, instruction: { es: 'impedimentos mencionados y quién los tiene', en: 'impediments mentioned and who has them', pt: 'impedimentos mencionados e quem os tem' } },
+    ],
+  },
+  {
+    name: 'lecture',
+    purpose: { es: 'clases y conferencias universitarias', en: 'university lectures and talks', pt: 'aulas e palestras universitárias' },
+    guidance: { es: 'Prioriza los conceptos explicados sobre quién habló.', en: 'Prioritize the concepts explained over who spoke.', pt: 'Priorize os conceitos explicados sobre quem falou.' },
+    sections: [
+      { key: 'concepts', title: { es: 'Conceptos clave', en: 'Key concepts', pt: 'Conceitos-chave' }, instruction: { es: 'definiciones y conceptos explicados', en: 'definitions and concepts explained', pt: 'definições e conceitos explicados' } },
+      { key: 'questions', title: { es: 'Preguntas de los asistentes', en: 'Audience questions', pt: 'Perguntas dos participantes' }, instruction: { es: 'preguntas planteadas y su respuesta', en: 'questions asked and their answers', pt: 'perguntas feitas e suas respostas' } },
+      { key: 'readings', title: { es: 'Lecturas y material', en: 'Readings and materials', pt: 'Leituras e materiais' }, instruction: { es: 'bibliografía, enlaces o material mencionado', en: 'bibliography, links or materials mentioned', pt: 'bibliografia, links ou materiais mencionados' } },
+    ],
+  },
+  {
+    name: 'one-on-one',
+    purpose: { es: 'reuniones 1:1 entre una persona y su responsable', en: '1:1 meetings between a person and their manager', pt: 'reuniões 1:1 entre uma pessoa e seu gestor' },
+    sections: [
+      { key: 'feedback', title: { es: 'Retroalimentación', en: 'Feedback', pt: 'Feedback' }, instruction: { es: 'retroalimentación dada en ambas direcciones', en: 'feedback given in either direction', pt: 'feedback dado em ambas as direções' } },
+      { key: 'concerns', title: { es: 'Inquietudes', en: 'Concerns', pt: 'Preocupações' }, instruction: { es: 'preocupaciones o problemas planteados', en: 'worries or problems raised', pt: 'preocupações ou problemas levantados' } },
+      { key: 'goals', title: { es: 'Objetivos', en: 'Goals', pt: 'Objetivos' }, instruction: { es: 'objetivos de crecimiento o de trabajo acordados', en: 'growth or work goals agreed', pt: 'objetivos de crescimento ou de trabalho acordados' } },
+    ],
+  },
+  {
+    name: 'client-call',
+    purpose: { es: 'llamadas con clientes', en: 'client calls', pt: 'chamadas com clientes' },
+    guidance: { es: 'Distingue lo que pidió el cliente de lo que ofreció el equipo.', en: 'Distinguish what the client asked for from what the team offered.', pt: 'Diferencie o que o cliente pediu do que a equipe ofereceu.' },
+    sections: [
+      { key: 'requirements', title: { es: 'Requerimientos del cliente', en: 'Client requirements', pt: 'Requisitos do cliente' }, instruction: { es: 'necesidades y pedidos del cliente', en: 'client needs and requests', pt: 'necessidades e pedidos do cliente' } },
+      { key: 'risks', title: { es: 'Riesgos', en: 'Risks', pt: 'Riscos' }, instruction: { es: 'riesgos, objeciones o dudas', en: 'risks, objections or doubts', pt: 'riscos, objeções ou dúvidas' } },
+      { key: 'commitments', title: { es: 'Compromisos con el cliente', en: 'Commitments to the client', pt: 'Compromissos com o cliente' }, instruction: { es: 'lo que el equipo prometió entregar', en: 'what the team promised to deliver', pt: 'o que a equipe prometeu entregar' } },
+    ],
+  },
+];
+
+// Short names accepted in requests
+const ALIASES: Record<string, string> = { '1:1': 'one-on-one', '1on1': 'one-on-one', 'client': 'client-call', 'default': 'meeting' };
+
+function validTemplate(t: any): t is SummaryTemplate {
+  return t && typeof t.name === 'string' && t.purpose && Array.isArray(t.sections) &&
+    t.sections.every((s: any) => s && typeof s.key === 'string' && s.title && s.instruction);
+}
+
+/**
+ * Built-in templates plus any *.json files in SUMMARY_TEMPLATES_DIR (same shape as SummaryTemplate).
+ * A file with a built-in name replaces that template.
+ */
+export function listTemplates(): SummaryTemplate[] {
+  const byName = new Map(BUILTIN.map(t => [t.name, t]));
+  const dir = config().SUMMARY_TEMPLATES_DIR;
+  if (dir && fs.existsSync(dir)) {
+    for (const f of fs.readdirSync(dir).filter(f => f.endsWith('.json'))) {
+      try {
+        const t = JSON.parse(fs.readFileSync(path.join(dir, f), 'utf8'));
+        if (!validTemplate(t)) throw new Error('missing name, purpose or sections');
+        byName.set(t.name, { ...t, locale: isLocale(t.locale) ? t.locale : undefined });
+      } catch (e) {
+        console.warn('[templates] skipping invalid template file', f, e instanceof Error ? e.message : e);
+      }
+    }
+  }
+  return Array.from(byName.values());
+}
+
+export function findTemplate(name: unknown): SummaryTemplate | null {
+  if (typeof name !== 'string' || !name) return null;
+  const key = ALIASES[name.toLowerCase()] || name.toLowerCase();
+  return listTemplates().find(t => t.name === key) || null;
+}
+
+// Requested template, else SUMMARY_TEMPLATE, else the general meeting template
+export function resolveTemplate(...candidates: unknown[]): SummaryTemplate {
+  for (const c of [...candidates, config().SUMMARY_TEMPLATE]) {
+    const t = findTemplate(c);
+    if (t) return t;
+  }
+  return BUILTIN[0];
+}
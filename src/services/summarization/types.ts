@@ -0,0 +1,51 @@
+import { Locale } from '../i18n';
+import { TimelineEntry } from '../timeline';
+import { StructuredSummary } from './schema';
+import { SummaryTemplate } from './templates';
+
+export type SummarizerName = 'openai-compatible' | 'ollama' | 'extractive';
+
+export interface SummaryProgress {
+  // map: summarizing transcript windows; reduce: merging partial summaries
+  stage: 'map' | 'reduce';
+  done: number;
+  total: number;
+  // hierarchy level, 0 for the transcript windows
+  level: number;
+}
+
+export interface SummarizeOptions {
+  // sections and prompt to use; defaults to SUMMARY_TEMPLATE (the general meeting template)
+  template?: SummaryTemplate;
+  // output language; defaults to the template's locale
+  locale?: Locale;
+  onProgress?: (progress: SummaryProgress) => void | Promise<void>;
+}
+
+export interface SummarizeResult {
+  // Markdown rendering of `structured`, or the raw model text when it never produced valid JSON
+  summary: string;
+  structured: StructuredSummary | null;
+  // number of transcript windows the timeline was split into (1 = single call, 0 = no LLM)
+  windows: number;
+}
+
+export interface LlmRequest {
+  system: string;
+  user: string;
+  maxTokens: number;
+  // ask the backend for a JSON object response
+  json: boolean;
+}
+
+// One chat completion against an LLM backend; null when the answer had no content
+export type LlmComplete = (request: LlmRequest) => Promise<string | null>;
+
+export interface Summarizer {
+  name: SummarizerName;
+  model: string;
+  // false when required settings (API key, base URL) are missing
+  isConfigured(): boolean;
+  // null when the backend answered without usable content; errors are thrown
+  summarize(timeline: TimelineEntry[], options?: SummarizeOptions): Promise<SummarizeResult | null>;
+}
@@ -0,0 +1,73 @@
+import { config } from '../config';
+import { Locale, t } from './i18n';
+import { compareSegments, MeetingSegment } from './segments';
+
+export type TimelineKind = 'speech' | 'chat';
+
+// One turn in the merged room timeline
+export interface TimelineEntry {
+  speaker: string;
+  kind: TimelineKind;
+  startMs: number;
+  endMs: number;
+  text: string;
+  // other speakers talking during this turn
+  overlapsWith: string[];
+}
+
+// Consecutive segments from the same speaker closer than this are joined into one turn
+const mergeGapMs = () => config().TIMELINE_MERGE_GAP_MS;
+
+/**
+ * Merge every participant's segments (and chat lines) into one chronological timeline.
+ * Same-speaker segments are joined into turns when nobody else speaks in between, and
+ * speech turns whose time ranges intersect are flagged as overlapping.
+ * `speakerName` maps user ids to display names (see services/participants).
+ */
+export function buildTimeline(segments: MeetingSegment[], speakerName: (userId: string) => string = (id) => id): TimelineEntry[] {
+  const sorted = [...segments].sort(compareSegments);
+  const entries: TimelineEntry[] = [];
+
+  for (const s of sorted) {
+    const kind: TimelineKind = s.kind || 'speech';
+    const speaker = speakerName(s.userId);
+    const last = entries[entries.length - 1];
+    if (last && kind === 'speech' && last.kind === 'speech' && last.speaker === speaker && s.startMs - last.endMs <= mergeGapMs()) {
+      last.text = `${last.text} ${s.text}`.trim();
+      last.endMs = Math.max(last.endMs, s.endMs);
+      continue;
+    }
+    entries.push({ speaker, kind, startMs: s.startMs, endMs: Math.max(s.startMs, s.endMs), text: s.text, overlapsWith: [] });
+  }
+
+  // Zero-length turns (no provider timestamps) cannot be said to overlap anything
+  const speech = entries.filter(e => e.kind === 'speech' && e.endMs > e.startMs);
+  for (const e of speech) {
+    for (const other of speech) {
+      if (other === e || other.speaker === e.speaker) continue;
+      if (other.startMs < e.endMs && e.startMs < other.endMs && !e.overlapsWith.includes(other.speaker)) {
+        e.overlapsWith.push(other.speaker);
+      }
+    }
+  }
+
+  return entries;
+}
+
+export function formatClock(ms: number) {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+}
+
+/**
+ * Plain-text rendering used as LLM input and for the txt export:
+ * `[hh:mm:ss] Name: text`, `[hh:mm:ss] (chat) Name: text`, overlaps noted after the text.
+ */
+export function renderTimeline(entries: TimelineEntry[], locale: Locale = 'es') {
+  return entries.map(e => {
+    const who = e.kind === 'chat' ? `(chat) ${e.speaker}` : e.speaker;
+    const overlap = e.overlapsWith.length ? ` (${t(locale).overlapsWith}: ${e.overlapsWith.join(', ')})` : '';
+    return `[${formatClock(e.startMs)}] ${who}: ${e.text}${overlap}`;
+  }).join('\n');
+}
@@ -1,150 +1,128 @@
 import fs from 'fs';
 import path from 'path';
-import { Resend } from 'resend';
-import ffmpegPath from 'ffmpeg-static';
-import { execFileSync } from 'child_process';
+import { probeAudio, transcode } from './media/ffmpeg';
+import { resolveProviderChain } from './transcription/providers';
+import { ProviderHttpError, ProviderSetupError, TranscriptionProvider, TranscriptSegment } from './transcription/types';
+import { metrics, timed } from './observability';
+import { config } from '../config';
+
+export interface TranscribeOptions {
+  // provider name requested by the caller; falls back to TRANSCRIPTION_PROVIDER
+  provider?: string;
+  // ask the provider for verbose_json segments and word timestamps
+  timestamps?: boolean;
+}
+
+export interface TranscribeResult {
+  transcript: string;
+  segments?: TranscriptSegment[];
+  retried: boolean;
+  transcoded: boolean;
+  provider: string;
+}
 
-// Default base from Groq docs (OpenAI-compatible path)
-const GROQ_BASE = process.env.GROQ_BASE_URL || 'https://api.groq.com/openai/v1';
-const GROQ_KEY = process.env.GROQ_API_KEY;
-const GROQ_MODEL = process.env.GROQ_MODEL || 'whisper-large-v3-turbo';
+// Rate limits, upstream outages and network errors move on to the next provider in the chain
+function shouldFailover(err: unknown) {
+  if (err instanceof ProviderHttpError) return err.status === 429 || err.status >= 500;
+  return true;
+}
 
-export async function transcribeBuffer(filePath: string): Promise<{ transcript: string; retried: boolean; transcoded: boolean }> {
-  if (!GROQ_KEY) throw new Error('GROQ_API_KEY not configured');
+function isCouldNotProcess(err: unknown) {
+  if (!(err instanceof ProviderHttpError)) return false;
+  return /could not process file/i.test(err.body) || /is it a valid media file/i.test(err.body);
+}
 
+// ffprobe decides when it can; fall back to the extension when probing fails
+async function needsTranscode(filePath: string) {
   try {
-    const stats = fs.statSync(filePath);
-    console.log('[transcribe] DEBUG: file size =', stats.size, { filePath });
+    const info = await probeAudio(filePath);
+    return /webm|matroska|ogg/.test(info.formatName) || info.codec === 'opus';
   } catch (e) {
-    console.warn('[transcribe] DEBUG: could not stat file', filePath, e);
+    console.warn('[transcribe] probe failed, using file extension', e instanceof Error ? e.message : e);
+    return ['.webm', '.ogg', '.opus'].includes(path.extname(filePath).toLowerCase());
   }
+}
 
-  const shouldTranscode = (process.env.TRANSCODE_ON_SERVER || 'false').toLowerCase() === 'true';
-
-  // Helper to build multipart body and headers
-  const buildMultipart = async (sendFilePath: string) => {
-    const fileBuf = await fs.promises.readFile(sendFilePath);
-    const boundary = '----NodeMultipartBoundary' + Math.random().toString(36).slice(2);
-    const delimiter = `--${boundary}\r\n`;
-    const closeDelimiter = `--${boundary}--\r\n`;
-
-    const fileName = path.basename(sendFilePath);
-    const contentType = path.extname(sendFilePath).toLowerCase() === '.wav' ? 'audio/wav' : 'audio/webm';
-
-    const parts: Buffer[] = [];
-    parts.push(Buffer.from(delimiter));
-    parts.push(Buffer.from(`Content-Disposition: form-data; name="file"; filename="${fileName}"\r\n`));
-    parts.push(Buffer.from(`Content-Type: ${contentType}\r\n\r\n`));
-    parts.push(fileBuf);
-    parts.push(Buffer.from('\r\n'));
-
-    parts.push(Buffer.from(delimiter));
-    parts.push(Buffer.from(`Content-Disposition: form-data; name="model"\r\n\r\n`));
-    parts.push(Buffer.from(String(GROQ_MODEL) + '\r\n'));
-
-    parts.push(Buffer.from(closeDelimiter));
-
-    const body = Buffer.concat(parts);
-    const headers = {
-      'Content-Type': `multipart/form-data; boundary=${boundary}`,
-      'Content-Length': String(body.length),
-      Authorization: `Bearer ${GROQ_KEY}`,
-    } as Record<string,string>;
+export async function transcribeBuffer(filePath: string, options: TranscribeOptions = {}): Promise<TranscribeResult> {
+  const chain = resolveProviderChain(options.provider).filter(p => {
+    if (!p.isConfigured()) console.warn('[transcribe] provider not configured, skipping', { provider: p.name });
+    return p.isConfigured();
+  });
+  if (!chain.length) throw new ProviderSetupError('No transcription provider configured');
 
-    return { body, headers };
-  };
+  try {
+    const stats = fs.statSync(filePath);
+    console.debug('[transcribe] file size', { size: stats.size, filePath });
+  } catch (e) {
+    console.debug('[transcribe] could not stat file', { filePath }, e);
+  }
 
-  const url = `${GROQ_BASE}/audio/transcriptions`;
+  const shouldTranscode = config().TRANSCODE_ON_SERVER;
 
-  // Attempt sequence: first try sending original (or pre-transcoded if enabled),
-  // on specific Groq 400 error attempt transcode-to-wav and retry once.
-  let attemptedTranscode = false;
-  let tempWavPath: string | null = null;
+  const tempFiles: string[] = [];
   let sendPath = filePath;
+  let attemptedTranscode = false;
 
-  // If TRANSCODE_ON_SERVER=true, pre-transcode before first attempt
+  // If TRANSCODE_ON_SERVER=true, pre-transcode browser containers (webm/ogg) before first attempt
   if (shouldTranscode) {
-    try {
-      const ext = path.extname(filePath).toLowerCase();
-      if (ext === '.webm' || ext === '.ogg' || ext === '.opus') {
-        tempWavPath = filePath + '.wav';
-        if (!ffmpegPath) throw new Error('ffmpeg-static not available');
-        execFileSync(ffmpegPath as string, ['-y', '-i', filePath, '-ar', '16000', '-ac', '1', tempWavPath]);
-        sendPath = tempWavPath;
-        console.log('[transcribe] Pre-transcoded to WAV', { tempWavPath });
+    if (await needsTranscode(filePath)) {
+      try {
+        const transcodedPath = await transcode(filePath, { label: 'pre-transcode' });
+        tempFiles.push(transcodedPath);
+        sendPath = transcodedPath;
+        console.log('[transcribe] Pre-transcoded', { transcodedPath });
+      } catch (err) {
+        console.warn('[transcribe] Pre-transcode failed, will try original file', err instanceof Error ? err.message : err);
       }
-    } catch (err) {
-      console.warn('[transcribe] Pre-transcode failed, will try original file', err);
-      sendPath = filePath;
-      if (tempWavPath) { try { await fs.promises.unlink(tempWavPath); } catch(e) {} }
-      tempWavPath = null;
     }
   }
 
-  for (let attempt = 0; attempt < 2; attempt++) {
-    try {
-      const { body, headers } = await buildMultipart(sendPath);
-      console.log('[transcribe] Sending file to Groq', { filePath: sendPath, model: GROQ_MODEL, url, headers: Object.keys(headers) });
-      const res = await fetch(url, { method: 'POST', headers: headers as any, body });
-
-      if (!res.ok) {
-        const text = await res.text();
-        console.error('[transcribe] Groq failed', { status: res.status, body: text });
-
-        // If Groq says 'could not process file' and we haven't tried transcode yet,
-        // perform a transcode to WAV and retry once.
-        const isCouldNotProcess = /could not process file/i.test(text) || /is it a valid media file/i.test(text);
-        if (isCouldNotProcess && !attemptedTranscode) {
-          console.log('[transcribe] Groq could not process file - trying server transcode and retry');
+  // Attempt sequence per provider: send the current file; on a 'could not process file'
+  // error transcode once (TRANSCODE_FORMAT) and retry. Failover-worthy errors move to the next provider.
+  const attemptProvider = async (provider: TranscriptionProvider) => {
+    for (;;) {
+      try {
+        return await timed(metrics.transcriptionDuration, { provider: provider.name },
+          () => provider.transcribe(sendPath, { timestamps: options.timestamps }));
+      } catch (err) {
+        metrics.transcriptionErrors.inc({ provider: provider.name, status: err instanceof ProviderHttpError ? String(err.status) : 'network' });
+        if (isCouldNotProcess(err) && !attemptedTranscode) {
+          console.log('[transcribe] provider could not process file - trying server transcode and retry', { provider: provider.name });
           attemptedTranscode = true;
-          // transcode to wav
           try {
-            if (!ffmpegPath) throw new Error('ffmpeg-static not available');
-            tempWavPath = filePath + '.retry.wav';
-            execFileSync(ffmpegPath as string, ['-y', '-i', filePath, '-ar', '16000', '-ac', '1', tempWavPath]);
-            sendPath = tempWavPath;
-            console.log('[transcribe] Retrying with transcode', { tempWavPath });
-            // continue loop to retry
+            const retryPath = await transcode(filePath, { label: 'retry-transcode' });
+            tempFiles.push(retryPath);
+            sendPath = retryPath;
+            console.log('[transcribe] Retrying with transcode', { tempWavPath: retryPath });
             continue;
-          } catch (err) {
-            console.error('[transcribe] ffmpeg retry transcode failed', err);
-            throw new Error(`Groq transcription failed and transcode retry failed: ${text}`);
+          } catch (ffErr) {
+            console.error('[transcribe] ffmpeg retry transcode failed', ffErr instanceof Error ? ffErr.message : ffErr);
+            throw new Error(`${provider.name} transcription failed and transcode retry failed: ${(err as ProviderHttpError).body}`);
           }
         }
-
-        throw new Error(`Groq transcription failed: ${res.status} ${text}`);
+        throw err;
       }
+    }
+  };
 
-      // success
-      let json: any = null;
-      try { json = await res.json(); console.log('[transcribe] Groq response shape keys:', Object.keys(json || {})); } catch (e) { console.warn('[transcribe] Failed to parse Groq response as JSON', e); }
-      const transcript =
-        json?.text ||
-        json?.results?.[0]?.text ||
-        json?.transcript ||
-        JSON.stringify(json);
-
-      // Determine flags
-      const transcoded = !!(tempWavPath && path.extname(sendPath).toLowerCase() === '.wav');
-      const retried = attemptedTranscode;
-
-      // cleanup temp files
-      if (tempWavPath) { try { await fs.promises.unlink(tempWavPath); } catch (e) {} }
-
-      return { transcript, retried, transcoded };
-    } catch (err) {
-      // if this was the retry attempt or non-transcode error, propagate
-      if (attempt === 1 || attemptedTranscode) {
-        // cleanup temp wav if exists
-        if (tempWavPath) { try { await fs.promises.unlink(tempWavPath); } catch (e) {} }
-        throw err;
+  try {
+    let lastErr: unknown = null;
+    for (const provider of chain) {
+      try {
+        const { text, segments } = await attemptProvider(provider);
+        const transcoded = sendPath !== filePath;
+        return { transcript: text, segments, retried: attemptedTranscode, transcoded, provider: provider.name };
+      } catch (err) {
+        lastErr = err;
+        if (!shouldFailover(err)) throw err;
+        console.warn('[transcribe] provider failed, trying next in chain', { provider: provider.name, err: err instanceof Error ? err.message : String(err) });
       }
-      // otherwise, loop to attempt transcode
     }
+    throw lastErr instanceof Error ? lastErr : new Error('Transcription failed after retries');
+  } finally {
+    // cleanup temp files
+    for (const f of tempFiles) { try { await fs.promises.unlink(f); } catch (e) {} }
   }
-
-  // should not reach here
-  throw new Error('Transcription failed after retries');
 }
 
 export { sendMeetingSummaryEmail as sendSummaryByEmail } from '../utils/mailer';
@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+import { ProviderHttpError, ProviderTranscription, TranscriptSegment, TranscriptWord } from './types';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.wav': 'audio/wav',
+  '.webm': 'audio/webm',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.mp3': 'audio/mpeg',
+  '.flac': 'audio/flac',
+};
+
+export type FormFields = Record<string, string | string[] | undefined>;
+
+// Build a multipart/form-data body with the audio file plus plain text fields (arrays repeat the field)
+export async function buildMultipart(sendFilePath: string, fields: FormFields) {
+  const fileBuf = await fs.promises.readFile(sendFilePath);
+  const boundary = '----NodeMultipartBoundary' + Math.random().toString(36).slice(2);
+  const delimiter = `--${boundary}\r\n`;
+  const closeDelimiter = `--${boundary}--\r\n`;
+
+  const fileName = path.basename(sendFilePath);
+  const contentType = CONTENT_TYPES[path.extname(sendFilePath).toLowerCase()] || 'audio/webm';
+
+  const parts: Buffer[] = [];
+  parts.push(Buffer.from(delimiter));
+  parts.push(Buffer.from(`Content-Disposition: form-data; name="file"; filename="${fileName}"\r\n`));
+  parts.push(Buffer.from(`Content-Type: ${contentType}\r\n\r\n`));
+  parts.push(fileBuf);
+  parts.push(Buffer.from('\r\n'));
+
+  for (const [name, value] of Object.entries(fields)) {
+    const values = Array.isArray(value) ? value : [value];
+    for (const v of values) {
+      if (v === undefined || v === '') continue;
+      parts.push(Buffer.from(delimiter));
+      parts.push(Buffer.from(`Content-Disposition: form-data; name="${name}"\r\n\r\n`));
+      parts.push(Buffer.from(String(v) + '\r\n'));
+    }
+  }
+
+  parts.push(Buffer.from(closeDelimiter));
+
+  const body = Buffer.concat(parts);
+  const headers = {
+    'Content-Type': `multipart/form-data; boundary=${boundary}`,
+    'Content-Length': String(body.length),
+  } as Record<string, string>;
+
+  return { body, headers };
+}
+
+/**
+ * POST an audio file to a transcription endpoint and normalize the response text.
+ * Throws ProviderHttpError on non-2xx so callers can inspect status/body.
+ */
+export async function postAudioForm(
+  provider: string,
+  url: string,
+  filePath: string,
+  fields: FormFields,
+  apiKey?: string,
+): Promise<ProviderTranscription> {
+  const { body, headers } = await buildMultipart(filePath, fields);
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  console.debug('[transcribe] Sending file', { provider, filePath, model: fields.model, size: body.length });
+  const res = await fetch(url, { method: 'POST', headers: headers as any, body });
+
+  if (!res.ok) {
+    const text = await res.text();
+    // provider error bodies can echo the request; keep the log line short
+    console.error('[transcribe] provider failed', { provider, status: res.status, body: text.slice(0, 500) });
+    throw new ProviderHttpError(provider, res.status, text);
+  }
+
+  let json: any = null;
+  try { json = await res.json(); console.debug('[transcribe] response shape keys:', { provider, keys: Object.keys(json || {}) }); } catch (e) { console.warn('[transcribe] Failed to parse response as JSON', { provider }, e); }
+  const text =
+    json?.text ||
+    json?.results?.[0]?.text ||
+    json?.transcript ||
+    JSON.stringify(json);
+
+  return { text, segments: parseVerboseSegments(json), raw: json };
+}
+
+/**
+ * Extract segments from an OpenAI-style verbose_json response. Top-level `words`
+ * (timestamp_granularities[]=word) are attached to the segment they fall into.
+ */
+export function parseVerboseSegments(json: any): TranscriptSegment[] | undefined {
+  if (!json || !Array.isArray(json.segments)) return undefined;
+  const words: TranscriptWord[] = Array.isArray(json.words)
+    ? json.words
+      .filter((w: any) => w && typeof w.start === 'number' && typeof w.end === 'number')
+      .map((w: any) => ({ word: String(w.word ?? w.text ?? '').trim(), start: w.start, end: w.end }))
+    : [];
+
+  return json.segments
+    .filter((s: any) => s && typeof s.start === 'number' && typeof s.end === 'number')
+    .map((s: any) => {
+      const seg: TranscriptSegment = { start: s.start, end: s.end, text: String(s.text || '').trim() };
+      const inSeg = words.filter(w => w.start >= s.start && w.start < s.end);
+      if (inSeg.length) seg.words = inSeg;
+      return seg;
+    })
+    .filter((s: TranscriptSegment) => s.text.length > 0);
+}
@@ -0,0 +1,91 @@
+import { FormFields, postAudioForm } from './http';
+import { ProviderSetupError, ProviderTranscribeOptions, TranscriptionProvider, TranscriptionProviderName } from './types';
+import { config } from '../../config';
+
+const trimBase = (base: string) => base.replace(/\/+$/, '');
+
+// OpenAI-style fields: verbose_json with segment and word granularities
+const openAIFields = (model: string, options?: ProviderTranscribeOptions): FormFields => options?.timestamps
+  ? { model, response_format: 'verbose_json', 'timestamp_granularities[]': ['segment', 'word'] }
+  : { model };
+
+// Groq: OpenAI-compatible path, default base from Groq docs
+export function createGroqProvider(): TranscriptionProvider {
+  const { GROQ_BASE_URL: base, GROQ_API_KEY: key, GROQ_MODEL: model } = config();
+  return {
+    name: 'groq',
+    model,
+    isConfigured: () => !!key,
+    transcribe: (filePath, options) => postAudioForm('groq', `${trimBase(base)}/audio/transcriptions`, filePath, openAIFields(model, options), key),
+  };
+}
+
+// OpenAI Whisper hosted API
+export function createOpenAIProvider(): TranscriptionProvider {
+  const { OPENAI_BASE_URL: base, OPENAI_API_KEY: key, OPENAI_TRANSCRIBE_MODEL: model } = config();
+  return {
+    name: 'openai',
+    model,
+    isConfigured: () => !!key,
+    transcribe: (filePath, options) => postAudioForm('openai', `${trimBase(base)}/audio/transcriptions`, filePath, openAIFields(model, options), key),
+  };
+}
+
+// Any server exposing /audio/transcriptions (LocalAI, vLLM, faster-whisper-server, ...). API key is optional.
+export function createOpenAICompatibleProvider(): TranscriptionProvider {
+  const base = config().TRANSCRIBE_COMPAT_BASE_URL || '';
+  const { TRANSCRIBE_COMPAT_API_KEY: key, TRANSCRIBE_COMPAT_MODEL: model } = config();
+  return {
+    name: 'openai-compatible',
+    model,
+    isConfigured: () => !!base,
+    transcribe: (filePath, options) => postAudioForm('openai-compatible', `${trimBase(base)}/audio/transcriptions`, filePath, openAIFields(model, options), key),
+  };
+}
+
+// Local whisper.cpp `server` (POST /inference) or a faster-whisper HTTP server; path is configurable
+export function createLocalWhisperProvider(): TranscriptionProvider {
+  const { WHISPER_LOCAL_URL: base, WHISPER_LOCAL_PATH: endpoint, WHISPER_LOCAL_MODEL } = config();
+  const model = WHISPER_LOCAL_MODEL || 'local';
+  return {
+    name: 'local',
+    model,
+    isConfigured: () => !!base,
+    // whisper.cpp returns segments for verbose_json but no top-level word list
+    transcribe: (filePath, options) => postAudioForm('local', `${trimBase(base)}${endpoint}`, filePath, {
+      model: WHISPER_LOCAL_MODEL,
+      response_format: options?.timestamps ? 'verbose_json' : 'json',
+      temperature: '0',
+    }),
+  };
+}
+
+const factories: Record<TranscriptionProviderName, () => TranscriptionProvider> = {
+  'groq': createGroqProvider,
+  'openai': createOpenAIProvider,
+  'openai-compatible': createOpenAICompatibleProvider,
+  'local': createLocalWhisperProvider,
+};
+
+export function isProviderName(name: unknown): name is TranscriptionProviderName {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(factories, name);
+}
+
+export function getTranscriptionProvider(name: TranscriptionProviderName): TranscriptionProvider {
+  return factories[name]();
+}
+
+/**
+ * Ordered list of providers to try for one request: the requested (or configured default)
+ * provider first, then TRANSCRIPTION_FALLBACK_PROVIDERS, skipping unknown and duplicate names.
+ */
+export function resolveProviderChain(requested?: string): TranscriptionProvider[] {
+  if (requested && !isProviderName(requested)) throw new ProviderSetupError(`Unknown transcription provider: ${requested}`);
+  const primary = isProviderName(requested) ? requested : config().TRANSCRIPTION_PROVIDER;
+
+  const names: TranscriptionProviderName[] = [];
+  for (const name of [primary, ...config().TRANSCRIPTION_FALLBACK_PROVIDERS]) {
+    if (!names.includes(name)) names.push(name);
+  }
+  return names.map(getTranscriptionProvider);
+}
@@ -0,0 +1,55 @@
+export type TranscriptionProviderName = 'groq' | 'openai' | 'openai-compatible' | 'local';
+
+// Times are in seconds relative to the start of the uploaded chunk, as returned by verbose_json
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  words?: TranscriptWord[];
+}
+
+export interface ProviderTranscription {
+  text: string;
+  // present when the provider returned verbose_json segments
+  segments?: TranscriptSegment[];
+  // raw provider response, kept for diagnostics and richer formats
+  raw: any;
+}
+
+export interface ProviderTranscribeOptions {
+  // request verbose_json segments (and word timestamps where the provider supports them)
+  timestamps?: boolean;
+}
+
+export interface TranscriptionProvider {
+  name: TranscriptionProviderName;
+  model: string;
+  // false when required settings (API key, base URL) are missing
+  isConfigured(): boolean;
+  transcribe(filePath: string, options?: ProviderTranscribeOptions): Promise<ProviderTranscription>;
+}
+
+/**
+ * Error thrown by adapters when the upstream API answers with a non-2xx status.
+ * `status` and `body` let the caller decide between transcode-retry and failover.
+ */
+export class ProviderHttpError extends Error {
+  constructor(public provider: string, public status: number, public body: string) {
+    super(`${provider} transcription failed: ${status} ${body}`);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+/** Unknown provider name or no provider configured: trying again cannot succeed. */
+export class ProviderSetupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderSetupError';
+  }
+}
@@ -0,0 +1,199 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import { Principal } from '../../middleware/auth';
+import { metrics } from '../observability/metrics';
+import { periodWindow, rulesFor, subjectId } from './quotas';
+import { addToCounters, appendUsageEvent, countedInWindow, ensureCountersLoaded, readUsageEvents } from './ledger';
+import {
+  LIMIT_METRICS, LimitMetric, QuotaRule, QuotaStatus, USAGE_METRICS, UsageEvent, UsageGroupBy, UsageMetric, UsageReport,
+  UsageSubject, UsageTotals,
+} from './types';
+
+export * from './types';
+export { quotaRules } from './quotas';
+
+// API keys and tokens without a tenant (and AUTH_MODE=off) share this one
+export const DEFAULT_TENANT = 'default';
+
+export const tenantFor = (principal?: Principal) => principal?.tenant || DEFAULT_TENANT;
+
+const subjects = new AsyncLocalStorage<UsageSubject>();
+
+export const currentUsageSubject = (): UsageSubject | undefined => subjects.getStore();
+
+/** Bill everything `fn` meters without an explicit subject (e.g. LLM tokens deep in the summary pipeline) to `subject`. */
+export function withUsageSubject<T>(subject: UsageSubject, fn: () => T): T {
+  return subjects.run(subject, fn);
+}
+
+function statusFor(rule: QuotaRule, id: string, used: number, now: number): QuotaStatus {
+  return {
+    metric: rule.metric, scope: rule.scope, id, period: rule.period, limit: rule.limit,
+    used, remaining: Math.max(0, rule.limit - used), resetsAt: new Date(periodWindow(rule.period, now).end).toISOString(),
+  };
+}
+
+// Seconds until the window of an exceeded limit resets (Retry-After)
+export const retryAfterSeconds = (status: QuotaStatus) => Math.max(1, Math.ceil((Date.parse(status.resetsAt) - Date.now()) / 1000));
+
+/**
+ * Add usage to the ledger and the quota counters. Failures are logged, not thrown: the work was already done.
+ * Without a subject (no argument and no withUsageSubject scope) nothing is recorded.
+ */
+export async function recordUsage(metric: UsageMetric, amount: number, subject = currentUsageSubject()) {
+  if (!subject || !(amount > 0)) return;
+  const event: UsageEvent = { at: new Date().toISOString(), tenant: subject.tenant, roomId: subject.roomId, userId: subject.userId, metric, amount };
+  metrics.usage.inc({ metric }, amount);
+  try {
+    await ensureCountersLoaded();
+    addToCounters(metric, subject, amount, Date.parse(event.at));
+    await appendUsageEvent(event);
+  } catch (e) {
+    console.error('[usage] failed to record usage', { metric, amount, tenant: subject.tenant, roomId: subject.roomId }, e);
+  }
+}
+
+/**
+ * The first limit on `metric` that this subject has used up, or null. With `amount`, also refuses when
+ * the operation would go over (e.g. queueing 5 emails with 3 left); otherwise only once the limit is reached.
+ */
+export async function checkQuota(subject: UsageSubject, metric: UsageMetric, amount = 0): Promise<QuotaStatus | null> {
+  if (!rulesFor(subject, metric).length) return null;
+  await ensureCountersLoaded();
+  return exceededLimit(subject, metric, amount);
+}
+
+// checkQuota once the counters are loaded; synchronous, so a caller can check and add without another caller in between
+function exceededLimit(subject: UsageSubject, metric: UsageMetric, amount: number): QuotaStatus | null {
+  const now = Date.now();
+  for (const rule of rulesFor(subject, metric)) {
+    const id = subjectId(subject, rule.scope) as string;
+    const used = countedInWindow(metric, rule.scope, id, rule.period, now);
+    if (amount > 0 ? used + amount > rule.limit : used >= rule.limit) {
+      metrics.quotaRejections.inc({ metric, scope: rule.scope });
+      return statusFor(rule, id, used, now);
+    }
+  }
+  return null;
+}
+
+interface Reservation {
+  metric: LimitMetric;
+  subject: UsageSubject;
+  amount: number;
+  at: number;
+  expiry: NodeJS.Timeout;
+}
+
+const reservations = new Map<string, Reservation>();
+// a reservation that is never released (job lost, or run by another instance) stops counting after this long
+const RESERVATION_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Like checkQuota, then hold `amount` against the subject's limits until `releaseReservation`, so concurrent
+ * requests whose usage is only known later (audio length after transcription) cannot all pass the check and
+ * overshoot. Returns the exceeded limit, or the reservation id (null when no limit applies).
+ */
+export async function reserveQuota(subject: UsageSubject, metric: UsageMetric, amount: number): Promise<{ exceeded: QuotaStatus | null; reservation: string | null }> {
+  if (!rulesFor(subject, metric).length) return { exceeded: null, reservation: null };
+  await ensureCountersLoaded();
+  const exceeded = exceededLimit(subject, metric, 0);
+  if (exceeded || !(amount > 0)) return { exceeded, reservation: null };
+  const id = crypto.randomUUID();
+  const at = Date.now();
+  addToCounters(metric, subject, amount, at);
+  const expiry = setTimeout(() => releaseReservation(id), RESERVATION_TTL_MS);
+  expiry.unref();
+  reservations.set(id, { metric, subject, amount, at, expiry });
+  return { exceeded: null, reservation: id };
+}
+
+/** Stop holding a reservation; record the real usage with recordUsage. Unknown ids (another instance's) are ignored. */
+export function releaseReservation(id: string | null | undefined) {
+  const r = id ? reservations.get(id) : undefined;
+  if (!r) return;
+  clearTimeout(r.expiry);
+  reservations.delete(id as string);
+  addToCounters(r.metric, r.subject, -r.amount, r.at);
+}
+
+/** Count one API call against the `requests` rate limits; returns the exceeded limit instead when there is one. */
+export function consumeRequest(subject: UsageSubject): QuotaStatus | null {
+  const now = Date.now();
+  for (const rule of rulesFor(subject, 'requests')) {
+    const id = subjectId(subject, rule.scope) as string;
+    const used = countedInWindow('requests', rule.scope, id, rule.period, now);
+    if (used >= rule.limit) {
+      metrics.quotaRejections.inc({ metric: 'requests', scope: rule.scope });
+      return statusFor(rule, id, used, now);
+    }
+  }
+  addToCounters('requests', subject, 1, now);
+  return null;
+}
+
+/** Every limit that applies to this subject, with what is used and left in the current window. */
+export async function quotaStatus(subject: UsageSubject): Promise<QuotaStatus[]> {
+  await ensureCountersLoaded();
+  const now = Date.now();
+  return LIMIT_METRICS.flatMap((metric: LimitMetric) => rulesFor(subject, metric).map(rule => {
+    const id = subjectId(subject, rule.scope) as string;
+    return statusFor(rule, id, countedInWindow(metric, rule.scope, id, rule.period, now), now);
+  }));
+}
+
+const emptyTotals = (): UsageTotals => ({ audioSeconds: 0, tokens: 0, emails: 0 });
+
+function groupKey(e: UsageEvent, groupBy: UsageGroupBy) {
+  switch (groupBy) {
+    case 'tenant': return e.tenant;
+    case 'room': return e.roomId || 'global';
+    case 'user': return e.userId || 'unknown';
+    case 'day': return e.at.slice(0, 10);
+  }
+}
+
+export interface UsageReportFilter {
+  tenant?: string;
+  roomId?: string;
+  userId?: string;
+  // ms timestamps; default from the start of the current month until now
+  from?: number;
+  to?: number;
+  groupBy?: UsageGroupBy;
+  // extra filter, e.g. the rooms a caller may see
+  include?: (e: UsageEvent) => boolean;
+}
+
+/** Ledger totals for a period, overall and per tenant, room, user or day. */
+export async function usageReport(filter: UsageReportFilter = {}): Promise<UsageReport> {
+  const now = Date.now();
+  const from = filter.from ?? periodWindow('month', now).start;
+  const to = filter.to ?? now;
+  const groupBy = filter.groupBy || 'tenant';
+  const events = (await readUsageEvents(from, to)).filter(e =>
+    (!filter.tenant || e.tenant === filter.tenant)
+    && (!filter.roomId || e.roomId === filter.roomId)
+    && (!filter.userId || e.userId === filter.userId)
+    && (!filter.include || filter.include(e)));
+
+  const totals = emptyTotals();
+  const groups = new Map<string, UsageTotals>();
+  for (const e of events) {
+    if (!USAGE_METRICS.includes(e.metric)) continue;
+    const key = groupKey(e, groupBy);
+    const group = groups.get(key) || emptyTotals();
+    group[e.metric] += e.amount;
+    totals[e.metric] += e.amount;
+    groups.set(key, group);
+  }
+  // audio is metered in fractional seconds; keep the report readable
+  const round = (t: UsageTotals): UsageTotals => ({ ...t, audioSeconds: Math.round(t.audioSeconds * 10) / 10 });
+  return {
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    groupBy,
+    totals: round(totals),
+    groups: [...groups.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([key, t]) => ({ key, ...round(t) })),
+  };
+}
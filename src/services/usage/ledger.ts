@@ -0,0 +1,92 @@
+import fs from 'fs';
+import path from 'path';
+import { withLock } from '../../utils/lock';
+import { config } from '../../config';
+import { periodWindow, subjectId } from './quotas';
+import { LimitMetric, QUOTA_PERIODS, QUOTA_SCOPES, QuotaPeriod, QuotaScope, UsageEvent, UsageSubject } from './types';
+
+// USAGE_DIR, default STORAGE_TEMP_PATH/usage; one JSONL file per UTC month (2026-10.jsonl)
+const usageDir = () => config().USAGE_DIR || path.join(config().STORAGE_TEMP_PATH, 'usage');
+const monthOf = (ms: number) => new Date(ms).toISOString().slice(0, 7);
+const ledgerFile = (month: string) => path.join(usageDir(), `${month}.jsonl`);
+
+/**
+ * Running totals for the current window of every period, per metric and tenant/room/user, so quota checks
+ * never read the ledger. They live in this process: with several API instances each one enforces its own share.
+ */
+const counters = new Map<string, { start: number; amount: number }>();
+let loaded: Promise<void> | null = null;
+
+const counterKey = (metric: LimitMetric, scope: QuotaScope, id: string, period: QuotaPeriod) => `${metric}|${scope}|${id}|${period}`;
+
+export function addToCounters(metric: LimitMetric, subject: UsageSubject, amount: number, at = Date.now()) {
+  for (const scope of QUOTA_SCOPES) {
+    const id = subjectId(subject, scope);
+    if (!id) continue;
+    for (const period of QUOTA_PERIODS) {
+      const { start } = periodWindow(period, at);
+      const key = counterKey(metric, scope, id, period);
+      const current = counters.get(key);
+      if (!current || current.start < start) counters.set(key, { start, amount });
+      else if (current.start === start) current.amount += amount;
+    }
+  }
+}
+
+/** Amount counted in the window of `period` that contains `now`. */
+export function countedInWindow(metric: LimitMetric, scope: QuotaScope, id: string, period: QuotaPeriod, now = Date.now()) {
+  const current = counters.get(counterKey(metric, scope, id, period));
+  return current && current.start === periodWindow(period, now).start ? current.amount : 0;
+}
+
+async function readMonth(month: string): Promise<UsageEvent[]> {
+  let raw = '';
+  try { raw = await fs.promises.readFile(ledgerFile(month), 'utf8'); } catch (e: any) { if (e?.code === 'ENOENT') return []; throw e; }
+  const out: UsageEvent[] = [];
+  for (const line of raw.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try { out.push(JSON.parse(line)); } catch { console.warn('[usage] skipping malformed ledger line', { month }); }
+  }
+  return out;
+}
+
+// Rebuild the counters from this month's ledger once, so a restart does not reset quotas
+export function ensureCountersLoaded(): Promise<void> {
+  if (!loaded) {
+    loaded = readMonth(monthOf(Date.now()))
+      .then(events => {
+        for (const e of events) addToCounters(e.metric, e, e.amount, Date.parse(e.at));
+        if (events.length) console.log('[usage] counters restored from ledger', { events: events.length });
+      })
+      .catch(e => {
+        loaded = null;
+        throw e;
+      });
+  }
+  return loaded;
+}
+
+export async function appendUsageEvent(event: UsageEvent) {
+  await withLock('usage:ledger', async () => {
+    await fs.promises.mkdir(usageDir(), { recursive: true });
+    await fs.promises.appendFile(ledgerFile(monthOf(Date.parse(event.at))), JSON.stringify(event) + '\n', 'utf8');
+  });
+}
+
+/** Ledger events with `from <= at < to`. */
+export async function readUsageEvents(from: number, to: number): Promise<UsageEvent[]> {
+  const months: string[] = [];
+  const cursor = new Date(Date.UTC(new Date(from).getUTCFullYear(), new Date(from).getUTCMonth(), 1));
+  while (cursor.getTime() < to) {
+    months.push(monthOf(cursor.getTime()));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  const out: UsageEvent[] = [];
+  for (const month of months) {
+    for (const e of await readMonth(month)) {
+      const at = Date.parse(e.at);
+      if (at >= from && at < to) out.push(e);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,57 @@
+import { config } from '../../config';
+import { LimitMetric, QuotaPeriod, QuotaRule, QuotaScope, UsageSubject } from './types';
+
+/**
+ * USAGE_QUOTAS: JSON array of { metric, scope, period, limit, id?, tenant? }, e.g.
+ * [{"metric":"audioSeconds","scope":"tenant","period":"month","limit":360000},
+ *  {"metric":"requests","scope":"user","period":"minute","limit":60}].
+ * Without rules nothing is limited; usage is still recorded.
+ */
+export const quotaRules = (): QuotaRule[] => config().USAGE_QUOTAS;
+
+export const subjectId = (subject: UsageSubject, scope: QuotaScope): string | undefined =>
+  scope === 'tenant' ? subject.tenant : scope === 'room' ? subject.roomId : subject.userId;
+
+// 2 = matches this id, 1 = matches the tenant only, 0 = generic, -1 = not for this subject
+function specificity(rule: QuotaRule, subject: UsageSubject): number {
+  const id = subjectId(subject, rule.scope);
+  if (!id) return -1;
+  if (rule.tenant !== undefined && rule.tenant !== subject.tenant) return -1;
+  if (rule.id !== undefined) return rule.id === id ? 2 : -1;
+  return rule.tenant !== undefined ? 1 : 0;
+}
+
+/** The rules that limit `metric` for this subject: at most one per scope and period, the most specific one. */
+export function rulesFor(subject: UsageSubject, metric: LimitMetric): QuotaRule[] {
+  const best = new Map<string, { rule: QuotaRule; rank: number }>();
+  for (const rule of quotaRules()) {
+    if (rule.metric !== metric) continue;
+    const rank = specificity(rule, subject);
+    if (rank < 0) continue;
+    const key = `${rule.scope}|${rule.period}`;
+    const current = best.get(key);
+    if (!current || rank > current.rank) best.set(key, { rule, rank });
+  }
+  return [...best.values()].map(b => b.rule);
+}
+
+/** Start and end (ms) of the UTC calendar window containing `at`. */
+export function periodWindow(period: QuotaPeriod, at = Date.now()): { start: number; end: number } {
+  const d = new Date(at);
+  switch (period) {
+    case 'minute': {
+      const start = Math.floor(at / 60000) * 60000;
+      return { start, end: start + 60000 };
+    }
+    case 'hour': {
+      const start = Math.floor(at / 3600000) * 3600000;
+      return { start, end: start + 3600000 };
+    }
+    case 'day': {
+      const start = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+      return { start, end: start + 86400000 };
+    }
+    case 'month':
+      return { start: Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1), end: Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1) };
+  }
+}
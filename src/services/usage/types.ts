@@ -0,0 +1,70 @@
+// What we pay providers for: transcribed audio, LLM tokens (summaries) and sent emails
+export type UsageMetric = 'audioSeconds' | 'tokens' | 'emails';
+export const USAGE_METRICS: UsageMetric[] = ['audioSeconds', 'tokens', 'emails'];
+
+// `requests` is a rate limit on API calls; it is counted in memory only and never reported as usage
+export type LimitMetric = UsageMetric | 'requests';
+export const LIMIT_METRICS: LimitMetric[] = [...USAGE_METRICS, 'requests'];
+
+export type QuotaScope = 'tenant' | 'room' | 'user';
+export const QUOTA_SCOPES: QuotaScope[] = ['tenant', 'room', 'user'];
+
+// calendar windows in UTC; a month quota resets on the 1st
+export type QuotaPeriod = 'minute' | 'hour' | 'day' | 'month';
+export const QUOTA_PERIODS: QuotaPeriod[] = ['minute', 'hour', 'day', 'month'];
+
+// Who is billed for an operation. The tenant comes from the API key or JWT (see middleware/auth).
+export interface UsageSubject {
+  tenant: string;
+  roomId?: string;
+  userId?: string;
+}
+
+/**
+ * One limit from USAGE_QUOTAS. Without `id` it applies to every tenant/room/user of its scope;
+ * `tenant` narrows a room or user rule to one tenant. For the same metric, scope and period the most
+ * specific matching rule wins, so a tenant on a bigger plan can be given a higher limit than the default.
+ */
+export interface QuotaRule {
+  metric: LimitMetric;
+  scope: QuotaScope;
+  period: QuotaPeriod;
+  limit: number;
+  id?: string;
+  tenant?: string;
+}
+
+// One line of the usage ledger: ids and amounts only
+export interface UsageEvent {
+  at: string;
+  tenant: string;
+  roomId?: string;
+  userId?: string;
+  metric: UsageMetric;
+  amount: number;
+}
+
+export interface QuotaStatus {
+  metric: LimitMetric;
+  scope: QuotaScope;
+  // tenant, room or user id the limit was counted for
+  id: string;
+  period: QuotaPeriod;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string;
+}
+
+export type UsageTotals = Record<UsageMetric, number>;
+
+export type UsageGroupBy = 'tenant' | 'room' | 'user' | 'day';
+export const USAGE_GROUP_BY: UsageGroupBy[] = ['tenant', 'room', 'user', 'day'];
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  groupBy: UsageGroupBy;
+  totals: UsageTotals;
+  groups: Array<{ key: string } & UsageTotals>;
+}
@@ -0,0 +1,233 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { subscriptionsFor, listSubscriptions } from './subscriptions';
+import { BlockedAddressError, postWebhook } from './network';
+import { metrics } from '../observability/metrics';
+import { config } from '../../config';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookEvent, WebhookEventType } from './types';
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+const settings = () => ({
+  maxAttempts: config().WEBHOOK_MAX_ATTEMPTS,
+  backoffMs: config().WEBHOOK_BACKOFF_MS,
+  backoffMaxMs: config().WEBHOOK_BACKOFF_MAX_MS,
+  timeoutMs: config().WEBHOOK_TIMEOUT_MS,
+  concurrency: config().WEBHOOK_CONCURRENCY,
+  pollMs: config().WEBHOOK_POLL_MS,
+  // delivered/failed entries stay in the delivery log this long
+  retentionMs: config().WEBHOOK_LOG_RETENTION_DAYS * 24 * 3600 * 1000,
+});
+
+const deliveriesDir = () => path.join(config().STORAGE_TEMP_PATH, 'webhooks', 'deliveries');
+const file = (id: string) => path.join(deliveriesDir(), `${id}.json`);
+const isFinal = (status: WebhookDeliveryStatus) => status === 'delivered' || status === 'failed';
+
+async function save(d: WebhookDelivery) {
+  await fs.promises.mkdir(deliveriesDir(), { recursive: true });
+  const tmp = file(d.id) + '.tmp';
+  await fs.promises.writeFile(tmp, JSON.stringify(d, null, 2), 'utf8');
+  await fs.promises.rename(tmp, file(d.id));
+}
+
+async function load(id: string): Promise<WebhookDelivery | null> {
+  try {
+    return JSON.parse(await fs.promises.readFile(file(id), 'utf8'));
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return null;
+    throw e;
+  }
+}
+
+async function loadAll(): Promise<WebhookDelivery[]> {
+  const dir = deliveriesDir();
+  if (!fs.existsSync(dir)) return [];
+  const out: WebhookDelivery[] = [];
+  for (const f of await fs.promises.readdir(dir)) {
+    if (!f.endsWith('.json')) continue;
+    try { out.push(JSON.parse(await fs.promises.readFile(path.join(dir, f), 'utf8'))); } catch { console.warn('[webhooks] skipping unreadable delivery', f); }
+  }
+  return out;
+}
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. Receivers recompute it with their secret
+ * and should reject timestamps older than a few minutes.
+ */
+export function signPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const mac = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${mac}`;
+}
+
+/**
+ * Record an event and queue one delivery per matching subscription. Never throws: webhook
+ * problems must not fail transcription or finalize.
+ */
+export async function emitWebhookEvent<D extends Record<string, unknown>>(type: WebhookEventType, roomId: string | undefined, data: D): Promise<void> {
+  try {
+    const subs = await subscriptionsFor(type, roomId);
+    if (!subs.length) return;
+    const now = new Date().toISOString();
+    const event: WebhookEvent<D> = { id: crypto.randomUUID(), type, createdAt: now, roomId, data };
+    for (const sub of subs) {
+      await save({
+        id: crypto.randomUUID(),
+        subscriptionId: sub.id,
+        url: sub.url,
+        event,
+        status: 'pending',
+        attempts: 0,
+        maxAttempts: settings().maxAttempts,
+        nextAttemptAt: now,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+    console.log('[webhooks] event queued', { id: event.id, type, roomId, subscriptions: subs.length });
+    setImmediate(() => { void tick(); });
+  } catch (e) {
+    console.warn('[webhooks] failed to queue event', { type, roomId }, e);
+  }
+}
+
+// Delivery log without event bodies unless asked for
+export const summarizeDelivery = ({ event, ...rest }: WebhookDelivery) => ({ ...rest, eventId: event.id, eventType: event.type, roomId: event.roomId });
+
+export async function listWebhookDeliveries(filter: { roomId?: string; subscriptionId?: string; status?: WebhookDeliveryStatus } = {}) {
+  return (await loadAll())
+    .filter(d => (!filter.roomId || d.event.roomId === filter.roomId)
+      && (!filter.subscriptionId || d.subscriptionId === filter.subscriptionId)
+      && (!filter.status || d.status === filter.status))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export const getWebhookDelivery = (id: string) => load(id);
+
+/** Delete the delivery log (event bodies included) of a room's events, except deliveries in flight. */
+export async function purgeRoomWebhookDeliveries(roomId: string): Promise<number> {
+  let removed = 0;
+  for (const d of await loadAll()) {
+    if (d.event.roomId !== roomId || d.status === 'sending') continue;
+    await fs.promises.unlink(file(d.id)).catch(() => {});
+    removed++;
+  }
+  return removed;
+}
+
+/** Queue a failed delivery again with a fresh set of attempts. */
+export async function retryWebhookDelivery(id: string): Promise<WebhookDelivery | null> {
+  const d = await load(id);
+  if (!d || d.status !== 'failed') return null;
+  d.status = 'pending';
+  d.attempts = 0;
+  d.nextAttemptAt = d.updatedAt = new Date().toISOString();
+  await save(d);
+  setImmediate(() => { void tick(); });
+  return d;
+}
+
+// Timeouts, network errors, 408, 429 and 5xx are worth another attempt; other responses are final
+const retryable = (status: number | null) => status === null || status === 408 || status === 429 || status >= 500;
+
+async function attempt(d: WebhookDelivery) {
+  const sub = (await listSubscriptions()).find(s => s.id === d.subscriptionId);
+  d.attempts += 1;
+  d.updatedAt = new Date().toISOString();
+
+  if (!sub) {
+    d.status = 'failed';
+    d.lastError = 'subscription was removed';
+    await save(d);
+    return;
+  }
+
+  d.status = 'sending';
+  await save(d);
+  const body = JSON.stringify(d.event);
+  let status: number | null = null;
+  try {
+    // the host is resolved and checked on every attempt; operator-configured (WEBHOOKS) receivers and
+    // WEBHOOK_ALLOW_PRIVATE_URLS are exempt
+    status = await postWebhook(sub.url, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'AgoraX-Webhooks/1.0',
+        'X-AgoraX-Event': d.event.type,
+        'X-AgoraX-Delivery': d.id,
+        'X-AgoraX-Signature': signPayload(sub.secret, body),
+      },
+      timeoutMs: settings().timeoutMs,
+      allowPrivate: sub.source === 'env' || config().WEBHOOK_ALLOW_PRIVATE_URLS,
+    });
+    if (status < 200 || status >= 300) throw new Error(`receiver answered ${status}`);
+    d.status = 'delivered';
+    d.deliveredAt = new Date().toISOString();
+    d.lastError = undefined;
+    metrics.webhookDeliveries.inc({ event: d.event.type, outcome: 'delivered' });
+    console.log('[webhooks] delivered', { id: d.id, type: d.event.type, url: sub.url, attempts: d.attempts });
+  } catch (err) {
+    d.lastError = err instanceof Error ? err.message : String(err);
+    // a receiver on a private address stays refused; retrying will not change that
+    if (!(err instanceof BlockedAddressError) && retryable(status) && d.attempts < d.maxAttempts) {
+      const { backoffMs, backoffMaxMs } = settings();
+      const delay = Math.min(backoffMaxMs, backoffMs * 2 ** (d.attempts - 1));
+      d.status = 'pending';
+      d.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      metrics.webhookDeliveries.inc({ event: d.event.type, outcome: 'retry' });
+      console.warn('[webhooks] delivery failed, will retry', { id: d.id, url: sub.url, status, attempts: d.attempts, delay, err: d.lastError });
+    } else {
+      d.status = 'failed';
+      metrics.webhookDeliveries.inc({ event: d.event.type, outcome: 'failed' });
+      console.error('[webhooks] delivery failed for good', { id: d.id, url: sub.url, status, attempts: d.attempts, err: d.lastError });
+    }
+  }
+  d.responseStatus = status;
+  d.updatedAt = new Date().toISOString();
+  await save(d);
+}
+
+// Send due deliveries, WEBHOOK_CONCURRENCY at a time; purge settled ones past retention
+async function tick() {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const { concurrency, retentionMs } = settings();
+    const now = Date.now();
+    const all = await loadAll();
+    for (const d of all) {
+      if (isFinal(d.status) && now - Date.parse(d.updatedAt) > retentionMs) await fs.promises.unlink(file(d.id)).catch(() => {});
+    }
+    const due = all
+      .filter(d => d.status === 'pending' && Date.parse(d.nextAttemptAt) <= now)
+      .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt));
+    for (let i = 0; i < due.length; i += concurrency) {
+      await Promise.all(due.slice(i, i + concurrency).map(d => attempt(d).catch(e => console.warn('[webhooks] attempt error', { id: d.id }, e))));
+    }
+  } catch (e) {
+    console.warn('[webhooks] tick failed', e);
+  } finally {
+    ticking = false;
+  }
+}
+
+/** Start polling for due deliveries; ones left `sending` by a previous process are retried. */
+export async function startWebhookWorker() {
+  if (timer) return;
+  for (const d of await loadAll()) {
+    if (d.status === 'sending') {
+      d.status = 'pending';
+      d.updatedAt = new Date().toISOString();
+      await save(d);
+    }
+  }
+  timer = setInterval(() => { void tick(); }, settings().pollMs);
+  timer.unref();
+  void tick();
+}
+
+export function stopWebhookWorker() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
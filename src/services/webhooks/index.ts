@@ -0,0 +1,9 @@
+export * from './types';
+export {
+  createSubscription, deleteRoomSubscriptions, deleteSubscription, isWebhookEventType, listSubscriptions, redactSubscription,
+  validateEvents, validateWebhookUrl, WebhookValidationError, CreateSubscriptionInput,
+} from './subscriptions';
+export {
+  emitWebhookEvent, getWebhookDelivery, listWebhookDeliveries, purgeRoomWebhookDeliveries, retryWebhookDelivery, signPayload,
+  startWebhookWorker, stopWebhookWorker, summarizeDelivery,
+} from './deliveries';
@@ -0,0 +1,90 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+// Loopback, private, link-local, shared, multicast and reserved ranges; IPv4-mapped IPv6 addresses match the IPv4 rules
+const BLOCKED = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) BLOCKED.addSubnet(prefix, bits, 'ipv4');
+for (const [prefix, bits] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) BLOCKED.addSubnet(prefix, bits, 'ipv6');
+
+export class BlockedAddressError extends Error {
+  constructor(host: string, address?: string) {
+    super(address ? `${host} resolves to a private or loopback address (${address})` : `${host} is a private or loopback address`);
+    this.name = 'BlockedAddressError';
+  }
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (!family) return false;
+  return BLOCKED.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// URL hostnames keep IPv6 brackets and may end in a root dot (`localhost.`)
+export const bareHost = (hostname: string) => hostname.replace(/^\[|\]$/g, '').replace(/\.+$/, '').toLowerCase();
+
+/** Refuse hosts that are, by name or literal address, this machine or a private network. No DNS. */
+export function checkHostLiteral(hostname: string) {
+  const host = bareHost(hostname);
+  if (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host)) throw new BlockedAddressError(hostname);
+}
+
+// dns.lookup with every answer checked; used as the socket's lookup so the checked address is the one connected to
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '', 0);
+    const blocked = addresses.find(a => isPrivateAddress(a.address));
+    if (blocked) return callback(new BlockedAddressError(hostname, blocked.address), '', 0);
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/** Resolve a host and refuse it when any address it resolves to is private. */
+export async function checkHostResolves(hostname: string) {
+  checkHostLiteral(hostname);
+  const host = bareHost(hostname);
+  if (net.isIP(host)) return;
+  const addresses = await dns.promises.lookup(host, { all: true });
+  const blocked = addresses.find(a => isPrivateAddress(a.address));
+  if (blocked) throw new BlockedAddressError(hostname, blocked.address);
+}
+
+export interface PostOptions {
+  headers: Record<string, string>;
+  timeoutMs: number;
+  // skip the private address checks (WEBHOOK_ALLOW_PRIVATE_URLS)
+  allowPrivate: boolean;
+}
+
+/**
+ * POST `body` to a receiver and resolve with the response status. Redirects are not followed. Unless
+ * allowed, private hosts are refused before connecting, whether given literally or resolved through DNS.
+ */
+export function postWebhook(url: string, body: string, options: PostOptions): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    try {
+      if (!options.allowPrivate) checkHostLiteral(target.hostname);
+    } catch (e) {
+      return reject(e);
+    }
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { ...options.headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: options.allowPrivate ? undefined : guardedLookup,
+      signal: AbortSignal.timeout(options.timeoutMs),
+    }, (res) => {
+      res.resume();
+      resolve(res.statusCode || 0);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
@@ -0,0 +1,154 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { withLock } from '../../utils/lock';
+import { BlockedAddressError, checkHostLiteral, checkHostResolves } from './network';
+import { config } from '../../config';
+import { WEBHOOK_EVENT_TYPES, WebhookEventType, WebhookSubscription } from './types';
+
+const webhooksDir = () => path.join(config().STORAGE_TEMP_PATH, 'webhooks');
+const subscriptionsFile = () => path.join(webhooksDir(), 'subscriptions.json');
+
+export const isWebhookEventType = (v: unknown): v is WebhookEventType => typeof v === 'string' && (WEBHOOK_EVENT_TYPES as string[]).includes(v);
+
+export class WebhookValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookValidationError';
+  }
+}
+
+export function validateEvents(value: unknown): Array<WebhookEventType | '*'> {
+  const list = Array.isArray(value) ? value : String(value ?? '*').split(',');
+  const events = list.map(e => String(e).trim()).filter(Boolean);
+  if (!events.length) return ['*'];
+  const unknown = events.filter(e => e !== '*' && !isWebhookEventType(e));
+  if (unknown.length) throw new WebhookValidationError(`Unknown webhook events: ${unknown.join(', ')} (expected ${WEBHOOK_EVENT_TYPES.join(', ')} or *)`);
+  return events.includes('*') ? ['*'] : (events as WebhookEventType[]);
+}
+
+/**
+ * API-created subscriptions must use http(s) and, unless WEBHOOK_ALLOW_PRIVATE_URLS=true,
+ * must not name this host or a private network address. Names are resolved when creating the
+ * subscription and again on every delivery (see network.ts), since DNS answers can change.
+ */
+export function validateWebhookUrl(value: unknown): string {
+  let url: URL;
+  try {
+    url = new URL(String(value || ''));
+  } catch {
+    throw new WebhookValidationError('url must be an absolute http(s) URL');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new WebhookValidationError('url must be an absolute http(s) URL');
+  const allowPrivate = config().WEBHOOK_ALLOW_PRIVATE_URLS;
+  try {
+    if (!allowPrivate) checkHostLiteral(url.hostname);
+  } catch {
+    throw new WebhookValidationError('url must not point at a private or loopback address');
+  }
+  return url.toString();
+}
+
+/**
+ * Deployment-wide subscriptions from WEBHOOKS: a JSON array of { url, events?, roomId?, secret?, description? }.
+ * Entries without a secret use WEBHOOK_SECRET.
+ */
+function envSubscriptions(): WebhookSubscription[] {
+  const { WEBHOOKS, WEBHOOK_SECRET } = config();
+  return WEBHOOKS.map((w, i): WebhookSubscription => ({
+    id: `env-${i}`,
+    url: w.url,
+    secret: w.secret || WEBHOOK_SECRET || '',
+    events: validateEvents(w.events),
+    roomId: w.roomId,
+    description: w.description,
+    source: 'env',
+    createdAt: new Date(0).toISOString(),
+  }));
+}
+
+async function readStored(): Promise<WebhookSubscription[]> {
+  try {
+    return JSON.parse(await fs.promises.readFile(subscriptionsFile(), 'utf8'));
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return [];
+    throw e;
+  }
+}
+
+async function writeStored(list: WebhookSubscription[]) {
+  await fs.promises.mkdir(webhooksDir(), { recursive: true });
+  const tmp = subscriptionsFile() + '.tmp';
+  await fs.promises.writeFile(tmp, JSON.stringify(list, null, 2), 'utf8');
+  await fs.promises.rename(tmp, subscriptionsFile());
+}
+
+export async function listSubscriptions(filter: { roomId?: string } = {}): Promise<WebhookSubscription[]> {
+  const all = [...envSubscriptions(), ...(await readStored())];
+  return filter.roomId === undefined ? all : all.filter(s => s.roomId === filter.roomId);
+}
+
+// Subscriptions that want an event: deployment-wide ones plus those of the event's room
+export async function subscriptionsFor(type: WebhookEventType, roomId?: string) {
+  return (await listSubscriptions()).filter(s =>
+    (s.events.includes('*') || s.events.includes(type)) && (!s.roomId || s.roomId === roomId));
+}
+
+export interface CreateSubscriptionInput {
+  url: unknown;
+  events?: unknown;
+  roomId?: string;
+  secret?: unknown;
+  description?: unknown;
+}
+
+/** Validate and store a subscription; a random secret is generated when none is given. */
+export async function createSubscription(input: CreateSubscriptionInput): Promise<WebhookSubscription> {
+  const secret = input.secret ? String(input.secret) : `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  if (secret.length < 16) throw new WebhookValidationError('secret must be at least 16 characters');
+  const url = validateWebhookUrl(input.url);
+  if (!config().WEBHOOK_ALLOW_PRIVATE_URLS) {
+    // a name that does not resolve yet is accepted; deliveries check it again
+    await checkHostResolves(new URL(url).hostname).catch(e => {
+      if (e instanceof BlockedAddressError) throw new WebhookValidationError('url must not point at a private or loopback address');
+    });
+  }
+  const sub: WebhookSubscription = {
+    id: crypto.randomUUID(),
+    url,
+    secret,
+    events: validateEvents(input.events),
+    roomId: input.roomId,
+    description: input.description ? String(input.description).slice(0, 200) : undefined,
+    source: 'api',
+    createdAt: new Date().toISOString(),
+  };
+  await withLock('webhooks:subscriptions', async () => writeStored([...(await readStored()), sub]));
+  console.log('[webhooks] subscription created', { id: sub.id, roomId: sub.roomId || null, events: sub.events });
+  return sub;
+}
+
+/** Remove an API-created subscription; `roomId` restricts the removal to that room's subscriptions. */
+export async function deleteSubscription(id: string, roomId?: string): Promise<boolean> {
+  return withLock('webhooks:subscriptions', async () => {
+    const list = await readStored();
+    const keep = list.filter(s => !(s.id === id && (roomId === undefined || s.roomId === roomId)));
+    if (keep.length === list.length) return false;
+    await writeStored(keep);
+    console.log('[webhooks] subscription deleted', { id });
+    return true;
+  });
+}
+
+/** Remove every API-created subscription scoped to a room (room deletion). */
+export async function deleteRoomSubscriptions(roomId: string): Promise<number> {
+  return withLock('webhooks:subscriptions', async () => {
+    const list = await readStored();
+    const keep = list.filter(s => s.roomId !== roomId);
+    if (keep.length !== list.length) await writeStored(keep);
+    return list.length - keep.length;
+  });
+}
+
+// Secrets are only shown when a subscription is created
+export const redactSubscription = ({ secret, ...rest }: WebhookSubscription) => ({ ...rest, secret: secret ? `${secret.slice(0, 8)}…` : '' });
@@ -0,0 +1,48 @@
+export type WebhookEventType = 'chunk.transcribed' | 'room.finalized' | 'summary.ready' | 'email.failed';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ['chunk.transcribed', 'room.finalized', 'summary.ready', 'email.failed'];
+
+// Body POSTed to subscribers
+export interface WebhookEvent<D = Record<string, unknown>> {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  roomId?: string;
+  data: D;
+}
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  // HMAC-SHA256 key for the X-AgoraX-Signature header
+  secret: string;
+  // event types, or ['*'] for all of them
+  events: Array<WebhookEventType | '*'>;
+  // only events of this room; unset for deployment-wide subscriptions
+  roomId?: string;
+  description?: string;
+  // env: declared in WEBHOOKS and read-only; api: created through the API
+  source: 'env' | 'api';
+  createdAt: string;
+}
+
+// pending: waiting for its (next) attempt; failed: attempts exhausted or rejected by the receiver
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'delivered' | 'failed';
+
+/** One event POSTed to one subscription, kept as the delivery log. */
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  url: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  // HTTP status of the last attempt; null when the request itself failed
+  responseStatus?: number | null;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt?: string;
+}
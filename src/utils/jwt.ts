@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+
+export interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  [claim: string]: unknown;
+}
+
+export interface JwtVerifyOptions {
+  secret: string;
+  issuer?: string;
+  audience?: string;
+  // allowed clock difference for exp/nbf, in seconds
+  clockToleranceSec?: number;
+}
+
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwtError';
+  }
+}
+
+const decodePart = (part: string) => JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+
+export const looksLikeJwt = (token: string) => /^[\w-]+\.[\w-]+\.[\w-]+$/.test(token);
+
+/**
+ * Verify an HS256-signed JWT and return its claims. Throws JwtError when the signature,
+ * algorithm, expiry, not-before, issuer or audience do not match.
+ */
+export function verifyJwt(token: string, options: JwtVerifyOptions): JwtClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new JwtError('malformed token');
+  const [headerPart, payloadPart, signaturePart] = parts;
+
+  let header: any;
+  let claims: JwtClaims;
+  try {
+    header = decodePart(headerPart);
+    claims = decodePart(payloadPart);
+  } catch {
+    throw new JwtError('malformed token');
+  }
+  if (header?.alg !== 'HS256') throw new JwtError(`unsupported algorithm ${header?.alg}`);
+
+  const expected = crypto.createHmac('sha256', options.secret).update(`${headerPart}.${payloadPart}`).digest();
+  const actual = Buffer.from(signaturePart, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) throw new JwtError('invalid signature');
+
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSec ?? 30;
+  if (typeof claims.exp === 'number' && now - tolerance >= claims.exp) throw new JwtError('token expired');
+  if (typeof claims.nbf === 'number' && now + tolerance < claims.nbf) throw new JwtError('token not yet valid');
+  if (options.issuer && claims.iss !== options.issuer) throw new JwtError('unexpected issuer');
+  if (options.audience) {
+    const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!aud.includes(options.audience)) throw new JwtError('unexpected audience');
+  }
+  return claims;
+}
@@ -0,0 +1,14 @@
+const chains = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `fn` after every previously queued call for the same key has settled.
+ * In-process only: serializes read-modify-write sequences on shared files.
+ */
+export function withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const prev = chains.get(key) || Promise.resolve();
+  const run = prev.then(fn, fn);
+  const tail = run.catch(() => {});
+  chains.set(key, tail);
+  tail.then(() => { if (chains.get(key) === tail) chains.delete(key); });
+  return run;
+}
@@ -1,86 +1,83 @@
-import { Resend } from 'resend';
-import dotenv from 'dotenv';
-
-dotenv.config();
-
-const resend = new Resend(process.env.RESEND_API_KEY || '');
-
-function escapeHtml(s: string) {
-  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
-}
+import { Locale, t } from '../services/i18n';
+import { emailTheme, escapeHtml, getMailer, MailAttachment, markdownToHtml, markdownToText } from '../services/mail';
 
 /**
- * Envía el resumen de una reunión usando la plantilla de AgoraX.
- * @param to dirección del destinatario
- * @param subject asunto
- * @param summary contenido HTML o texto
+ * Genera el correo del resumen de una reunión con la plantilla de AgoraX: HTML con estilos en línea
+ * y tablas (Outlook ignora casi todo el CSS) y una parte de texto plano equivalente.
+ * @param summary resumen en Markdown
  * @param participants lista de participantes opcional
+ * @param locale idioma de la plantilla (título, encabezados y pie); por defecto español
  */
-export async function sendMeetingSummaryEmail(to: string, subject: string, summary: string, participants?: string[]) {
+export function renderMeetingSummaryEmail(summary: string, participants?: string[], locale: Locale = 'es'): { html: string; text: string } {
+  const m = t(locale);
+  const theme = emailTheme();
   // Remove common unwanted intro lines (e.g., "Para quienes me han preguntado..." until the send line)
   let cleaned = String(summary || '').trim();
   const introPattern = /Para quienes[\s\S]*?Se envía este resumen por correo a los participantes\.?\s*/i;
   cleaned = cleaned.replace(introPattern, '').trim();
 
-  // Convert a minimal subset of markdown/plain text to safe HTML
-  function simpleMarkdownToHtml(text: string) {
-    // escape first
-    let s = escapeHtml(text);
-    // bold **text**
-    s = s.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
-    // unordered lists: lines starting with * or -
-    const lines = s.split(/\r?\n/);
-    const out: string[] = [];
-    let inUl = false;
-    for (let line of lines) {
-      const trimmed = line.trim();
-      if (/^([\*\-])\s+/.test(trimmed)) {
-        if (!inUl) { out.push('<ul style="margin:8px 0 8px 18px;color:#222;">'); inUl = true; }
-        const li = trimmed.replace(/^([\*\-])\s+/, '');
-        out.push(`<li>${li}</li>`);
-      } else {
-        if (inUl) { out.push('</ul>'); inUl = false; }
-        if (trimmed === '') { out.push('<p></p>'); }
-        else { out.push(`<p style="margin:8px 0;color:#222;">${trimmed}</p>`); }
-      }
-    }
-    if (inUl) out.push('</ul>');
-    return out.join('\n');
-  }
+  const names = (participants || []).map(p => String(p)).filter(Boolean);
+  const logoHtml = theme.logoUrl
+    ? `<img src="${escapeHtml(theme.logoUrl)}" alt="${escapeHtml(theme.brandName)}" height="36" style="display:block;margin:0 auto 10px;border:0;height:36px;">`
+    : '';
+  const participantsHtml = names.length ? `
+          <tr><td style="padding:4px 24px 8px;">
+            <h3 style="margin:0 0 6px;font-size:15px;color:${theme.headingColor};">${m.emailParticipants}</h3>
+            <ul style="margin:0;padding-left:20px;">${names.map(p => `<li style="margin:0 0 2px;">${escapeHtml(p)}</li>`).join('')}</ul>
+          </td></tr>` : '';
 
-  const participantsHtml = participants && participants.length ? `
-    <div style="margin-bottom:16px;">
-      <h3 style="margin:0 0 8px 0;color:#333;">Participantes</h3>
-      <ul style="margin:0;padding-left:18px;color:#333;">
-        ${participants.map(p => `<li>${escapeHtml(String(p))}</li>`).join('')}
-      </ul>
-    </div>
-  ` : '';
+  const html = `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(m.emailTitle)}</title>
+</head>
+<body style="margin:0;padding:0;background-color:${theme.backgroundColor};">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" bgcolor="${theme.backgroundColor}" style="background-color:${theme.backgroundColor};">
+    <tr><td align="center" style="padding:22px 12px;">
+      <!--[if mso]><table role="presentation" width="600" cellpadding="0" cellspacing="0" border="0"><tr><td><![endif]-->
+      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" bgcolor="${theme.cardColor}" style="max-width:600px;background-color:${theme.cardColor};border:1px solid ${theme.borderColor};border-radius:10px;font-family:${theme.fontFamily};font-size:15px;color:${theme.textColor};">
+        <tr><td align="center" style="padding:20px 24px 8px;border-top:4px solid ${theme.primaryColor};border-radius:10px 10px 0 0;">
+          ${logoHtml}
+          <h1 style="margin:0;font-size:20px;color:${theme.headingColor};">${m.emailTitle}</h1>
+        </td></tr>${participantsHtml}
+        <tr><td style="padding:8px 24px 12px;">
+          ${markdownToHtml(cleaned, theme)}
+        </td></tr>
+        <tr><td style="padding:12px 24px 20px;border-top:1px solid ${theme.borderColor};font-size:13px;color:${theme.mutedColor};">${m.emailFooter}</td></tr>
+      </table>
+      <!--[if mso]></td></tr></table><![endif]-->
+    </td></tr>
+  </table>
+</body>
+</html>`;
 
-  const summaryHtml = simpleMarkdownToHtml(cleaned);
+  const text = [
+    m.emailTitle,
+    '='.repeat(m.emailTitle.length),
+    ...(names.length ? ['', `${m.emailParticipants}:`, ...names.map(p => `- ${p}`)] : []),
+    '',
+    markdownToText(cleaned),
+    '',
+    '--',
+    m.emailFooter,
+  ].join('\n');
 
-  const htmlContent = `
-    <div style="font-family: Arial, sans-serif; max-width: 680px; margin: 0 auto; padding: 22px; background-color: #f6f8fb;">
-      <div style="max-width:560px; margin:0 auto; background:#ffffff; border-radius:10px; padding:20px; box-shadow:0 1px 3px rgba(0,0,0,0.06);">
-        <div style="text-align:center; margin-bottom:14px;">
-          <h1 style="color:#111; margin:0; font-size:20px;">Resumen de la reunión</h1>
-        </div>
-        ${participantsHtml}
-        <div style="padding:12px 14px; border-radius:8px; background:#fafafa;">
-          ${summaryHtml}
-        </div>
-        <div style="margin-top:14px; font-size:13px; color:#666;">Este es un mensaje automático de AgoraX.</div>
-      </div>
-    </div>
-  `;
+  return { html, text };
+}
 
+/**
+ * Envía el resumen al momento con el mailer configurado (MAIL_BACKEND), sin pasar por el outbox.
+ * @param to dirección del destinatario
+ * @param subject asunto
+ * @param attachments adjuntos opcionales (transcripción, acciones)
+ */
+export async function sendMeetingSummaryEmail(to: string, subject: string, summary: string, participants?: string[], locale: Locale = 'es', attachments?: MailAttachment[]) {
+  const mailer = getMailer();
+  if (!mailer) throw new Error('No hay un servicio de correo configurado');
   try {
-    await resend.emails.send({
-      from:'AgoraX <noreply@messagesmail.store>',
-      to,
-      subject,
-      html: htmlContent,
-    } as any);
+    await mailer.send({ to, subject, ...renderMeetingSummaryEmail(summary, participants, locale), attachments });
     console.log('✅ Resumen enviado a', to);
   } catch (err) {
     const errMsg = err instanceof Error ? err.message : String(err);
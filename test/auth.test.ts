@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { describe, expect, it } from 'vitest';
+
+Object.assign(process.env, {
+  AUTH_MODE: 'enforce',
+  AUTH_API_KEYS: JSON.stringify([{ key: 'alice-key', name: 'alice', rooms: ['r1'], userId: 'alice' }, { key: 'backend-key', name: 'backend' }]),
+  AUTH_ADMIN_KEYS: 'admin-key',
+  AUTH_JWT_SECRET: 'test-secret',
+});
+const { authenticate, requireRoomAccess, requireScope } = await import('../src/middleware/auth');
+
+const b64 = (v: unknown) => Buffer.from(JSON.stringify(v)).toString('base64url');
+function jwt(claims: Record<string, unknown>, secret = 'test-secret') {
+  const head = `${b64({ alg: 'HS256', typ: 'JWT' })}.${b64(claims)}`;
+  return `${head}.${crypto.createHmac('sha256', secret).update(head).digest('base64url')}`;
+}
+
+function run(middleware: (req: Request, res: Response, next: NextFunction) => unknown, req: Partial<Request>) {
+  const out = { status: 200, body: undefined as any, passed: false, req: { headers: {}, params: {}, query: {}, path: '/test', ...req } as Request };
+  const res = {
+    status(code: number) { out.status = code; return this; },
+    json(body: unknown) { out.body = body; return this; },
+  } as unknown as Response;
+  middleware(out.req, res, () => { out.passed = true; });
+  return out;
+}
+
+const authed = (token: string) => run(authenticate, { headers: { authorization: `Bearer ${token}` } }).req.auth;
+
+describe('authenticate', () => {
+  it('rejects missing and unknown credentials', () => {
+    expect(run(authenticate, {})).toMatchObject({ status: 401, passed: false, body: { message: 'Missing credentials' } });
+    expect(run(authenticate, { headers: { 'x-api-key': 'nope' } })).toMatchObject({ status: 401, passed: false, body: { message: 'Invalid credentials' } });
+    expect(run(authenticate, { headers: { authorization: `Bearer ${jwt({ sub: 'bob' }, 'other-secret')}` } }).status).toBe(401);
+    expect(run(authenticate, { headers: { authorization: `Bearer ${jwt({ sub: 'bob', exp: 1 })}` } }).status).toBe(401);
+  });
+
+  it('resolves API keys and JWTs to a principal', () => {
+    const viaHeader = run(authenticate, { headers: { 'x-api-key': 'alice-key' } });
+    expect(viaHeader.passed).toBe(true);
+    expect(viaHeader.req.auth).toMatchObject({ kind: 'api-key', subject: 'alice', rooms: ['r1'], userId: 'alice', tenant: 'alice' });
+    expect(authed('admin-key')).toMatchObject({ scopes: ['admin'], rooms: ['*'] });
+    expect(authed(jwt({ sub: 'bob', room: 'r2', scope: 'admin', tid: 'acme' }))).toEqual({
+      kind: 'jwt', subject: 'bob', scopes: ['admin'], rooms: ['r2'], userId: 'bob', tenant: 'acme',
+    });
+  });
+});
+
+describe('requireScope', () => {
+  it('only lets admin principals through', () => {
+    expect(run(requireScope('admin'), { auth: authed('admin-key') }).passed).toBe(true);
+    expect(run(requireScope('admin'), { auth: authed('backend-key') })).toMatchObject({ status: 403, passed: false });
+  });
+});
+
+describe('requireRoomAccess', () => {
+  const alice = authed('alice-key');
+
+  it('refuses room ids the store cannot hold', () => {
+    expect(run(requireRoomAccess, { auth: alice, params: { roomId: '../etc' } })).toMatchObject({ status: 400, passed: false });
+    expect(run(requireRoomAccess, { auth: alice, query: { roomId: 'a/b' } }).status).toBe(400);
+  });
+
+  it('checks the room and participant against the principal', () => {
+    expect(run(requireRoomAccess, { auth: alice, params: { roomId: 'r1' } }).passed).toBe(true);
+    expect(run(requireRoomAccess, { auth: alice, params: { roomId: 'r1' }, query: { userId: 'alice' } }).passed).toBe(true);
+    expect(run(requireRoomAccess, { auth: alice, params: { roomId: 'r2' } })).toMatchObject({ status: 403, body: { message: 'Not allowed for this room' } });
+    expect(run(requireRoomAccess, { auth: alice, params: { roomId: 'r1' }, body: { userId: 'mallory' } })).toMatchObject({ status: 403, body: { message: 'Not allowed for this user' } });
+  });
+
+  it('lets service keys and admins act for any room and participant', () => {
+    expect(run(requireRoomAccess, { auth: authed('backend-key'), params: { roomId: 'r9' }, query: { userId: 'anyone' } }).passed).toBe(true);
+    expect(run(requireRoomAccess, { auth: authed('admin-key'), params: { roomId: 'r9' }, query: { userId: 'anyone' } }).passed).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'chunks-test-'));
+Object.assign(process.env, { STORAGE_TEMP_PATH: tmp, AUDIO_PREPROCESS: 'false', REDACTION_MODE: 'off' });
+
+// no provider or ffmpeg here: transcription returns a fixed text and audio lasts two seconds
+vi.mock('../src/services/transcribe', () => ({
+  transcribeBuffer: vi.fn(async () => ({ transcript: 'hola a todos', segments: [], provider: 'local', retried: false, transcoded: false })),
+}));
+// an LLM summarizer answering in one line, and an outbox that only records what it was given
+vi.mock('../src/services/summarization', async (importOriginal) => ({
+  ...await importOriginal<object>(),
+  getSummarizer: () => ({ name: 'openai', model: 'test', isConfigured: () => true, summarize: async () => ({ summary: 'Short summary' }) }),
+}));
+vi.mock('../src/services/mail', async (importOriginal) => ({
+  ...await importOriginal<object>(),
+  mailEnabled: () => true,
+  queueEmails: vi.fn(async () => []),
+}));
+vi.mock('../src/services/media/ffmpeg', async (importOriginal) => ({
+  ...await importOriginal<object>(),
+  probeAudio: vi.fn(async () => ({ durationMs: 2000 })),
+}));
+
+const { processChunk } = await import('../src/services/chunks');
+const { transcribeBuffer } = await import('../src/services/transcribe');
+const { getTranscriptStore } = await import('../src/services/store');
+const { usageReport } = await import('../src/services/usage');
+const { queueEmails } = await import('../src/services/mail');
+
+let n = 0;
+async function upload(roomId: string) {
+  const filePath = path.join(tmp, `audio-${++n}.webm`);
+  fs.writeFileSync(filePath, Buffer.alloc(5000));
+  const now = new Date().toISOString();
+  const { chunk } = await getTranscriptStore().registerChunk({ id: `chunk-${n}`, roomId, userId: 'alice', seq: n, status: 'received', receivedAt: now, updatedAt: now });
+  return { filePath, chunkId: chunk.id, seq: n, roomId, userId: 'alice', offsetMs: 0, receivedAt: now, size: 5000, headHex: '', tenant: 't1' };
+}
+
+// `to` is exclusive; an event recorded this millisecond would fall outside a report ending now
+const audioSeconds = async (roomId: string) => (await usageReport({ tenant: 't1', roomId, to: Date.now() + 1000 })).totals.audioSeconds;
+
+describe('processChunk', () => {
+  beforeEach(() => { vi.restoreAllMocks(); });
+  afterAll(() => fs.promises.rm(tmp, { recursive: true, force: true }));
+
+  it('stores the transcript, marks the chunk and bills the audio once', async () => {
+    const payload = await upload('r1');
+    const result = await processChunk(payload);
+    expect(result.transcription).toBe('hola a todos');
+    expect((await getTranscriptStore().listSegments('r1')).map(s => s.text)).toEqual(['hola a todos']);
+    expect((await getTranscriptStore().listChunks('r1'))[0].status).toBe('transcribed');
+    expect(await audioSeconds('r1')).toBe(2);
+    expect(fs.existsSync(payload.filePath)).toBe(false);
+  });
+
+  it('fails the job when the transcript cannot be stored, without billing or dropping the audio', async () => {
+    const payload = await upload('r2');
+    vi.spyOn(getTranscriptStore(), 'appendSegments').mockRejectedValueOnce(new Error('disk full'));
+    await expect(processChunk(payload)).rejects.toThrow('disk full');
+    expect((await getTranscriptStore().listChunks('r2'))[0].status).toBe('received');
+    expect(await audioSeconds('r2')).toBe(0);
+    // the retry still has its audio
+    expect(fs.existsSync(payload.filePath)).toBe(true);
+    await processChunk(payload);
+    expect((await getTranscriptStore().listSegments('r2')).map(s => s.text)).toEqual(['hola a todos']);
+    expect(await audioSeconds('r2')).toBe(2);
+  });
+
+  it('does not transcribe, append or bill a chunk again when a retry finds it already stored', async () => {
+    const payload = await upload('r3');
+    await processChunk(payload);
+    const calls = vi.mocked(transcribeBuffer).mock.calls.length;
+
+    // the job failed after storing the transcript and is run again with the same chunk
+    fs.writeFileSync(payload.filePath, Buffer.alloc(5000));
+    const retry = await processChunk(payload);
+    expect(retry.transcription).toBe('hola a todos');
+    expect(vi.mocked(transcribeBuffer).mock.calls.length).toBe(calls);
+    expect((await getTranscriptStore().listSegments('r3')).map(s => s.text)).toEqual(['hola a todos']);
+    expect(await audioSeconds('r3')).toBe(2);
+    expect(fs.existsSync(payload.filePath)).toBe(false);
+  });
+
+  it('emails the chunk summary in the room locale', async () => {
+    await getTranscriptStore().updateRoomSettings('r4', { locale: 'en' });
+    const result = await processChunk({ ...await upload('r4'), email: 'alice@example.com' });
+    expect(result.summary).toBe('Short summary');
+    const [messages, options] = vi.mocked(queueEmails).mock.calls.at(-1)!;
+    expect(options).toMatchObject({ purpose: 'chunk-summary', roomId: 'r4' });
+    expect(messages[0]).toMatchObject({ to: 'alice@example.com', subject: 'Meeting summary r4' });
+    expect(messages[0].html).toContain('Meeting summary');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeExtractive } from '../src/services/summarization/extractive';
+import { TimelineEntry } from '../src/services/timeline';
+
+const WORDS = 'presupuesto cliente entrega servidor pruebas diseño contrato factura equipo calendario proveedor informe migración datos reunión'.split(' ');
+
+// about two hours of talk: 4,000 sentences drawn from a small vocabulary
+function longMeeting(sentences: number): TimelineEntry[] {
+  let seed = 7;
+  const next = () => (seed = (seed * 1103515245 + 12345) % 2 ** 31) / 2 ** 31;
+  return Array.from({ length: sentences }, (_, i) => ({
+    speaker: `user-${i % 5}`,
+    kind: 'speech' as const,
+    startMs: i * 1800,
+    endMs: i * 1800 + 1500,
+    text: Array.from({ length: 8 }, () => WORDS[Math.floor(next() * WORDS.length)]).join(' ') + '.',
+    overlapsWith: [],
+  }));
+}
+
+describe('extractive summarizer', () => {
+  it('pulls decisions and action items with their speaker and time', async () => {
+    const result = await summarizeExtractive([
+      { speaker: 'Ana', kind: 'speech', startMs: 0, endMs: 4000, text: 'Revisamos el presupuesto del cliente para la entrega.', overlapsWith: [] },
+      { speaker: 'Luis', kind: 'speech', startMs: 65000, endMs: 70000, text: 'Decidimos migrar el servidor en marzo. Me encargo de preparar el informe de pruebas.', overlapsWith: [] },
+    ], { locale: 'es' });
+    expect(result?.structured?.decisions).toEqual(['Luis: Decidimos migrar el servidor en marzo.']);
+    expect(result?.structured?.actionItems).toEqual([
+      { description: 'Me encargo de preparar el informe de pruebas.', owner: 'Luis', dueDate: null, sourceTimestamp: '00:01:05' },
+    ]);
+  });
+
+  it('ranks long meetings in windows without blocking the event loop for the whole transcript', async () => {
+    let longestGapMs = 0;
+    let last = Date.now();
+    const monitor = setInterval(() => { longestGapMs = Math.max(longestGapMs, Date.now() - last); last = Date.now(); }, 5);
+
+    const started = Date.now();
+    const result = await summarizeExtractive(longMeeting(4000), { locale: 'es' });
+    const totalMs = Date.now() - started;
+    clearInterval(monitor);
+
+    expect(result?.structured?.overview.split('user-').length).toBe(1 + 6);
+    // the work is split up: the loop got to run while ranking
+    expect(longestGapMs).toBeLessThan(totalMs);
+    expect(totalMs).toBeLessThan(10_000);
+  });
+});
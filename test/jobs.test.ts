@@ -0,0 +1,131 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { JobRecord } from '../src/services/jobs';
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-test-'));
+Object.assign(process.env, { STORAGE_TEMP_PATH: tmp, JOB_BACKOFF_MS: '0', JOB_POLL_MS: '50', JOB_LEASE_MS: '1000', JOB_MAX_ATTEMPTS: '3' });
+
+// imported after the env above so the config picks it up
+const jobs = import('../src/services/jobs');
+const jobsDir = path.join(tmp, 'jobs');
+
+const settle = async (id: string) => {
+  const { waitForJob } = await jobs;
+  return waitForJob(id, 5000);
+};
+
+describe('job store', () => {
+  it('gives each attempt to exactly one of the stores sharing a directory', async () => {
+    const { createJobStore } = await import('../src/services/jobs/store');
+    const dir = path.join(tmp, 'shared');
+    const [a, b] = [createJobStore(dir), createJobStore(dir)];
+    const id = '00000000-0000-4000-8000-0000000000aa';
+    const claims = await Promise.all([a.claim(id, 0, 'a'), b.claim(id, 0, 'b'), a.claim(id, 0, 'a')]);
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    expect(await b.claim(id, 1, 'b')).toBe(true);
+  });
+
+  it('does not lose a save to a concurrent one of the same job', async () => {
+    const { createJobStore } = await import('../src/services/jobs/store');
+    const s = createJobStore(path.join(tmp, 'concurrent'));
+    const now = new Date().toISOString();
+    const base: JobRecord = {
+      id: '00000000-0000-4000-8000-0000000000bb', type: 'finalize', status: 'running', payload: {}, attempts: 1, maxAttempts: 3,
+      runAfter: now, createdAt: now, updatedAt: now,
+    };
+    await Promise.all(Array.from({ length: 20 }, (_, i) => s.save({ ...base, progress: { step: i } })));
+    expect((await s.get(base.id))?.progress?.step).toBeTypeOf('number');
+    expect(fs.readdirSync(path.join(tmp, 'concurrent')).filter(f => f.endsWith('.tmp'))).toEqual([]);
+  });
+});
+
+describe('job queue', () => {
+  const calls: Record<string, number> = {};
+  const failed: string[] = [];
+
+  beforeAll(async () => {
+    const { registerJobHandler } = await import('../src/services/jobs/queue');
+    registerJobHandler<{ key: string; failTimes: number }, string>('finalize', {
+      async run(payload) {
+        calls[payload.key] = (calls[payload.key] || 0) + 1;
+        if (payload.failTimes < 0) throw Object.assign(new Error('bad setup'), { permanent: true });
+        if (calls[payload.key] <= payload.failTimes) throw new Error(`attempt ${calls[payload.key]} failed`);
+        return `done ${payload.key}`;
+      },
+      async onFailed(payload) { failed.push(payload.key); },
+      retryable: (err) => !(err as { permanent?: boolean }).permanent,
+    });
+    await (await jobs).startJobWorker();
+  });
+  afterAll(async () => {
+    (await jobs).stopJobWorker();
+    await fs.promises.rm(tmp, { recursive: true, force: true });
+  });
+
+  it('retries a failing job and moves it out of the polled directory once it succeeds', async () => {
+    const { enqueueJob } = await jobs;
+    const job = await enqueueJob('finalize', { key: 'retry', failTimes: 1 });
+    const done = await settle(job.id);
+    expect(done).toMatchObject({ status: 'succeeded', attempts: 2, result: 'done retry' });
+    expect(fs.existsSync(path.join(jobsDir, `${job.id}.json`))).toBe(false);
+    expect(fs.existsSync(path.join(jobsDir, 'done', `${job.id}.json`))).toBe(true);
+  });
+
+  it('fails for good after JOB_MAX_ATTEMPTS and runs the onFailed hook once', async () => {
+    const { enqueueJob } = await jobs;
+    const job = await enqueueJob('finalize', { key: 'broken', failTimes: 99 });
+    const done = await settle(job.id);
+    expect(done).toMatchObject({ status: 'failed', attempts: 3, error: 'attempt 3 failed' });
+    expect(calls.broken).toBe(3);
+    expect(failed).toEqual(['broken']);
+  });
+
+  it('fails at once when the handler marks the error as not retryable', async () => {
+    const { enqueueJob } = await jobs;
+    const job = await enqueueJob('finalize', { key: 'setup', failTimes: -1 });
+    expect(await settle(job.id)).toMatchObject({ status: 'failed', attempts: 1, error: 'bad setup' });
+    expect(calls.setup).toBe(1);
+    expect(failed).toContain('setup');
+  });
+
+  it('only looks up UUID-shaped job ids', async () => {
+    const { getJob } = await jobs;
+    fs.writeFileSync(path.join(tmp, 'secret.json'), '{"status":"succeeded"}');
+    expect(await getJob('../secret')).toBeNull();
+    expect(await getJob('done/../../secret')).toBeNull();
+  });
+
+  it('leaves an attempt another instance claimed to that instance', async () => {
+    const now = new Date().toISOString();
+    const id = '00000000-0000-4000-8000-000000000003';
+    fs.mkdirSync(path.join(jobsDir, 'claims', id), { recursive: true });
+    fs.writeFileSync(path.join(jobsDir, 'claims', id, '0'), 'other-instance');
+    const job: JobRecord = {
+      id, type: 'finalize', status: 'queued', payload: { key: 'claimed', failTimes: 0 }, attempts: 0, maxAttempts: 3,
+      runAfter: now, createdAt: now, updatedAt: now,
+    };
+    fs.writeFileSync(path.join(jobsDir, `${id}.json`), JSON.stringify(job));
+    await new Promise(r => setTimeout(r, 300));
+    expect(calls.claimed).toBeUndefined();
+    expect(await (await jobs).getJob(id)).toMatchObject({ status: 'queued', attempts: 0 });
+  });
+
+  it('requeues running jobs whose lease expired and leaves leased ones alone', async () => {
+    const now = Date.now();
+    const running = (id: string, key: string, leaseUntil: number): JobRecord => ({
+      id, type: 'finalize', status: 'running', payload: { key, failTimes: 0 }, attempts: 1, maxAttempts: 3,
+      runAfter: new Date(now).toISOString(), createdAt: new Date(now).toISOString(), updatedAt: new Date(now).toISOString(),
+      worker: 'other-instance', leaseUntil: new Date(leaseUntil).toISOString(),
+    });
+    const abandoned = running('00000000-0000-4000-8000-000000000001', 'abandoned', now - 1000);
+    const live = running('00000000-0000-4000-8000-000000000002', 'live', now + 60_000);
+    for (const j of [abandoned, live]) fs.writeFileSync(path.join(jobsDir, `${j.id}.json`), JSON.stringify(j));
+
+    expect(await settle(abandoned.id)).toMatchObject({ status: 'succeeded', attempts: 2 });
+    const { getJob } = await jobs;
+    expect(await getJob(live.id)).toMatchObject({ status: 'running', worker: 'other-instance' });
+    expect(calls.live).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Request, Response } from 'express';
+import { afterAll, describe, expect, it } from 'vitest';
+import type { Principal } from '../src/middleware/auth';
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'quota-test-'));
+Object.assign(process.env, {
+  STORAGE_TEMP_PATH: tmp,
+  USAGE_QUOTAS: JSON.stringify([
+    { metric: 'requests', scope: 'user', period: 'month', limit: 2 },
+    { metric: 'audioSeconds', scope: 'room', period: 'month', limit: 60 },
+  ]),
+});
+const { enforceQuota, usageSubjectFor } = await import('../src/middleware/quota');
+const { recordUsage, releaseReservation, reserveQuota } = await import('../src/services/usage');
+
+const alice: Principal = { kind: 'jwt', subject: 'alice', scopes: [], rooms: ['r1'], userId: 'alice', tenant: 'acme' };
+
+function call(req: Partial<Request>) {
+  const res = { statusCode: 200, headers: {} as Record<string, string>, body: undefined as any };
+  const response = {
+    set(name: string, value: string) { res.headers[name] = value; return this; },
+    status(code: number) { res.statusCode = code; return this; },
+    json(body: unknown) { res.body = body; return this; },
+  } as unknown as Response;
+  let passed = false;
+  return enforceQuota()({ params: {}, query: {}, body: undefined, path: '/chat', ...req } as Request, response, () => { passed = true; })
+    .then(() => ({ passed, ...res }));
+}
+
+describe('quota middleware', () => {
+  afterAll(() => fs.promises.rm(tmp, { recursive: true, force: true }));
+
+  it('bills a participant-bound token to its own user, whatever ?userId= says', () => {
+    const subject = usageSubjectFor({ params: { roomId: 'r1' }, query: { userId: 'someone-else' }, body: { userId: 'another' }, auth: alice } as unknown as Request);
+    expect(subject).toEqual({ tenant: 'acme', roomId: 'r1', userId: 'alice' });
+  });
+
+  it('falls back to the query or body when the caller is not bound to a user', () => {
+    const service: Principal = { kind: 'api-key', subject: 'backend', scopes: [], rooms: ['*'], tenant: 'acme' };
+    expect(usageSubjectFor({ params: {}, query: { userId: 'bob' }, auth: service } as unknown as Request).userId).toBe('bob');
+    expect(usageSubjectFor({ params: {}, query: {}, body: { userId: 'carol' }, auth: service } as unknown as Request).userId).toBe('carol');
+  });
+
+  it('keeps rate limiting a user who changes ?userId= on every request', async () => {
+    expect((await call({ auth: alice, query: { roomId: 'r1', userId: 'a1' } })).passed).toBe(true);
+    expect((await call({ auth: alice, query: { roomId: 'r1', userId: 'a2' } })).passed).toBe(true);
+    const third = await call({ auth: alice, query: { roomId: 'r1', userId: 'a3' } });
+    expect(third.passed).toBe(false);
+    expect(third.statusCode).toBe(429);
+    expect(third.body.quota).toMatchObject({ metric: 'requests', scope: 'user', id: 'alice' });
+    expect(Number(third.headers['Retry-After'])).toBeGreaterThan(0);
+  });
+});
+
+describe('audio quota reservations', () => {
+  const subject = (roomId: string) => ({ tenant: 'acme', roomId, userId: 'alice' });
+
+  it('refuses uploads once concurrent reservations fill the quota, before any of them is billed', async () => {
+    const held = await Promise.all([1, 2, 3].map(() => reserveQuota(subject('q1'), 'audioSeconds', 30)));
+    expect(held.filter(h => h.reservation).length).toBe(2);
+    expect(held.find(h => h.exceeded)?.exceeded).toMatchObject({ metric: 'audioSeconds', scope: 'room', id: 'q1', used: 60 });
+  });
+
+  it('replaces the reservation with the measured audio once it is released', async () => {
+    const first = await reserveQuota(subject('q2'), 'audioSeconds', 30);
+    const second = await reserveQuota(subject('q2'), 'audioSeconds', 30);
+    expect((await reserveQuota(subject('q2'), 'audioSeconds', 30)).exceeded).not.toBeNull();
+
+    // the first chunk turned out to be 10 s long
+    releaseReservation(first.reservation);
+    await recordUsage('audioSeconds', 10, subject('q2'));
+    const third = await reserveQuota(subject('q2'), 'audioSeconds', 30);
+    expect(third.exceeded).toBeNull();
+    releaseReservation(second.reservation);
+    releaseReservation(third.reservation);
+    releaseReservation(third.reservation);
+    expect((await reserveQuota(subject('q2'), 'audioSeconds', 30)).exceeded).toBeNull();
+  });
+
+  it('holds nothing where no audio limit applies', async () => {
+    const { exceeded, reservation } = await reserveQuota({ tenant: 'acme' }, 'audioSeconds', 30);
+    expect(exceeded).toBeNull();
+    expect(reservation).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { MeetingSegment } from '../src/services/segments';
+
+Object.assign(process.env, {
+  REDACTION_MODE: 'keep-for-owner',
+  REDACTION_HASH_KEY: 'test-key',
+  REDACTION_TERMS: 'Proyecto Atlas',
+});
+const { detectPii, redactDeep, redactSegments, redactText, segmentTextFor } = await import('../src/services/redaction');
+
+const line = 'Escríbeme a ana.perez@example.com o llama al +34 612 345 678; mi DNI es 12345678Z.';
+
+describe('redactText', () => {
+  it('labels each kind of personal data it finds', () => {
+    const r = redactText(line, 'redact');
+    expect(r.text).toBe('Escríbeme a [EMAIL] o llama al [PHONE]; mi DNI es [ID].');
+    expect(r.counts).toEqual({ email: 1, phone: 1, 'national-id': 1 });
+    expect(r.changed).toBe(true);
+  });
+
+  it('hashes values consistently so repeated mentions can be correlated', () => {
+    const r = redactText('ana.perez@example.com y ANA.PEREZ@example.com', 'hash');
+    const [first, second] = r.text.split(' y ');
+    expect(first).toMatch(/^\[EMAIL:[0-9a-f]{10}\]$/);
+    expect(second).toBe(first);
+  });
+
+  it('leaves text alone when off, and numbers that are not personal data', () => {
+    expect(redactText(line, 'off')).toEqual({ text: line, counts: {}, changed: false });
+    const numbers = 'Facturamos 10.000.000 el 2024-05-01; tarjeta 4111 1111 1111 1112.';
+    expect(redactText(numbers, 'redact').changed).toBe(false);
+    expect(redactText('tarjeta 4111 1111 1111 1111', 'redact').text).toBe('tarjeta [CARD]');
+  });
+
+  it('applies REDACTION_TERMS as whole words only', () => {
+    expect(redactText('El proyecto atlas arranca; Atlasia no.', 'redact').text).toBe('El [REDACTED] arranca; Atlasia no.');
+    expect(detectPii(line, ['email']).map(m => m.value)).toEqual(['ana.perez@example.com']);
+  });
+});
+
+describe('redactSegments', () => {
+  const segment = (text: string): MeetingSegment => ({
+    roomId: 'r1', userId: 'ana', startMs: 0, endMs: 1000, text, receivedAt: '2026-01-01T00:00:00.000Z',
+    words: [{ word: text, startMs: 0, endMs: 1000 }],
+  });
+
+  it('masks stored text, drops word timings and keeps the original for its speaker', () => {
+    const [clean, masked] = redactSegments([segment('hola a todos'), segment(line)]);
+    expect(clean.words).toHaveLength(1);
+    expect(masked.text).toBe('Escríbeme a [EMAIL] o llama al [PHONE]; mi DNI es [ID].');
+    expect(masked.words).toBeUndefined();
+    expect(masked.originalText).toBe(line);
+    expect(segmentTextFor(masked, 'ana')).toBe(line);
+    expect(segmentTextFor(masked, 'bob')).toBe(masked.text);
+    expect(segmentTextFor(masked)).toBe(masked.text);
+  });
+
+  it('redacts nested strings in structured values', () => {
+    expect(redactDeep({ actions: [{ owner: 'ana.perez@example.com', due: 3 }] }, 'redact')).toEqual({ actions: [{ owner: '[EMAIL]', due: 3 }] });
+  });
+});
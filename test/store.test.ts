@@ -0,0 +1,89 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createFsTranscriptStore } from '../src/services/store/fs';
+import { ChunkRecord } from '../src/services/store/types';
+import { InvalidRoomIdError, isValidRoomId } from '../src/services/store/ids';
+
+describe('room ids', () => {
+  it('accepts the ids rooms are created with', () => {
+    for (const id of ['global', 'room-1', 'Team_Sync.2024', 'org:abc@eu']) expect(isValidRoomId(id)).toBe(true);
+  });
+
+  it('refuses dot segments, separators and oversized ids', () => {
+    for (const id of ['', '.', '..', '.hidden', '../x', 'a/b', 'a\\b', 'a b', 'a%2Fb', 'x'.repeat(129)]) expect(isValidRoomId(id)).toBe(false);
+  });
+});
+
+describe('fs transcript store', () => {
+  let root: string;
+  let parent: string;
+
+  beforeEach(async () => {
+    parent = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'store-test-'));
+    root = path.join(parent, 'transcripts');
+    await fs.promises.writeFile(path.join(parent, 'keep.txt'), 'outside the store');
+  });
+  afterEach(() => fs.promises.rm(parent, { recursive: true, force: true }));
+
+  it('keeps rooms inside the store root', async () => {
+    const store = createFsTranscriptStore(root);
+    await store.appendSegments('r1', 'alice', [{ roomId: 'r1', userId: 'alice', startMs: 0, endMs: 1000, text: 'hola', receivedAt: new Date().toISOString() }]);
+    expect(fs.existsSync(path.join(root, 'r1', 'segments.jsonl'))).toBe(true);
+    expect((await store.listRooms()).map(r => r.id)).toEqual(['r1']);
+  });
+
+  it('refuses to read, write or delete outside the root', async () => {
+    const store = createFsTranscriptStore(root);
+    await expect(store.appendSegments('..', 'alice', [])).rejects.toBeInstanceOf(InvalidRoomIdError);
+    await expect(store.setRoomStatus('.', 'closed')).rejects.toBeInstanceOf(InvalidRoomIdError);
+    await expect(store.deleteTranscripts('..')).rejects.toBeInstanceOf(InvalidRoomIdError);
+    expect(() => store.getRoom('..')).toThrow(InvalidRoomIdError);
+    expect(fs.readFileSync(path.join(parent, 'keep.txt'), 'utf8')).toBe('outside the store');
+    expect(fs.existsSync(path.join(parent, 'room.json'))).toBe(false);
+  });
+
+  it('returns the original chunk for a repeated sequence number or idempotency key', async () => {
+    const store = createFsTranscriptStore(root);
+    const now = new Date().toISOString();
+    const chunk = (id: string, extra: Partial<ChunkRecord>): ChunkRecord =>
+      ({ id, roomId: 'r1', userId: 'alice', status: 'received', receivedAt: now, updatedAt: now, ...extra });
+
+    expect(await store.registerChunk(chunk('c1', { seq: 0 }))).toMatchObject({ duplicate: false, chunk: { id: 'c1' } });
+    expect(await store.registerChunk(chunk('c2', { seq: 0 }))).toMatchObject({ duplicate: true, chunk: { id: 'c1' } });
+    expect(await store.registerChunk(chunk('c3', { idempotencyKey: 'k' }))).toMatchObject({ duplicate: false });
+    expect(await store.registerChunk(chunk('c4', { idempotencyKey: 'k' }))).toMatchObject({ duplicate: true, chunk: { id: 'c3' } });
+    // the same sequence from another participant is a different chunk
+    expect(await store.registerChunk(chunk('c5', { seq: 0, userId: 'bob' }))).toMatchObject({ duplicate: false });
+  });
+
+  it('accepts a failed chunk again under the same sequence number', async () => {
+    const store = createFsTranscriptStore(root);
+    const now = new Date().toISOString();
+    await store.registerChunk({ id: 'c1', roomId: 'r1', userId: 'alice', seq: 3, status: 'received', receivedAt: now, updatedAt: now });
+    await store.updateChunk('r1', 'c1', { status: 'failed' });
+    const retry = await store.registerChunk({ id: 'c2', roomId: 'r1', userId: 'alice', seq: 3, status: 'received', receivedAt: now, updatedAt: now });
+    expect(retry).toMatchObject({ duplicate: false, chunk: { id: 'c2' } });
+    expect((await store.listChunks('r1')).map(c => c.id)).toEqual(['c2']);
+  });
+
+  it('drops transcript segments but keeps the room, its status, settings and summaries', async () => {
+    const store = createFsTranscriptStore(root);
+    const now = new Date().toISOString();
+    const line = (userId: string) => ({ roomId: 'r1', userId, startMs: 0, endMs: 1000, text: `hola ${userId}`, receivedAt: now });
+    await store.appendSegments('r1', 'alice', [line('alice')]);
+    await store.appendSegments('r1', 'bob', [line('bob')]);
+    await store.updateRoomSettings('r1', { locale: 'en', retentionDays: 7 });
+    await store.setRoomStatus('r1', 'closed');
+    await store.saveSummary({ roomId: 'r1', createdAt: now, summary: 'resumen' });
+
+    await store.deleteSegments('r1', 'alice');
+    expect((await store.listSegments('r1')).map(s => s.userId)).toEqual(['bob']);
+    await store.deleteSegments('r1');
+    expect(await store.listSegments('r1')).toEqual([]);
+    expect(await store.getRoom('r1')).toMatchObject({ status: 'closed', settings: { locale: 'en', retentionDays: 7 } });
+    expect((await store.listSummaries('r1')).map(s => s.summary)).toEqual(['resumen']);
+    expect((await store.listParticipants('r1')).map(p => p.userId)).toEqual(['alice', 'bob']);
+  });
+});
@@ -0,0 +1,62 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'stream-test-'));
+// stands in for ffmpeg: reads the stream until the session ends it
+const fakeDecoder = path.join(tmp, 'decoder.sh');
+fs.writeFileSync(fakeDecoder, '#!/bin/sh\ncat > /dev/null\n', { mode: 0o755 });
+const decoderBinary = vi.hoisted(() => ({ path: '' }));
+vi.mock('ffmpeg-static', () => ({ get default() { return decoderBinary.path; } }));
+// a provider that never answers
+vi.mock('../src/services/transcribe', () => ({ transcribeBuffer: vi.fn(() => new Promise(() => {})) }));
+
+Object.assign(process.env, { STORAGE_TEMP_PATH: tmp, STREAM_MAX_DECODERS: '1', STREAM_MAX_PENDING_FINALS: '2', STREAM_PARTIAL_INTERVAL_MS: '0' });
+const { createStreamSession, decoderAvailable, streamDecoderStats } = await import('../src/services/streaming/session');
+
+afterAll(() => fs.promises.rm(tmp, { recursive: true, force: true }));
+
+describe('stream sessions', () => {
+  it('reports a decoder that cannot start instead of crashing the process', async () => {
+    decoderBinary.path = path.join(tmp, 'missing-ffmpeg');
+    const failures: string[] = [];
+    const session = createStreamSession({ roomId: 'r1', userId: 'alice', format: 'webm', offsetMs: 0, onFailure: m => failures.push(m) });
+    await vi.waitFor(() => expect(failures).toEqual(['Audio decoder failed']));
+    session.write(Buffer.alloc(100));
+    await session.end();
+    expect(streamDecoderStats().active).toBe(0);
+  });
+
+  it('refuses decoders past STREAM_MAX_DECODERS and frees the slot when a stream ends', async () => {
+    decoderBinary.path = fakeDecoder;
+    const first = createStreamSession({ roomId: 'r1', userId: 'alice', format: 'ogg', offsetMs: 0 });
+    expect(decoderAvailable()).toBe(false);
+    expect(() => createStreamSession({ roomId: 'r1', userId: 'bob', format: 'webm', offsetMs: 0 })).toThrow('Too many live streams');
+    // 16 kHz mono PCM needs no decoder
+    await createStreamSession({ roomId: 'r1', userId: 'carol', format: 'pcm16', offsetMs: 0 }).end();
+    await first.end();
+    expect(decoderAvailable()).toBe(true);
+  });
+});
+
+// 16 kHz mono PCM: `ms` of a loud 440 Hz tone, or of silence
+const pcm = (ms: number, loud: boolean) => {
+  const buf = Buffer.alloc(ms * 32);
+  if (loud) for (let i = 0; i < buf.length / 2; i++) buf.writeInt16LE(Math.round(16000 * Math.sin((2 * Math.PI * 440 * i) / 16000)), i * 2);
+  return buf;
+};
+
+describe('stream backpressure', () => {
+  it('stops a stream whose utterances queue up faster than they are transcribed', () => {
+    const overloads: string[] = [];
+    const session = createStreamSession({ roomId: 'r2', userId: 'alice', format: 'pcm16', offsetMs: 0, onOverload: m => overloads.push(m) });
+    for (let i = 0; i < 2; i++) session.write(Buffer.concat([pcm(600, true), pcm(800, false)]));
+    expect(overloads).toEqual([]);
+    session.write(Buffer.concat([pcm(600, true), pcm(800, false)]));
+    expect(overloads).toEqual(['Transcription is falling behind']);
+    // later audio is dropped instead of queued
+    session.write(Buffer.concat([pcm(600, true), pcm(800, false)]));
+    expect(overloads).toHaveLength(1);
+  });
+});
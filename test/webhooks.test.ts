@@ -0,0 +1,56 @@
+import dns from 'dns';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { BlockedAddressError, isPrivateAddress, postWebhook } from '../src/services/webhooks/network';
+import { validateWebhookUrl, WebhookValidationError } from '../src/services/webhooks/subscriptions';
+
+describe('webhook receiver addresses', () => {
+  it('treats loopback, private, unspecified and IPv4-mapped addresses as private', () => {
+    for (const ip of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::', '::1', '::ffff:7f00:1', '::ffff:127.0.0.1', 'fd00::1', 'fe80::1']) {
+      expect(isPrivateAddress(ip), ip).toBe(true);
+    }
+    for (const ip of ['93.184.216.34', '2606:2800:220:1:248:1893:25c8:1946', '::ffff:5db8:d822']) expect(isPrivateAddress(ip), ip).toBe(false);
+  });
+
+  it('refuses private hosts when a subscription is created', () => {
+    for (const url of ['http://[::ffff:127.0.0.1]:3000/', 'http://[::]:3000/', 'http://localhost.:3000/', 'http://api.localhost/', 'http://10.0.0.5/hook']) {
+      expect(() => validateWebhookUrl(url), url).toThrow(WebhookValidationError);
+    }
+    expect(validateWebhookUrl('https://hooks.example.com/agorax')).toBe('https://hooks.example.com/agorax');
+  });
+});
+
+describe('postWebhook', () => {
+  let server: http.Server;
+  let port: number;
+  const received: string[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', d => { body += d; });
+      req.on('end', () => { received.push(body); res.statusCode = 204; res.end(); });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+
+  const options = { headers: { 'Content-Type': 'application/json' }, timeoutMs: 2000, allowPrivate: false };
+
+  it('does not connect to a name that resolves to a private address', async () => {
+    // stands in for any public DNS name pointed at 127.0.0.1
+    const lookup = vi.spyOn(dns, 'lookup').mockImplementation(((_host: string, _opts: unknown, cb: (e: null, a: dns.LookupAddress[]) => void) =>
+      cb(null, [{ address: '127.0.0.1', family: 4 }])) as unknown as typeof dns.lookup);
+    await expect(postWebhook(`http://rebind.example.com:${port}/`, '{}', options)).rejects.toBeInstanceOf(BlockedAddressError);
+    lookup.mockRestore();
+    await expect(postWebhook(`http://[::ffff:127.0.0.1]:${port}/`, '{}', options)).rejects.toBeInstanceOf(BlockedAddressError);
+    expect(received).toEqual([]);
+  });
+
+  it('delivers to private receivers only when allowed', async () => {
+    expect(await postWebhook(`http://127.0.0.1:${port}/`, '{"ok":true}', { ...options, allowPrivate: true })).toBe(204);
+    expect(received).toEqual(['{"ok":true}']);
+  });
+});